@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { errorResponse } from '@/lib/api-errors'
+import { detectCommunities, listCommunities, summarizeCommunities } from '@/lib/communities'
+
+const listQuerySchema = z.object({
+  level: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+const buildRequestSchema = z.object({
+  // Skip clustering and only summarize stale communities
+  detect: z.boolean().default(true),
+  summarize: z.boolean().default(true),
+  resolution: z.number().positive().default(1),
+  minSize: z.number().int().min(1).default(2),
+  maxLevels: z.number().int().min(1).max(5).default(3),
+  force: z.boolean().default(false),
+  limit: z.number().int().min(1).max(200).default(50),
+})
+
+// GET /api/communities?level=0&limit=100
+export async function GET(req: Request) {
+  try {
+    const query = listQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+    return NextResponse.json({ communities: await listCommunities(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list communities')
+  }
+}
+
+// POST /api/communities re-detects communities and summarizes stale ones.
+// Summarizing makes one LLM call per community, so it's capped by `limit`;
+// call again to continue.
+export async function POST(req: Request) {
+  try {
+    const options = buildRequestSchema.parse(await req.json().catch(() => ({})))
+    const supabase = await createServerSideClient()
+
+    const detection = options.detect ? await detectCommunities(supabase, options) : null
+    const summaries = options.summarize
+      ? await summarizeCommunities(supabase, { force: options.force, limit: options.limit })
+      : []
+
+    return NextResponse.json({
+      detection,
+      summarized: summaries.map(({ community, report }) => ({
+        id: community.id,
+        level: community.level,
+        size: community.size,
+        title: report.title,
+      })),
+    })
+  } catch (error) {
+    return errorResponse(error, 'build communities')
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { errorResponse, readJson } from '@/lib/api-errors'
+import { globalSearch } from '@/lib/communities'
+
+const searchRequestSchema = z.object({
+  query: z.string().min(1),
+  level: z.number().int().min(0).optional(),
+  maxCommunities: z.number().int().min(1).max(200).default(30),
+})
+
+// POST /api/communities/search { "query": "What are the main themes?" }
+// Map-reduce over community summaries; returns the answer and the scored
+// points it was written from.
+export async function POST(req: Request) {
+  try {
+    const { query, ...options } = searchRequestSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+    return NextResponse.json(await globalSearch(supabase, query, options))
+  } catch (error) {
+    return errorResponse(error, 'search communities')
+  }
+}
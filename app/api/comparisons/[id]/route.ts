@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { comparisonUpdateSchema, deleteComparison, updateComparison } from '@/lib/comparisons'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/comparisons/:id  { winner?: 'vector' | 'graph' | 'hybrid' | null, notes?: string | null }
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const update = comparisonUpdateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await updateComparison(supabase, id, update))
+  } catch (error) {
+    return errorResponse(error, 'update comparison')
+  }
+}
+
+// DELETE /api/comparisons/:id
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    await deleteComparison(supabase, id)
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    return errorResponse(error, 'delete comparison')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { comparisonQuerySchema, comparisonSchema, createComparison, listComparisons, voteTally } from '@/lib/comparisons'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+// GET /api/comparisons?limit=20&winner=graph|none
+// Saved side-by-side runs, newest first, with the vote count per mode
+export async function GET(req: Request) {
+  try {
+    const query = comparisonQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    const [comparisons, tally] = await Promise.all([listComparisons(supabase, query), voteTally(supabase)])
+    return NextResponse.json({ comparisons, tally })
+  } catch (error) {
+    return errorResponse(error, 'list comparisons')
+  }
+}
+
+// POST /api/comparisons  { question, answers: [{ mode, content, toolCalls, latencyMs, usage, citations, ... }], winner?, notes? }
+export async function POST(req: Request) {
+  try {
+    const input = comparisonSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await createComparison(supabase, input), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'save comparison')
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import {
+  conversationUpdateSchema,
+  deleteConversation,
+  getConversation,
+  renameConversation,
+} from '@/lib/conversations'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/conversations/:id
+// The thread and its messages in useChat's format, each with its mode
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getConversation(supabase, id))
+  } catch (error) {
+    return errorResponse(error, 'fetch conversation')
+  }
+}
+
+// PATCH /api/conversations/:id  { title }
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { title } = conversationUpdateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await renameConversation(supabase, id, title))
+  } catch (error) {
+    return errorResponse(error, 'rename conversation')
+  }
+}
+
+// DELETE /api/conversations/:id - graph changes made in the thread are kept
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    await deleteConversation(supabase, id)
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    return errorResponse(error, 'delete conversation')
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { conversationQuerySchema, listConversations } from '@/lib/conversations'
+import { errorResponse } from '@/lib/api-errors'
+
+// GET /api/conversations?limit=50&q=mars
+// Chat threads, most recently active first. Threads are created by the
+// chat route on their first turn.
+export async function GET(req: Request) {
+  try {
+    const query = conversationQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ conversations: await listConversations(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list conversations')
+  }
+}
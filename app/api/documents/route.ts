@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { ingestDocument, ingestDocumentSchema } from '@/lib/documents'
+import { InvalidJsonError, readJson } from '@/lib/api-errors'
+
+// Accepts either a JSON body matching `ingestDocumentSchema`, or a raw
+// text/markdown body with the title and chunking options in the query string:
+//   POST /api/documents?title=Notes&strategy=sentence&maxTokens=150
+export async function POST(req: Request) {
+  try {
+    const input = await readInput(req)
+    const supabase = await createServerSideClient()
+    const result = await ingestDocument(supabase, input)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid document', issues: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json({ error: 'Invalid document', message: error.message }, { status: 400 })
+    }
+
+    console.error('Document ingestion failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to ingest document',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+async function readInput(req: Request) {
+  const contentType = req.headers.get('content-type') || ''
+
+  if (contentType.includes('application/json')) {
+    return ingestDocumentSchema.parse(await readJson(req))
+  }
+
+  const params = new URL(req.url).searchParams
+  const number = (key: string) => (params.has(key) ? Number(params.get(key)) : undefined)
+
+  return {
+    title: params.get('title') || '',
+    content: await req.text(),
+    format: contentType.includes('text/plain') ? 'text' as const : 'markdown' as const,
+    source: params.get('source') || undefined,
+    replace: params.get('replace') === 'true',
+    chunking: {
+      strategy: (params.get('strategy') || undefined) as 'heading' | 'fixed' | 'sentence' | undefined,
+      maxTokens: number('maxTokens'),
+      overlap: number('overlap'),
+      minChars: number('minChars'),
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { deleteEdges, edgeUpdateSchema, getEdge, GraphStoreError, updateEdge } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getEdge(supabase, id))
+  } catch (error) {
+    return errorResponse(error, 'fetch edge')
+  }
+}
+
+// PATCH /api/edges/:id  { relationship?, properties?, weight? }
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const update = edgeUpdateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json(await updateEdge(supabase, id, update))
+  } catch (error) {
+    return errorResponse(error, 'update edge')
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    const deleted = await deleteEdges(supabase, [id])
+    if (deleted.length === 0) throw new GraphStoreError(`Edge ${id} not found`, 'not_found')
+
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    return errorResponse(error, 'delete edge')
+  }
+}
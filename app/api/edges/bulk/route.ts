@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { createEdges, deleteEdges, edgeInputSchema } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const bulkCreateSchema = z.object({
+  edges: z.array(edgeInputSchema).min(1).max(1000),
+  // Leave existing edges alone instead of failing the batch with a 409
+  skipExisting: z.boolean().default(false),
+})
+
+const bulkDeleteSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(1000),
+})
+
+// POST /api/edges/bulk  { edges: [{ source, target, relationship }, ...], skipExisting? }
+export async function POST(req: Request) {
+  try {
+    const { edges, skipExisting } = bulkCreateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json(
+      { edges: await createEdges(supabase, edges, { skipExisting }) },
+      { status: 201 }
+    )
+  } catch (error) {
+    return errorResponse(error, 'create edges')
+  }
+}
+
+// DELETE /api/edges/bulk  { ids: [...] }
+export async function DELETE(req: Request) {
+  try {
+    const { ids } = bulkDeleteSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    const deleted = await deleteEdges(supabase, ids)
+    return NextResponse.json({ deleted, notFound: ids.filter(id => !deleted.includes(id)) })
+  } catch (error) {
+    return errorResponse(error, 'delete edges')
+  }
+}
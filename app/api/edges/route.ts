@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { createEdge, edgeInputSchema, listEdges } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const listQuerySchema = z.object({
+  nodeId: z.string().uuid().optional(),
+  relationship: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+// GET /api/edges?nodeId=...&relationship=operates&limit=100&offset=0
+export async function GET(req: Request) {
+  try {
+    const query = listQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ edges: await listEdges(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list edges')
+  }
+}
+
+// POST /api/edges  { source, target, relationship, properties?, weight? }
+// `source` and `target` accept node ids or labels. Returns 409 with the
+// existing edge's id if the same relationship already connects the nodes.
+export async function POST(req: Request) {
+  try {
+    const input = edgeInputSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json(await createEdge(supabase, input), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'create edge')
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { embeddingStatus, reembed, reembedSchema } from '@/lib/reembed'
+import { errorResponse } from '@/lib/api-errors'
+
+// GET /api/embeddings
+// The configured embedding model and, per table, how many rows are missing
+// a vector, were embedded before their text changed, or used another model.
+export async function GET() {
+  try {
+    const supabase = await createServerSideClient()
+    return NextResponse.json(await embeddingStatus(supabase))
+  } catch (error) {
+    return errorResponse(error, 'fetch embedding status')
+  }
+}
+
+// POST /api/embeddings  { tables?: ['kg_nodes', 'document_chunks'], force?, limit?, dryRun? }
+// Re-embeds stale rows. Large backfills are better run with `npm run reembed`;
+// pass a limit here and call again to continue.
+export async function POST(req: Request) {
+  try {
+    const options = reembedSchema.parse(await req.json().catch(() => ({})))
+    const supabase = await createServerSideClient()
+
+    const reembedded = await reembed(supabase, options)
+    return NextResponse.json({ reembedded, status: await embeddingStatus(supabase) })
+  } catch (error) {
+    return errorResponse(error, 're-embed')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { extractFromChunks } from '@/lib/extraction'
+
+const extractRequestSchema = z.object({
+  documentId: z.string().uuid().optional(),
+  chunkIds: z.array(z.string().uuid()).optional(),
+  force: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+  limit: z.number().int().min(1).max(200).default(50),
+})
+
+export async function POST(req: Request) {
+  try {
+    const options = extractRequestSchema.parse(await req.json().catch(() => ({})))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+    const results = await extractFromChunks(supabase, options)
+
+    return NextResponse.json({
+      chunks: results.length,
+      nodesCreated: results.reduce((sum, r) => sum + r.nodesCreated, 0),
+      nodesMatched: results.reduce((sum, r) => sum + r.nodesMatched, 0),
+      edgesUpserted: results.reduce((sum, r) => sum + r.edgesUpserted, 0),
+      skippedEntities: results.reduce((sum, r) => sum + r.skippedEntities, 0),
+      skippedRelationships: results.reduce((sum, r) => sum + r.skippedRelationships, 0),
+      results,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', issues: error.issues }, { status: 400 })
+    }
+
+    console.error('Graph extraction failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to extract graph',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { errorResponse } from '@/lib/api-errors'
+import { analyzeGraph, ANALYTICS_METRICS, topNodes } from '@/lib/analytics'
+
+const analyticsQuerySchema = z.object({
+  top: z.coerce.number().int().min(1).max(100).default(10),
+  // Include metrics for every node, e.g. to size and color the canvas
+  nodes: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+})
+
+// GET /api/graph/analytics?top=10&nodes=true
+// Summary stats, the top nodes by degree, PageRank and betweenness,
+// connected components, isolated nodes and type histograms.
+export async function GET(req: Request) {
+  try {
+    const query = analyticsQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+    const analytics = await analyzeGraph(supabase)
+    const top = Object.fromEntries(ANALYTICS_METRICS.map(metric => [metric, topNodes(analytics, metric, query.top)]))
+    const { nodes, ...rest } = analytics
+
+    return NextResponse.json({ ...rest, top, ...(query.nodes ? { nodes } : {}) })
+  } catch (error) {
+    return errorResponse(error, 'analyze graph')
+  }
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { parseGraphQuery } from '@/lib/graph-query'
+import { resolveNodeRef } from '@/lib/graph-store'
+import { exportGraph } from '@/lib/graph-transfer'
+import { FORMAT_INFO, INTERCHANGE_FORMATS, serializeGraph } from '@/lib/interchange'
+import { errorResponse } from '@/lib/api-errors'
+
+const exportQuerySchema = z.object({
+  format: z.enum(INTERCHANGE_FORMATS).default('jgf'),
+  // CSV exports are two files; pick which one to download
+  part: z.enum(['nodes', 'edges']).default('nodes'),
+})
+
+// GET /api/graph/export?format=graphml
+// GET /api/graph/export?format=csv&part=edges&center=NASA&depth=2
+// Accepts the same filters as GET /api/graph (center, depth, types,
+// relationships, q, prop.<key>, asOf, since, until) and exports every matching node.
+export async function GET(req: Request) {
+  try {
+    const searchParams = new URL(req.url).searchParams
+    const { format, part } = exportQuerySchema.parse({
+      format: searchParams.get('format') ?? undefined,
+      part: searchParams.get('part') ?? undefined,
+    })
+    searchParams.delete('format')
+    searchParams.delete('part')
+    // Exports always cover every page
+    searchParams.delete('limit')
+    searchParams.delete('cursor')
+
+    const { center, depth, types, relationships, q, properties, asOf, since, until } = parseGraphQuery(searchParams)
+    const supabase = await createServerSideClient()
+    const centerId = center ? (await resolveNodeRef(supabase, center)).id : undefined
+
+    const graph = await exportGraph(supabase, { centerId, depth, types, relationships, q, properties, asOf, since, until })
+    const serialized = serializeGraph(graph, format)
+    const body = typeof serialized === 'string' ? serialized : serialized[part]
+    const { extension, contentType } = FORMAT_INFO[format]
+    const filename = format === 'csv' ? `graph-${part}.${extension}` : `graph.${extension}`
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': `${contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, 'export graph')
+  }
+}
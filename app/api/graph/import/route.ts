@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { importGraph } from '@/lib/graph-transfer'
+import { INTERCHANGE_FORMATS, parseGraph } from '@/lib/interchange'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const importOptionsSchema = z.object({
+  format: z.enum(INTERCHANGE_FORMATS),
+  dryRun: z.boolean().default(false),
+  mode: z.enum(['merge', 'create']).default('merge'),
+})
+
+const importBodySchema = z.union([
+  importOptionsSchema.extend({ data: z.string().min(1) }),
+  // CSV imports send both lists
+  importOptionsSchema.extend({ format: z.literal('csv'), nodes: z.string().min(1), edges: z.string().default('') }),
+])
+
+// Accepts either the raw file as the body with options in the query string:
+//   POST /api/graph/import?format=graphml&dryRun=true
+// or a JSON body: { format, data, dryRun?, mode? } / { format: 'csv', nodes, edges }
+// Returns a report of matched/created nodes and edges; with dryRun nothing is written.
+export async function POST(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams
+    const input = params.has('format')
+      ? {
+        format: params.get('format'),
+        dryRun: params.get('dryRun') === 'true',
+        mode: params.get('mode') ?? undefined,
+        data: await req.text(),
+      }
+      : await readJson(req)
+
+    const body = importBodySchema.parse(input)
+    let graph
+    try {
+      graph = 'data' in body
+        ? parseGraph(body.data, body.format)
+        : parseGraph({ nodes: body.nodes, edges: body.edges }, 'csv')
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid file', message: error instanceof Error ? error.message : 'Could not parse file' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerSideClient(requestChangeContext(req))
+    const report = await importGraph(supabase, graph, { dryRun: body.dryRun, mode: body.mode })
+
+    return NextResponse.json(report, { status: body.dryRun ? 200 : 201 })
+  } catch (error) {
+    return errorResponse(error, 'import graph')
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { findPaths, pathsToGraphData } from '@/lib/paths'
+import { resolveNode } from '@/lib/entity-resolution'
+import { temporalQueryFields, toTimeRange } from '@/lib/temporal'
+
+const pathQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  k: z.coerce.number().int().min(1).max(10).default(1),
+  directed: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  maxDepth: z.coerce.number().int().min(1).max(10).default(6),
+  ...temporalQueryFields,
+})
+
+// GET /api/graph/path?from=Elon%20Musk&to=Mars&k=3&directed=false
+// `from` and `to` accept node ids or labels. Add asOf=1969 (or since/until)
+// to only follow nodes and edges valid at that time.
+export async function GET(req: Request) {
+  try {
+    const params = Object.fromEntries(new URL(req.url).searchParams)
+    const { from, to, k, directed, maxDepth, ...temporal } = pathQuerySchema.parse(params)
+    const supabase = await createServerSideClient()
+
+    const [fromResult, toResult] = await Promise.all([resolveNode(supabase, from), resolveNode(supabase, to)])
+    if (fromResult.status !== 'resolved' || toResult.status !== 'resolved') {
+      const unresolved = [fromResult, toResult].filter(r => r.status !== 'resolved')
+      const ambiguous = unresolved.some(r => r.status === 'ambiguous')
+      return NextResponse.json(
+        {
+          error: ambiguous ? 'Ambiguous node reference' : 'Node not found',
+          unresolved: unresolved.map(({ query, status, candidates }) => ({ query, status, candidates })),
+        },
+        { status: ambiguous ? 409 : 404 }
+      )
+    }
+
+    const start = fromResult.node
+    const end = toResult.node
+    const paths = await findPaths(supabase, start.id, end.id, { k, directed, maxDepth, during: toTimeRange(temporal) })
+
+    return NextResponse.json({
+      from: start,
+      to: end,
+      directed,
+      paths,
+      graph: pathsToGraphData(paths),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', issues: error.issues }, { status: 400 })
+    }
+
+    console.error('Failed to find path:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to find path',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
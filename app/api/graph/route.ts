@@ -1,48 +1,52 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { toViewNode } from '@/lib/graph'
+import { fetchGraphStats, parseGraphQuery, querySubgraph } from '@/lib/graph-query'
+import { describeUnresolved, resolveNode } from '@/lib/entity-resolution'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
-export async function GET() {
+// GET /api/graph?center=NASA&depth=2&types=person,organization&relationships=founded
+//   &q=space&prop.status=active&limit=200&cursor=...
+// GET /api/graph?asOf=1969 (or &since=1960&until=1975) for the graph at a point in time
+// GET /api/graph?mode=stats
+export async function GET(req: Request) {
   try {
-    // Fetch all nodes
-    const { data: nodes, error: nodesError } = await supabase
-      .from('kg_nodes')
-      .select('*')
-    
-    if (nodesError) throw nodesError
-    
-    // Fetch all edges
-    const { data: edges, error: edgesError } = await supabase
-      .from('kg_edges')
-      .select('*')
-    
-    if (edgesError) throw edgesError
-    
-    // Transform edges to match the expected format
-    const transformedEdges = (edges || []).map(edge => ({
-      source: edge.source_id,
-      target: edge.target_id,
-      label: edge.relationship
-    }))
-    
-    // Transform nodes to include description from properties
-    const transformedNodes = (nodes || []).map(node => ({
-      id: node.id,
-      label: node.label,
-      type: node.type,
-      description: node.properties?.description
-    }))
-    
-    return NextResponse.json({ 
-      nodes: transformedNodes, 
-      edges: transformedEdges 
+    const { mode, center, ...query } = parseGraphQuery(new URL(req.url).searchParams)
+
+    if (mode === 'stats') {
+      return NextResponse.json(await fetchGraphStats(supabase))
+    }
+
+    // Resolve the center by id, label or alias before walking out from it
+    let centerNode = null
+    if (center) {
+      const resolution = await resolveNode(supabase, center)
+      if (resolution.status !== 'resolved') {
+        return NextResponse.json(
+          describeUnresolved(resolution),
+          { status: resolution.status === 'ambiguous' ? 409 : 404 }
+        )
+      }
+      centerNode = resolution.node
+    }
+
+    const page = await querySubgraph(supabase, { ...query, centerId: centerNode?.id })
+
+    return NextResponse.json({
+      center: centerNode ? toViewNode(centerNode) : null,
+      ...page,
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', issues: error.issues }, { status: 400 })
+    }
+
     console.error('Failed to fetch graph data:', error)
     return NextResponse.json({ nodes: [], edges: [] }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext, revertChange, revertSchema, revertTurn } from '@/lib/history'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+// POST /api/history/revert  { changeId, force? }
+//                           { conversationId, turnId, force? }
+// Undoes one change or a whole chat turn. Returns 409 if a row has been
+// changed since, unless force is set.
+export async function POST(req: Request) {
+  try {
+    const body = revertSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    const changes = 'changeId' in body
+      ? await revertChange(supabase, body.changeId, { force: body.force })
+      : await revertTurn(supabase, body.conversationId, body.turnId, { force: body.force })
+    return NextResponse.json({ changes })
+  } catch (error) {
+    return errorResponse(error, 'revert changes')
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { changeQuerySchema, listChanges } from '@/lib/history'
+import { errorResponse } from '@/lib/api-errors'
+
+// GET /api/history?conversationId=...&turnId=...&limit=50&before=<change id>
+// Newest changes first; pass the last id back as `before` for the next page.
+export async function GET(req: Request) {
+  try {
+    const query = changeQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ changes: await listChanges(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list changes')
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { getNodeDetails, nodeDetailsQuerySchema } from '@/lib/node-details'
+import { errorResponse } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/nodes/:id/details?chunks=5&threshold=0.3
+// The node with its neighbors grouped by relationship and the document
+// chunks behind it: ones it was extracted from, then semantically close ones.
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const query = nodeDetailsQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getNodeDetails(supabase, id, query))
+  } catch (error) {
+    return errorResponse(error, 'fetch node details')
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { changeQuerySchema, getNodeHistory } from '@/lib/history'
+import { errorResponse } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/nodes/:id/history?limit=50&before=<change id>
+// Changes to the node and to edges touching it, newest first. Still works
+// after the node is deleted.
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const query = changeQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ changes: await getNodeHistory(supabase, id, query) })
+  } catch (error) {
+    return errorResponse(error, 'fetch node history')
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { deleteNodes, getNodeWithEdges, GraphStoreError, nodeUpdateSchema, updateNode } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/nodes/:id - the node with its incoming and outgoing edges
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getNodeWithEdges(supabase, id))
+  } catch (error) {
+    return errorResponse(error, 'fetch node')
+  }
+}
+
+// PATCH /api/nodes/:id  { label?, type?, properties?, aliases? }
+// Properties are merged; changing the label, type or description re-embeds the node.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const update = nodeUpdateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json(await updateNode(supabase, id, update))
+  } catch (error) {
+    return errorResponse(error, 'update node')
+  }
+}
+
+// DELETE /api/nodes/:id - also deletes the node's edges
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    const deleted = await deleteNodes(supabase, [id])
+    if (deleted.length === 0) throw new GraphStoreError(`Node ${id} not found`, 'not_found')
+
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    return errorResponse(error, 'delete node')
+  }
+}
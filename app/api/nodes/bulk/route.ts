@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { createNodes, deleteNodes, nodeInputSchema } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const bulkCreateSchema = z.object({
+  nodes: z.array(nodeInputSchema).min(1).max(500),
+})
+
+const bulkDeleteSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(1000),
+})
+
+// POST /api/nodes/bulk  { nodes: [{ label, type?, properties?, aliases? }, ...] }
+// Embeds every node first and inserts them in one statement, so either all
+// of them are created or none are.
+export async function POST(req: Request) {
+  try {
+    const { nodes } = bulkCreateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json({ nodes: await createNodes(supabase, nodes) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'create nodes')
+  }
+}
+
+// DELETE /api/nodes/bulk  { ids: [...] }
+export async function DELETE(req: Request) {
+  try {
+    const { ids } = bulkDeleteSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    const deleted = await deleteNodes(supabase, ids)
+    return NextResponse.json({ deleted, notFound: ids.filter(id => !deleted.includes(id)) })
+  } catch (error) {
+    return errorResponse(error, 'delete nodes')
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { dismissDuplicate, dismissSchema } from '@/lib/dedup'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+// POST /api/nodes/duplicates/dismiss  { nodeA, nodeB }
+// Marks two nodes as distinct so duplicate scans stop suggesting them
+export async function POST(req: Request) {
+  try {
+    const { nodeA, nodeB } = dismissSchema.parse(await readJson(req))
+    const { actor } = requestChangeContext(req)
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await dismissDuplicate(supabase, nodeA, nodeB, actor))
+  } catch (error) {
+    return errorResponse(error, 'dismiss duplicate')
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { duplicateQuerySchema, findDuplicates } from '@/lib/dedup'
+import { errorResponse } from '@/lib/api-errors'
+
+// GET /api/nodes/duplicates?threshold=0.9&limit=50
+// Likely duplicate node pairs: same normalized label or alias, or embedding
+// similarity at or above the threshold. Dismissed pairs are left out.
+export async function GET(req: Request) {
+  try {
+    const query = duplicateQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ pairs: await findDuplicates(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'find duplicates')
+  }
+}
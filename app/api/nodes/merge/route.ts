@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { listMerges, mergeNodes, mergeSchema } from '@/lib/dedup'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const mergeQuerySchema = z.object({
+  nodeId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+})
+
+// GET /api/nodes/merge?nodeId=<survivor>&limit=50
+// Past merges, newest first
+export async function GET(req: Request) {
+  try {
+    const query = mergeQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ merges: await listMerges(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list merges')
+  }
+}
+
+// POST /api/nodes/merge  { survivorId, duplicateIds: [...], force? }
+// Folds the duplicates into the survivor. Returns 400 if the moved edges
+// would break the ontology, unless force is set.
+export async function POST(req: Request) {
+  try {
+    const { survivorId, duplicateIds, force } = mergeSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient({ ...requestChangeContext(req), toolName: 'mergeNodes' })
+
+    return NextResponse.json(await mergeNodes(supabase, survivorId, duplicateIds, { force }))
+  } catch (error) {
+    return errorResponse(error, 'merge nodes')
+  }
+}
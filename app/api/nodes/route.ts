@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { createNode, listNodes, nodeInputSchema } from '@/lib/graph-store'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+const listQuerySchema = z.object({
+  type: z.string().min(1).optional(),
+  q: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+// GET /api/nodes?type=person&q=musk&limit=100&offset=0
+export async function GET(req: Request) {
+  try {
+    const query = listQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json({ nodes: await listNodes(supabase, query) })
+  } catch (error) {
+    return errorResponse(error, 'list nodes')
+  }
+}
+
+// POST /api/nodes  { label, type?, properties?, aliases? }
+export async function POST(req: Request) {
+  try {
+    const input = nodeInputSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient(requestChangeContext(req))
+
+    return NextResponse.json(await createNode(supabase, input), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'create node')
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { errorResponse, readJson } from '@/lib/api-errors'
+import {
+  auditGraph,
+  loadOntology,
+  ontologyRemovalSchema,
+  ontologyUpdateSchema,
+  removeFromOntology,
+  saveOntology,
+} from '@/lib/ontology'
+
+const ontologyQuerySchema = z.object({
+  // Also list existing nodes and edges the ontology wouldn't accept
+  audit: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+})
+
+// GET /api/ontology?audit=true
+export async function GET(req: Request) {
+  try {
+    const query = ontologyQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+    const ontology = await loadOntology(supabase)
+
+    return NextResponse.json({
+      ...ontology,
+      ...(query.audit ? { violations: await auditGraph(supabase, ontology) } : {}),
+    })
+  } catch (error) {
+    return errorResponse(error, 'fetch ontology')
+  }
+}
+
+// PUT /api/ontology  { nodeTypes?: [...], relationshipTypes?: [...] }
+// Adds or replaces the given definitions; anything not mentioned is kept.
+export async function PUT(req: Request) {
+  try {
+    const update = ontologyUpdateSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await saveOntology(supabase, update))
+  } catch (error) {
+    return errorResponse(error, 'update ontology')
+  }
+}
+
+// DELETE /api/ontology  { nodeTypes?: [names], relationshipTypes?: [names] }
+export async function DELETE(req: Request) {
+  try {
+    const removal = ontologyRemovalSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await removeFromOntology(supabase, removal))
+  } catch (error) {
+    return errorResponse(error, 'update ontology')
+  }
+}
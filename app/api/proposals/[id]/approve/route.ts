@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { approvalChangeContext, approveProposal, getProposal } from '@/lib/proposals'
+import { errorResponse } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/proposals/:id/approve - writes the node or edge to the graph.
+// Approving an edge also approves pending node proposals it connects.
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { actor, clientLabel } = requestChangeContext(req)
+    const proposal = await getProposal(await createServerSideClient(), id)
+    const supabase = await createServerSideClient({ ...approvalChangeContext(proposal, actor), clientLabel })
+
+    return NextResponse.json(await approveProposal(supabase, id, { reviewer: actor }))
+  } catch (error) {
+    return errorResponse(error, 'approve proposal')
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { requestChangeContext } from '@/lib/history'
+import { rejectProposal } from '@/lib/proposals'
+import { errorResponse } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const rejectSchema = z.object({
+  note: z.string().max(1000).optional(),
+})
+
+// POST /api/proposals/:id/reject  { note? }
+// Rejecting a node also rejects pending edges that depend on it.
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { note } = rejectSchema.parse(await req.json().catch(() => ({})))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await rejectProposal(supabase, id, { reviewer: requestChangeContext(req).actor, note }))
+  } catch (error) {
+    return errorResponse(error, 'reject proposal')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { editProposal, getProposal, proposalEditSchema } from '@/lib/proposals'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/proposals/:id
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getProposal(supabase, id))
+  } catch (error) {
+    return errorResponse(error, 'fetch proposal')
+  }
+}
+
+// PATCH /api/proposals/:id  { label?, type?, properties?, aliases?, relationship?, weight?, valid_from?, valid_to? }
+// Edits a pending proposal before it's approved; endpoints can't change.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const edit = proposalEditSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await editProposal(supabase, id, edit))
+  } catch (error) {
+    return errorResponse(error, 'edit proposal')
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { createServerSideClient } from '@/lib/supabase'
+import { listProposals, proposalQuerySchema, proposalsToGraphData } from '@/lib/proposals'
+import { errorResponse } from '@/lib/api-errors'
+
+// GET /api/proposals?workspace=default&status=pending&limit=100
+// Pending proposals also come back as ghost graph data for the canvas.
+export async function GET(req: Request) {
+  try {
+    const query = proposalQuerySchema.parse(Object.fromEntries(new URL(req.url).searchParams))
+    const supabase = await createServerSideClient()
+
+    const proposals = await listProposals(supabase, query)
+    const graph = query.status === 'pending' ? await proposalsToGraphData(supabase, proposals) : undefined
+    return NextResponse.json({ proposals, graph })
+  } catch (error) {
+    return errorResponse(error, 'list proposals')
+  }
+}
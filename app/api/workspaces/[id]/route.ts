@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSideClient } from '@/lib/supabase'
+import { getWorkspace, updateWorkspace } from '@/lib/proposals'
+import { errorResponse, readJson } from '@/lib/api-errors'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const settingsSchema = z.object({
+  autoApprove: z.boolean(),
+})
+
+// GET /api/workspaces/:id - review settings for a workspace
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await getWorkspace(supabase, id))
+  } catch (error) {
+    return errorResponse(error, 'fetch workspace')
+  }
+}
+
+// PATCH /api/workspaces/:id  { autoApprove }
+// With autoApprove on, the assistant's graph writes skip the review queue.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const settings = settingsSchema.parse(await readJson(req))
+    const supabase = await createServerSideClient()
+
+    return NextResponse.json(await updateWorkspace(supabase, id, settings))
+  } catch (error) {
+    return errorResponse(error, 'update workspace')
+  }
+}
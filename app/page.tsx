@@ -1,11 +1,24 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { ModeSwitcher, RAGMode } from '@/components/mode-switcher'
 import { ChatInterface } from '@/components/chat-interface'
-import { GraphVisualization } from '@/components/graph-visualization'
+import { GraphVisualization, GraphHighlight, type GraphNodeStyle } from '@/components/graph-visualization'
+import { useGraphEditor } from '@/components/graph-editor'
+import { ProposalPanel } from '@/components/proposal-panel'
+import { DuplicatePanel } from '@/components/duplicate-panel'
+import { ThreadList } from '@/components/thread-list'
+import { ModeComparison } from '@/components/mode-comparison'
+import { NodeDetailPanel } from '@/components/node-detail-panel'
 import { Badge } from '@/components/ui/badge'
-import { Brain, Network, Sparkles } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Brain, Columns3, Network, Pause, Play, Sparkles } from 'lucide-react'
+import { mergeGraphData, type GraphViewData } from '@/lib/graph'
+import type { GraphStats, SubgraphPage } from '@/lib/graph-query'
+import { ANALYTICS_METRICS, type AnalyticsMetric, type NodeMetrics } from '@/lib/analytics'
+import { isValidDuring } from '@/lib/temporal'
+import type { StoredMessage } from '@/lib/conversations'
+import type { ToolGraph } from '@/lib/tool-graphs'
 
 const modeDescriptions = {
   vector: {
@@ -28,21 +41,246 @@ const modeDescriptions = {
   }
 }
 
+const GRAPH_PAGE_SIZE = 100
+const PLAY_STEP_MS = 800
+
+// Spread component hues around the color wheel
+const componentColor = (component: number) => `hsl(${(component * 137.5) % 360} 70% 50%)`
+
+const toHighlight = (graph: GraphViewData, label?: string): GraphHighlight => ({
+  nodeIds: graph.nodes.map(node => node.id),
+  edgeIds: graph.edges.flatMap(edge => (edge.id ? [edge.id] : [])),
+  label,
+})
+
 export default function Home() {
   const [mode, setMode] = useState<RAGMode>('vector')
-  const [graphData, setGraphData] = useState({ nodes: [], edges: [] })
+  const [graphData, setGraphData] = useState<GraphViewData>({ nodes: [], edges: [] })
+  // One layer per tool call (or a single one for a clicked citation)
+  const [highlights, setHighlights] = useState<GraphHighlight[]>([])
+  const [graphStats, setGraphStats] = useState<GraphStats | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingGraph, setIsLoadingGraph] = useState(false)
+  const [sizeBy, setSizeBy] = useState<'none' | AnalyticsMetric>('none')
+  const [colorBy, setColorBy] = useState<'type' | 'component'>('type')
+  const [nodeMetrics, setNodeMetrics] = useState<NodeMetrics[] | null>(null)
+  // Year shown by the time slider; null shows everything regardless of dates
+  const [year, setYear] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  // Pending proposals, drawn over the graph as ghosts
+  const [ghostGraph, setGhostGraph] = useState<GraphViewData>({ nodes: [], edges: [] })
+  const [proposalsVersion, setProposalsVersion] = useState(0)
+  // The open chat thread; a fresh id starts a new one
+  const [threadId, setThreadId] = useState(() => crypto.randomUUID())
+  const [threadMessages, setThreadMessages] = useState<StoredMessage[]>([])
+  const [threadsVersion, setThreadsVersion] = useState(0)
+  // Side by side: one question asked in every mode at once
+  const [isComparing, setIsComparing] = useState(false)
+  // Node shown in the detail panel
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  // Question waiting to be put in the chat input
+  const [chatPrefill, setChatPrefill] = useState<string | null>(null)
+
+  // Canvas edits go straight to the API and into graphData
+  const editor = useGraphEditor(graphData, setGraphData)
+
+  // Reload the detail panel when its node or the node's edges change on
+  // the canvas, and close it once the node is gone
+  const selectedNodeKey = useMemo(() => {
+    const node = graphData.nodes.find(node => node.id === selectedNodeId)
+    if (!node) return null
+    const edges = graphData.edges.filter(edge => edge.source === node.id || edge.target === node.id)
+    return JSON.stringify([node.label, node.type, edges.map(edge => `${edge.id}:${edge.label}`)])
+  }, [graphData, selectedNodeId])
+
+  // A neighbor opened from the panel may not be loaded yet, so only a node
+  // that was on the canvas and left it (deleted or merged) closes the panel
+  const selectedOnCanvas = useRef<string | null>(null)
+  useEffect(() => {
+    if (selectedNodeKey !== null) selectedOnCanvas.current = selectedNodeId
+    else if (selectedNodeId && selectedOnCanvas.current === selectedNodeId) setSelectedNodeId(null)
+  }, [selectedNodeId, selectedNodeKey])
+
+  const handleAskAboutNode = (question: string) => {
+    setIsComparing(false)
+    setChatPrefill(question)
+  }
 
   const currentMode = modeDescriptions[mode]
   const Icon = currentMode.icon
 
-  // Load initial graph data
+  // Highlight a path or cited nodes, adding any of them that aren't on the
+  // canvas yet
+  const handleHighlightGraph = (graph: GraphViewData) => {
+    setGraphData(current => mergeGraphData(current, graph))
+    setHighlights([toHighlight(graph)])
+  }
+
+  // Show everything the selected reply's tool calls touched, newest call
+  // brightest
+  const handleHighlightTools = (toolGraphs: ToolGraph[]) => {
+    setGraphData(current => toolGraphs.reduce((merged, { graph }) => mergeGraphData(merged, graph), current))
+    setHighlights(toolGraphs.map(({ toolName, graph }) => toHighlight(graph, toolName)))
+  }
+
+  // Graph tool results from the chat are merged into what's already loaded
+  const handleGraphUpdate = (data: Partial<GraphViewData>) => {
+    if (!data?.nodes) return
+    setGraphData(current => mergeGraphData(current, { nodes: data.nodes || [], edges: data.edges || [] }))
+  }
+
+  // Approved proposals become real nodes and edges on the canvas
+  const handleApproved = (graph: GraphViewData) => {
+    setGraphData(current => mergeGraphData(current, graph))
+  }
+
+  // Resume a stored thread in the mode its last reply used
+  const handleSelectThread = async (id: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(id)}`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.message || `Conversation request failed with ${res.status}`)
+      const messages: StoredMessage[] = body.messages
+      const lastMode = [...messages].reverse().find(message => message.mode)?.mode
+      if (lastMode) setMode(lastMode)
+      setThreadMessages(messages)
+      setThreadId(id)
+    } catch (err) {
+      console.error('Failed to load conversation:', err)
+    }
+  }
+
+  const handleNewThread = () => {
+    setThreadMessages([])
+    setThreadId(crypto.randomUUID())
+  }
+
+  // Merged nodes disappear along with their edges; the survivor's
+  // neighborhood is reloaded to pick up the edges that moved to it
+  const handleMerged = (survivorId: string, mergedIds: string[]) => {
+    const merged = new Set(mergedIds)
+    setGraphData(current => ({
+      nodes: current.nodes.filter(node => !merged.has(node.id)),
+      edges: current.edges.filter(edge => !merged.has(edge.source) && !merged.has(edge.target)),
+    }))
+    handleExpandNode(survivorId)
+  }
+
+  // Fetch one page of the subgraph API and merge it into the canvas
+  const loadGraph = async (params: Record<string, string>) => {
+    setIsLoadingGraph(true)
+    try {
+      const res = await fetch(`/api/graph?${new URLSearchParams(params)}`)
+      const page: SubgraphPage = await res.json()
+      if (!res.ok) throw new Error(`Graph request failed with ${res.status}`)
+      setGraphData(current => mergeGraphData(current, page))
+      return page
+    } finally {
+      setIsLoadingGraph(false)
+    }
+  }
+
+  const handleLoadMore = () => {
+    if (!nextCursor) return
+    loadGraph({ limit: String(GRAPH_PAGE_SIZE), cursor: nextCursor })
+      .then(page => setNextCursor(page.nextCursor))
+      .catch(err => console.error('Failed to load more of the graph:', err))
+  }
+
+  // Pull in a node's direct neighbors on demand
+  const handleExpandNode = (nodeId: string) => {
+    loadGraph({ center: nodeId, depth: '1', limit: String(GRAPH_PAGE_SIZE) })
+      .catch(err => console.error('Failed to expand node:', err))
+  }
+
+  // Load the first page of the graph and overall counts; the rest is
+  // fetched on demand
   useEffect(() => {
-    fetch('/api/graph')
-      .then(res => res.json())
-      .then(data => setGraphData(data))
+    loadGraph({ limit: String(GRAPH_PAGE_SIZE) })
+      .then(page => setNextCursor(page.nextCursor))
       .catch(err => console.error('Failed to load graph:', err))
+
+    fetch('/api/graph?mode=stats')
+      .then(res => res.json())
+      .then(stats => setGraphStats(stats))
+      .catch(err => console.error('Failed to load graph stats:', err))
   }, [])
 
+  // Analytics cover the whole graph, so they're only fetched once sizing or
+  // coloring by them is switched on
+  const needsMetrics = sizeBy !== 'none' || colorBy === 'component'
+  useEffect(() => {
+    if (!needsMetrics || nodeMetrics) return
+    fetch('/api/graph/analytics?nodes=true')
+      .then(res => res.json())
+      .then(analytics => setNodeMetrics(analytics.nodes || []))
+      .catch(err => console.error('Failed to load graph analytics:', err))
+  }, [needsMetrics, nodeMetrics])
+
+  const nodeStyles = useMemo(() => {
+    if (!nodeMetrics || !needsMetrics) return null
+    const max = sizeBy === 'none' ? 0 : nodeMetrics.reduce((top, node) => Math.max(top, node[sizeBy]), 0)
+
+    const styles: Record<string, GraphNodeStyle> = {}
+    for (const node of nodeMetrics) {
+      styles[node.id] = {
+        // Square root keeps a few hubs from dwarfing everything else
+        scale: sizeBy === 'none' ? undefined : max > 0 ? Math.sqrt(node[sizeBy] / max) : 0,
+        color: colorBy === 'component' ? componentColor(node.component) : undefined,
+      }
+    }
+    return styles
+  }, [nodeMetrics, needsMetrics, sizeBy, colorBy])
+
+  // The slider spans the years mentioned by any loaded validity date; it's
+  // hidden when nothing on the canvas is dated
+  const yearRange = useMemo(() => {
+    const years = [...graphData.nodes, ...graphData.edges]
+      .flatMap(item => [item.validFrom, item.validTo])
+      .flatMap(date => (date ? [Number(date.slice(0, 4))] : []))
+    if (years.length === 0) return null
+    return { min: Math.min(...years), max: Math.max(...years) }
+  }, [graphData])
+
+  // Step a year at a time, starting over from the first year if the slider
+  // was at the end
+  useEffect(() => {
+    if (!isPlaying || !yearRange) return
+    const timer = setInterval(() => {
+      setYear(current => {
+        if (current !== null && current >= yearRange.max) {
+          setIsPlaying(false)
+          return current
+        }
+        return current === null ? yearRange.min : current + 1
+      })
+    }, PLAY_STEP_MS)
+    return () => clearInterval(timer)
+  }, [isPlaying, yearRange])
+
+  const handlePlay = () => {
+    if (!yearRange) return
+    if (!isPlaying && (year === null || year >= yearRange.max)) setYear(yearRange.min)
+    setIsPlaying(!isPlaying)
+  }
+
+  // Edges can arrive before the node on their other end; only draw the ones
+  // with both ends loaded. With a year selected, undated items stay and
+  // dated ones show only if they were valid at some point in that year.
+  // Ghosts of pending proposals are drawn on top.
+  const visibleGraph = useMemo(() => {
+    const range = year === null ? null : { start: `${year}-01-01`, end: `${year}-12-31` }
+    const validIn = (item: { validFrom?: string; validTo?: string }) =>
+      isValidDuring({ valid_from: item.validFrom, valid_to: item.validTo }, range)
+
+    const nodes = graphData.nodes.filter(validIn)
+    const nodeIds = new Set(nodes.map(node => node.id))
+    return mergeGraphData({
+      nodes,
+      edges: graphData.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target) && validIn(edge)),
+    }, ghostGraph)
+  }, [graphData, year, ghostGraph])
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-neutral-50 to-neutral-100 dark:from-neutral-950 dark:to-neutral-900">
       {/* Header */}
@@ -72,28 +310,66 @@ export default function Home() {
         <div className="max-w-6xl mx-auto">
           {/* Mode Switcher Section */}
           <div className="mb-8 text-center">
-            <ModeSwitcher mode={mode} onModeChange={setMode} />
+            {!isComparing && <ModeSwitcher mode={mode} onModeChange={setMode} />}
             <p className="mt-4 text-sm text-muted-foreground max-w-md mx-auto">
-              {currentMode.description}
+              {isComparing ? 'Ask once and compare all three modes side by side' : currentMode.description}
             </p>
+            <Button variant="outline" size="sm" className="mt-3" onClick={() => setIsComparing(!isComparing)}>
+              <Columns3 className="w-4 h-4 mr-1" />
+              {isComparing ? 'Back to chat' : 'Compare all modes'}
+            </Button>
           </div>
 
           {/* Chat and Graph Layout */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Chat Interface */}
-            <div className="bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
-              <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
-                <h2 className="font-semibold text-lg">Chat Interface</h2>
-                <p className="text-sm text-muted-foreground">
-                  Ask questions and see how different RAG modes respond
-                </p>
+            {isComparing ? (
+              /* Mode Comparison */
+              <div className="lg:col-span-2 bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+                <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+                  <h2 className="font-semibold text-lg">Compare Modes</h2>
+                  <p className="text-sm text-muted-foreground">
+                    The same question in Vector RAG, GraphRAG and Hybrid; vote for the best answer
+                  </p>
+                </div>
+                <ModeComparison
+                  onHighlightGraph={handleHighlightGraph}
+                  onGraphWrite={() => setProposalsVersion(version => version + 1)}
+                />
               </div>
-              <ChatInterface 
-                key={mode}
-                mode={mode} 
-                onGraphUpdate={setGraphData}
-              />
-            </div>
+            ) : (
+              /* Chat Interface */
+              <div className="bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+                <div className="p-4 border-b border-neutral-200 dark:border-neutral-800 space-y-3">
+                  <div>
+                    <h2 className="font-semibold text-lg">Chat Interface</h2>
+                    <p className="text-sm text-muted-foreground">
+                      Ask questions and see how different RAG modes respond
+                    </p>
+                  </div>
+                  <ThreadList
+                    activeId={threadId}
+                    refreshKey={threadsVersion}
+                    onSelect={handleSelectThread}
+                    onNew={handleNewThread}
+                    onDeleted={handleNewThread}
+                  />
+                </div>
+                {/* Switching modes keeps the thread; only switching threads remounts */}
+                <ChatInterface 
+                  key={threadId}
+                  mode={mode} 
+                  conversationId={threadId}
+                  initialMessages={threadMessages}
+                  onGraphUpdate={handleGraphUpdate}
+                  onHighlightGraph={handleHighlightGraph}
+                  onHighlightTools={handleHighlightTools}
+                  onGraphWrite={() => setProposalsVersion(version => version + 1)}
+                  onReply={() => setThreadsVersion(version => version + 1)}
+                  prefill={chatPrefill}
+                  onPrefilled={() => setChatPrefill(null)}
+                />
+              </div>
+            )}
 
             {/* Graph Visualization */}
             <div className="bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
@@ -103,10 +379,122 @@ export default function Home() {
                   Real-time visualization of nodes and relationships
                 </p>
               </div>
-              <GraphVisualization data={graphData} />
+              <div className="relative">
+                <GraphVisualization
+                  data={visibleGraph}
+                  highlights={highlights}
+                  nodeStyles={nodeStyles}
+                  onExpandNode={handleExpandNode}
+                  onSelectNode={setSelectedNodeId}
+                  editor={editor}
+                />
+                {selectedNodeId && (
+                  <div className="absolute inset-y-0 right-0 z-10 w-80 border-l border-neutral-200 dark:border-neutral-800 bg-white/95 dark:bg-neutral-900/95 backdrop-blur">
+                    <NodeDetailPanel
+                      nodeId={selectedNodeId}
+                      refreshKey={selectedNodeKey ?? undefined}
+                      nodeLabels={graphData.nodes.map(node => node.label)}
+                      onClose={() => setSelectedNodeId(null)}
+                      onSelectNode={nodeId => {
+                        handleExpandNode(nodeId)
+                        setSelectedNodeId(nodeId)
+                      }}
+                      onExpand={handleExpandNode}
+                      onAsk={handleAskAboutNode}
+                      onHighlightGraph={handleHighlightGraph}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="px-4 py-2 border-t border-neutral-200 dark:border-neutral-800 flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  Showing {graphData.nodes.length}
+                  {graphStats ? ` of ${graphStats.nodeCount}` : ''} nodes · click a node for details, double-click to expand it, right-click to edit
+                </span>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1">
+                    Size
+                    <select
+                      value={sizeBy}
+                      onChange={e => setSizeBy(e.target.value as 'none' | AnalyticsMetric)}
+                      className="rounded border border-neutral-200 dark:border-neutral-800 bg-transparent px-1 py-0.5"
+                    >
+                      <option value="none">uniform</option>
+                      {ANALYTICS_METRICS.map(metric => <option key={metric} value={metric}>{metric}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Color
+                    <select
+                      value={colorBy}
+                      onChange={e => setColorBy(e.target.value as 'type' | 'component')}
+                      className="rounded border border-neutral-200 dark:border-neutral-800 bg-transparent px-1 py-0.5"
+                    >
+                      <option value="type">type</option>
+                      <option value="component">component</option>
+                    </select>
+                  </label>
+                  {nextCursor && (
+                    <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingGraph}>
+                      {isLoadingGraph ? 'Loading...' : 'Load more'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {yearRange && (
+                <div className="px-4 py-2 border-t border-neutral-200 dark:border-neutral-800 flex items-center gap-3 text-xs text-muted-foreground">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={handlePlay}
+                    aria-label={isPlaying ? 'Pause' : 'Play through the years'}
+                  >
+                    {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                  </Button>
+                  <input
+                    type="range"
+                    min={yearRange.min}
+                    max={yearRange.max}
+                    value={year ?? yearRange.max}
+                    onChange={e => {
+                      setIsPlaying(false)
+                      setYear(Number(e.target.value))
+                    }}
+                    className="flex-1"
+                    aria-label="Show the graph as of this year"
+                  />
+                  <span className="w-12 text-right tabular-nums">{year ?? 'All time'}</span>
+                  {year !== null && (
+                    <button
+                      className="underline"
+                      onClick={() => {
+                        setIsPlaying(false)
+                        setYear(null)
+                      }}
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Review Queue */}
+          <div className="mt-6 bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+            <ProposalPanel
+              refreshKey={proposalsVersion}
+              onGhostGraph={setGhostGraph}
+              onApproved={handleApproved}
+            />
+          </div>
+
+          {/* Duplicates */}
+          <div className="mt-6 bg-white dark:bg-neutral-900 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+            <DuplicatePanel onMerged={handleMerged} />
+          </div>
+
           {/* Info Cards */}
           <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-4">
             {Object.entries(modeDescriptions).map(([key, desc]) => {
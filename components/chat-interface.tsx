@@ -1,26 +1,74 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { useChat } from 'ai/react'
+import { useChat, type Message } from 'ai/react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
-import { Send, Loader2, User, Bot } from 'lucide-react'
+import { Send, Loader2, User, Bot, Undo2, Network } from 'lucide-react'
 import { RAGMode } from './mode-switcher'
 import { ExampleQueries } from './example-queries'
+import { CitedMessage } from './citations'
+import { getCitations } from '@/lib/citations'
+import type { GraphViewData } from '@/lib/graph'
+import { getToolGraphs, type ToolGraph } from '@/lib/tool-graphs'
+import type { ChatMode, ModeAnnotation } from '@/lib/conversations'
+
+// Tools whose results are graph writes the user can undo, unless they were
+// only proposed for review
+const WRITE_TOOLS = ['createNode', 'createEdge']
+
+// The mode a reply was given in, from its streamed annotations
+function getMessageMode(annotations: unknown[] | undefined): ChatMode | null {
+  const annotation = (annotations || []).find((value): value is ModeAnnotation =>
+    typeof value === 'object' && value !== null && (value as { type?: unknown }).type === 'mode'
+  )
+  return annotation?.mode ?? null
+}
 
 interface ChatInterfaceProps {
   mode: RAGMode
+  // Thread to continue; its stored messages come in as initialMessages
+  conversationId?: string
+  initialMessages?: Message[]
   onGraphUpdate?: (data: any) => void
+  onHighlightGraph?: (graph: GraphViewData) => void
+  // Called with what each tool call of the selected reply touched; a reply
+  // is selected when it finishes or when its "Show on graph" is clicked
+  onHighlightTools?: (toolGraphs: ToolGraph[]) => void
+  // Called after a reply that wrote to the graph or proposed changes
+  onGraphWrite?: () => void
+  // Called after every reply, once the turn has been saved to the thread
+  onReply?: () => void
+  // Text to put in the input, e.g. a question about a node; onPrefilled
+  // is called once it's there
+  prefill?: string | null
+  onPrefilled?: () => void
 }
 
-export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
+export function ChatInterface({
+  mode,
+  conversationId,
+  initialMessages,
+  onGraphUpdate,
+  onHighlightGraph,
+  onHighlightTools,
+  onGraphWrite,
+  onReply,
+  prefill,
+  onPrefilled,
+}: ChatInterfaceProps) {
   const [isTyping, setIsTyping] = useState(false)
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null)
   
-  const { messages, input, handleInputChange, handleSubmit, isLoading, setInput } = useChat({
+  const { id: chatId, messages, input, handleInputChange, handleSubmit, isLoading, setInput } = useChat({
     api: '/api/chat',
+    id: conversationId,
+    initialMessages,
     body: { mode },
     onFinish: (message) => {
+      onReply?.()
+
       // Extract any graph data from the response
       // This would be populated by the AI tools
       if (message.toolInvocations) {
@@ -30,6 +78,17 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
         if (graphData && 'result' in graphData && onGraphUpdate) {
           onGraphUpdate(graphData.result)
         }
+
+        // Show what the reply's tool calls looked at
+        const toolGraphs = getToolGraphs(message)
+        if (toolGraphs.length > 0) {
+          setSelectedMessageId(message.id)
+          onHighlightTools?.(toolGraphs)
+        }
+
+        if (onGraphWrite && message.toolInvocations.some(tool => WRITE_TOOLS.includes(tool.toolName))) {
+          onGraphWrite()
+        }
       }
     }
   })
@@ -43,6 +102,22 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
     }
   }
 
+  useEffect(() => {
+    if (!prefill) return
+    handleSelectQuery(prefill)
+    onPrefilled?.()
+  }, [prefill])
+
+  // Label replies with their mode once a thread has used more than one
+  const messageModes = messages.map(message => getMessageMode(message.annotations))
+  const spansModes = new Set(messageModes.filter(Boolean)).size > 1
+  const messageToolGraphs = messages.map(message => message.role === 'assistant' ? getToolGraphs(message) : [])
+
+  const handleSelectMessage = (messageId: string, toolGraphs: ToolGraph[]) => {
+    setSelectedMessageId(messageId)
+    onHighlightTools?.(toolGraphs)
+  }
+
   // Removed auto-scroll - let users control their own scrolling
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -65,7 +140,7 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
           </div>
         )}
         
-        {messages.map((message) => (
+        {messages.map((message, index) => (
           <div
             key={message.id}
             className={`flex items-start space-x-3 ${
@@ -83,9 +158,22 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
                 message.role === 'user'
                   ? 'bg-primary text-primary-foreground'
                   : 'bg-muted'
-              }`}
+              } ${message.id === selectedMessageId ? 'ring-2 ring-amber-400' : ''}`}
             >
-              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              {message.role === 'assistant' && spansModes && messageModes[index] && (
+                <Badge variant="outline" className="mb-1 text-[10px] uppercase">
+                  {messageModes[index]}
+                </Badge>
+              )}
+              {message.role === 'assistant' ? (
+                <CitedMessage
+                  content={message.content}
+                  citations={getCitations(message.annotations)}
+                  onHighlightGraph={onHighlightGraph}
+                />
+              ) : (
+                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              )}
               {message.role === 'assistant' && message.toolInvocations && (
                 <div className="mt-2 pt-2 border-t border-neutral-200 dark:border-neutral-700">
                   <div className="flex flex-wrap gap-1">
@@ -95,6 +183,26 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
                       </Badge>
                     ))}
                   </div>
+                  {onHighlightTools && messageToolGraphs[index].length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mt-1 h-7 px-2 text-xs"
+                      onClick={() => handleSelectMessage(message.id, messageToolGraphs[index])}
+                      disabled={message.id === selectedMessageId}
+                    >
+                      <Network className="w-3 h-3" />
+                      {message.id === selectedMessageId ? 'Shown on graph' : 'Show on graph'}
+                    </Button>
+                  )}
+                  {!isLoading && message.toolInvocations.some(tool =>
+                    WRITE_TOOLS.includes(tool.toolName) && 'result' in tool && !tool.result?.error && !tool.result?.proposed
+                  ) && (
+                    <UndoTurnButton
+                      conversationId={chatId}
+                      turnId={messages.slice(0, index).reverse().find(m => m.role === 'user')?.id}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -157,4 +265,43 @@ export function ChatInterface({ mode, onGraphUpdate }: ChatInterfaceProps) {
       </div>
     </div>
   )
+}
+
+// Reverts every graph write made while answering one user message
+function UndoTurnButton({ conversationId, turnId }: { conversationId: string; turnId?: string }) {
+  const [status, setStatus] = useState<'idle' | 'undoing' | 'undone'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUndo = async () => {
+    if (!turnId) return
+    setStatus('undoing')
+    setError(null)
+    try {
+      const res = await fetch('/api/history/revert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Change-Client': 'ui' },
+        body: JSON.stringify({ conversationId, turnId }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.message || `Undo failed with ${res.status}`)
+      setStatus('undone')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Undo failed')
+      setStatus('idle')
+    }
+  }
+
+  if (status === 'undone') {
+    return <p className="mt-2 text-xs text-muted-foreground">Graph changes undone</p>
+  }
+
+  return (
+    <div className="mt-2">
+      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleUndo} disabled={status === 'undoing' || !turnId}>
+        {status === 'undoing' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Undo2 className="w-3 h-3" />}
+        Undo graph changes
+      </Button>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { FileText, Network, CircleDot, Boxes } from 'lucide-react'
+import type { Citation } from '@/lib/citations'
+import type { GraphViewData } from '@/lib/graph'
+
+const ICONS = { chunk: FileText, node: CircleDot, path: Network, community: Boxes }
+
+interface CitedTextProps {
+  text: string
+  citations: Citation[]
+  activeId?: number | null
+  onSelect: (citation: Citation) => void
+}
+
+// Renders message text with [n] markers turned into clickable citation chips.
+// Markers that don't match a collected citation are left as plain text.
+export function CitedText({ text, citations, activeId, onSelect }: CitedTextProps) {
+  const byId = new Map(citations.map(citation => [citation.id, citation]))
+  const parts = text.split(/(\[\d+\])/g)
+
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {parts.map((part, idx) => {
+        const match = part.match(/^\[(\d+)\]$/)
+        const citation = match ? byId.get(Number(match[1])) : undefined
+        if (!citation) return <Fragment key={idx}>{part}</Fragment>
+
+        return (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => onSelect(citation)}
+            className={`mx-0.5 inline-flex items-center justify-center align-super text-[10px] font-semibold rounded px-1 min-w-[16px] transition-colors ${
+              activeId === citation.id
+                ? 'bg-amber-400 text-black'
+                : 'bg-neutral-200 dark:bg-neutral-700 hover:bg-amber-200 dark:hover:bg-amber-700'
+            }`}
+            title={citationTitle(citation)}
+          >
+            {citation.id}
+          </button>
+        )
+      })}
+    </p>
+  )
+}
+
+interface CitationListProps {
+  citations: Citation[]
+  activeId?: number | null
+  onSelect: (citation: Citation) => void
+}
+
+export function CitationList({ citations, activeId, onSelect }: CitationListProps) {
+  if (citations.length === 0) return null
+
+  return (
+    <div className="mt-2 pt-2 border-t border-neutral-200 dark:border-neutral-700 space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">Sources</p>
+      {citations.map(citation => {
+        const Icon = ICONS[citation.kind]
+        const active = activeId === citation.id
+
+        return (
+          <div key={citation.id} className="text-xs">
+            <button
+              type="button"
+              onClick={() => onSelect(citation)}
+              className={`w-full flex items-start gap-1.5 text-left rounded px-1 py-0.5 ${
+                active ? 'bg-amber-100 dark:bg-amber-900/30' : 'hover:bg-neutral-200/60 dark:hover:bg-neutral-800'
+              }`}
+            >
+              <span className="font-semibold shrink-0">[{citation.id}]</span>
+              <Icon className="w-3 h-3 mt-0.5 shrink-0" />
+              <span className="flex-1">
+                {citationTitle(citation)}
+                {citationScore(citation) && (
+                  <span className="ml-1 text-muted-foreground">{citationScore(citation)}</span>
+                )}
+              </span>
+            </button>
+            {active && citation.kind === 'chunk' && (
+              <blockquote className="mt-1 ml-6 pl-2 border-l-2 border-amber-400 text-muted-foreground whitespace-pre-wrap max-h-48 overflow-y-auto">
+                {citation.content}
+              </blockquote>
+            )}
+            {active && citation.kind === 'community' && (
+              <p className="mt-1 ml-6 pl-2 border-l-2 border-amber-400 text-muted-foreground">
+                {citation.summary}
+              </p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface CitedMessageProps {
+  content: string
+  citations: Citation[]
+  onHighlightGraph?: (graph: GraphViewData) => void
+}
+
+// Assistant message body with inline citations and the source list. Chunk
+// and community citations expand in place; graph citations are highlighted
+// on the canvas.
+export function CitedMessage({ content, citations, onHighlightGraph }: CitedMessageProps) {
+  const [activeId, setActiveId] = useState<number | null>(null)
+
+  const select = (citation: Citation) => {
+    setActiveId(current => (current === citation.id ? null : citation.id))
+
+    if (citation.kind === 'path' || citation.kind === 'community') {
+      onHighlightGraph?.(citation.graph)
+    } else if (citation.kind === 'node') {
+      onHighlightGraph?.({
+        nodes: [{
+          id: citation.nodeId,
+          label: citation.label,
+          type: citation.type || undefined,
+          description: citation.description || undefined,
+        }],
+        edges: [],
+      })
+    }
+  }
+
+  return (
+    <>
+      <CitedText text={content} citations={citations} activeId={activeId} onSelect={select} />
+      <CitationList citations={citations} activeId={activeId} onSelect={select} />
+    </>
+  )
+}
+
+function citationTitle(citation: Citation) {
+  switch (citation.kind) {
+    case 'chunk':
+      return citation.documentTitle || 'Unknown Document'
+    case 'node':
+      return `${citation.label}${citation.type ? ` (${citation.type})` : ''}`
+    case 'path':
+      return citation.hops.map(hop => `${hop.source} → [${hop.relationship}] → ${hop.target}`).join('; ')
+    case 'community':
+      return `${citation.title} (community of ${citation.size})`
+  }
+}
+
+function citationScore(citation: Citation) {
+  if (citation.kind === 'path' || citation.kind === 'community') return null
+  if (citation.similarity !== null) return `${Math.round(citation.similarity * 100)}% match`
+  if (citation.score !== null) return `score ${citation.score}`
+  return null
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { GitMerge, Loader2, Search, X } from 'lucide-react'
+import type { DuplicateNode, DuplicatePair } from '@/lib/dedup'
+
+interface DuplicatePanelProps {
+  // Called after a merge so the canvas can drop the merged nodes
+  onMerged?: (survivorId: string, mergedIds: string[]) => void
+}
+
+// Merges and dismissals are labeled as coming from the UI in the change log
+const REVIEW_HEADERS = { 'Content-Type': 'application/json', 'X-Change-Client': 'ui' }
+
+const REASON_LABELS = {
+  label: 'same label',
+  alias: 'alias match',
+  embedding: 'similar',
+} as const
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || `Request failed with ${res.status}`)
+  return body
+}
+
+const pairKey = (pair: DuplicatePair) => `${pair.a.id}|${pair.b.id}`
+
+export function DuplicatePanel({ onMerged }: DuplicatePanelProps) {
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null)
+  // Chosen survivor per pair; defaults to the suggested one
+  const [survivors, setSurvivors] = useState<Record<string, string>>({})
+  const [isScanning, setIsScanning] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // The scan reads every node, so it runs on request rather than on load
+  const scan = async () => {
+    setIsScanning(true)
+    setError(null)
+    try {
+      const { pairs } = await request<{ pairs: DuplicatePair[] }>('/api/nodes/duplicates')
+      setPairs(pairs)
+      setSurvivors({})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan for duplicates')
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const settle = async (pair: DuplicatePair, action: () => Promise<string[]>) => {
+    setBusyKey(pairKey(pair))
+    setError(null)
+    try {
+      // Drop this pair and any other pair that mentions a node that's gone
+      const removed = new Set(await action())
+      setPairs(current => current?.filter(other =>
+        pairKey(other) !== pairKey(pair) && !removed.has(other.a.id) && !removed.has(other.b.id)
+      ) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleMerge = (pair: DuplicatePair) => settle(pair, async () => {
+    const survivorId = survivors[pairKey(pair)] ?? pair.suggestedSurvivorId
+    const duplicateId = survivorId === pair.a.id ? pair.b.id : pair.a.id
+    await request('/api/nodes/merge', {
+      method: 'POST',
+      headers: REVIEW_HEADERS,
+      body: JSON.stringify({ survivorId, duplicateIds: [duplicateId] }),
+    })
+    onMerged?.(survivorId, [duplicateId])
+    return [duplicateId]
+  })
+
+  const handleDismiss = (pair: DuplicatePair) => settle(pair, async () => {
+    await request('/api/nodes/duplicates/dismiss', {
+      method: 'POST',
+      headers: REVIEW_HEADERS,
+      body: JSON.stringify({ nodeA: pair.a.id, nodeB: pair.b.id }),
+    })
+    return []
+  })
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-lg">Duplicates</h2>
+          <p className="text-sm text-muted-foreground">
+            Nodes that look like the same entity; pick the one to keep and merge
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={scan} disabled={isScanning}>
+          {isScanning ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Search className="w-4 h-4 mr-1" />}
+          Scan
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {pairs !== null && pairs.length === 0 && (
+        <p className="text-sm text-muted-foreground">No likely duplicates found</p>
+      )}
+
+      {pairs && pairs.length > 0 && (
+        <ul className="space-y-2">
+          {pairs.map(pair => {
+            const key = pairKey(pair)
+            const survivorId = survivors[key] ?? pair.suggestedSurvivorId
+            return (
+              <li key={key} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    {[pair.a, pair.b].map(node => (
+                      <DuplicateOption
+                        key={node.id}
+                        node={node}
+                        name={key}
+                        checked={survivorId === node.id}
+                        onSelect={() => setSurvivors(current => ({ ...current, [key]: node.id }))}
+                      />
+                    ))}
+                    <div className="flex gap-1">
+                      {pair.reasons.map(reason => (
+                        <Badge key={reason} variant="outline" className="text-xs">
+                          {REASON_LABELS[reason]}
+                          {reason === 'embedding' && pair.similarity !== null && ` ${Math.round(pair.similarity * 100)}%`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    {busyKey === key ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleMerge(pair)} aria-label="Merge">
+                          <GitMerge className="w-4 h-4 text-green-600" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDismiss(pair)} aria-label="Not duplicates">
+                          <X className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function DuplicateOption({
+  node,
+  name,
+  checked,
+  onSelect,
+}: {
+  node: DuplicateNode
+  name: string
+  checked: boolean
+  onSelect: () => void
+}) {
+  return (
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input type="radio" name={name} checked={checked} onChange={onSelect} aria-label={`Keep ${node.label}`} />
+      <span className={checked ? 'font-medium' : ''}>{node.label}</span>
+      {node.type && <Badge variant="secondary" className="text-xs">{node.type}</Badge>}
+      <span className="text-xs text-muted-foreground">
+        {node.degree} edge{node.degree === 1 ? '' : 's'}
+      </span>
+    </label>
+  )
+}
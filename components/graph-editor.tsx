@@ -0,0 +1,315 @@
+'use client'
+
+import { useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Pencil, Tag, Trash2 } from 'lucide-react'
+import { mergeGraphData, toViewEdge, toViewNode, type GraphEdgeRow, type GraphViewData } from '@/lib/graph'
+import type { NodeRow } from '@/lib/graph-store'
+import type { XYPosition } from '@/lib/graph-layout'
+
+// Canvas edits saved through /api/nodes and /api/edges. Each edit shows up
+// straight away and is rolled back if the request fails. New nodes and
+// edges carry a pending id until the server returns the stored row.
+
+const PENDING_PREFIX = 'pending-'
+
+export const isPendingId = (id: string) => id.startsWith(PENDING_PREFIX)
+
+type GraphUpdate = (graph: GraphViewData) => GraphViewData
+
+export interface GraphEditor {
+  createNode(draft: { label: string; type?: string }, position: XYPosition): Promise<void>
+  updateNode(id: string, update: { label?: string; type?: string | null }): Promise<void>
+  // Also removes the node's edges, like the API does
+  deleteNode(id: string): Promise<void>
+  createEdge(source: string, target: string, relationship: string): Promise<void>
+  updateEdge(id: string, relationship: string): Promise<void>
+  deleteEdge(id: string): Promise<void>
+  // The last failed edit, already rolled back
+  error: string | null
+  dismissError(): void
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'X-Change-Client': 'ui' },
+  })
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || body.issues?.[0]?.message || `Request failed with ${res.status}`)
+  return body
+}
+
+export function useGraphEditor(
+  graph: GraphViewData,
+  setGraph: Dispatch<SetStateAction<GraphViewData>>
+): GraphEditor {
+  const [error, setError] = useState<string | null>(null)
+  // Read when an edit starts, for what a rollback restores
+  const current = useRef(graph)
+  current.current = graph
+
+  // Apply an edit, save it, then swap in what the server stored or undo it
+  const edit = async <T,>(
+    action: string,
+    apply: GraphUpdate,
+    save: () => Promise<T>,
+    rollback: GraphUpdate,
+    settle?: (saved: T) => GraphUpdate
+  ) => {
+    setError(null)
+    setGraph(apply)
+    try {
+      const saved = await save()
+      if (settle) setGraph(settle(saved))
+    } catch (err) {
+      setGraph(rollback)
+      setError(`Couldn't ${action}: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }
+
+  const withoutNode = (id: string): GraphUpdate => graph => ({
+    nodes: graph.nodes.filter(node => node.id !== id),
+    edges: graph.edges.filter(edge => edge.source !== id && edge.target !== id),
+  })
+  const withoutEdge = (id: string): GraphUpdate => graph => ({
+    ...graph,
+    edges: graph.edges.filter(edge => edge.id !== id),
+  })
+
+  return {
+    createNode: (draft, position) => {
+      const id = `${PENDING_PREFIX}${crypto.randomUUID()}`
+      return edit(
+        'create node',
+        graph => ({ ...graph, nodes: [...graph.nodes, { id, label: draft.label, type: draft.type, position }] }),
+        () => request<NodeRow>('/api/nodes', { method: 'POST', body: JSON.stringify(draft) }),
+        withoutNode(id),
+        row => graph => ({
+          ...graph,
+          nodes: graph.nodes.map(node => (node.id === id ? { ...toViewNode(row), position } : node)),
+        })
+      )
+    },
+
+    updateNode: (id, update) => {
+      const previous = current.current.nodes.find(node => node.id === id)
+      if (!previous) return Promise.resolve()
+      const patch = (fields: { label?: string; type?: string }): GraphUpdate => graph => ({
+        ...graph,
+        nodes: graph.nodes.map(node => (node.id === id ? { ...node, ...fields } : node)),
+      })
+      return edit(
+        'update node',
+        patch({ ...update, type: update.type === undefined ? previous.type : update.type ?? undefined }),
+        () => request<NodeRow>(`/api/nodes/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(update) }),
+        patch({ label: previous.label, type: previous.type }),
+        row => patch(toViewNode(row))
+      )
+    },
+
+    deleteNode: id => {
+      const node = current.current.nodes.find(node => node.id === id)
+      if (!node) return Promise.resolve()
+      const edges = current.current.edges.filter(edge => edge.source === id || edge.target === id)
+      return edit(
+        'delete node',
+        withoutNode(id),
+        () => request(`/api/nodes/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        graph => mergeGraphData(graph, { nodes: [node], edges })
+      )
+    },
+
+    createEdge: (source, target, relationship) => {
+      const id = `${PENDING_PREFIX}${crypto.randomUUID()}`
+      return edit(
+        'create edge',
+        graph => ({ ...graph, edges: [...graph.edges, { id, source, target, label: relationship }] }),
+        () => request<GraphEdgeRow>('/api/edges', { method: 'POST', body: JSON.stringify({ source, target, relationship }) }),
+        withoutEdge(id),
+        row => graph => ({ ...graph, edges: graph.edges.map(edge => (edge.id === id ? toViewEdge(row) : edge)) })
+      )
+    },
+
+    updateEdge: (id, relationship) => {
+      const previous = current.current.edges.find(edge => edge.id === id)
+      if (!previous) return Promise.resolve()
+      const relabel = (label?: string): GraphUpdate => graph => ({
+        ...graph,
+        edges: graph.edges.map(edge => (edge.id === id ? { ...edge, label } : edge)),
+      })
+      return edit(
+        'update edge',
+        relabel(relationship),
+        () => request<GraphEdgeRow>(`/api/edges/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ relationship }) }),
+        relabel(previous.label),
+        row => graph => ({ ...graph, edges: graph.edges.map(edge => (edge.id === id ? toViewEdge(row) : edge)) })
+      )
+    },
+
+    deleteEdge: id => {
+      const edge = current.current.edges.find(edge => edge.id === id)
+      if (!edge) return Promise.resolve()
+      return edit(
+        'delete edge',
+        withoutEdge(id),
+        () => request(`/api/edges/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        graph => mergeGraphData(graph, { nodes: [], edges: [edge] })
+      )
+    },
+
+    error,
+    dismissError: () => setError(null),
+  }
+}
+
+// What a context menu (or a finished drag-to-connect) is about
+export type GraphMenuTarget =
+  | { kind: 'pane'; position: XYPosition }
+  | { kind: 'node'; id: string; label: string; type?: string }
+  | { kind: 'edge'; id: string; relationship?: string }
+  | { kind: 'connect'; source: string; target: string }
+
+type MenuStep = 'menu' | 'create' | 'connect' | 'rename' | 'retype' | 'relabel' | 'delete'
+
+const PROMPTS: Record<Exclude<MenuStep, 'menu'>, string> = {
+  create: 'New node',
+  connect: 'Relationship type',
+  rename: 'Rename node',
+  retype: 'Change node type',
+  relabel: 'Change relationship type',
+  delete: 'Delete this?',
+}
+
+interface GraphEditMenuProps {
+  target: GraphMenuTarget
+  // Top-left corner, relative to the canvas
+  at: { x: number; y: number }
+  editor: GraphEditor
+  // Suggestions for the type and relationship inputs
+  nodeTypes: string[]
+  relationships: string[]
+  onClose: () => void
+}
+
+export function GraphEditMenu({ target, at, editor, nodeTypes, relationships, onClose }: GraphEditMenuProps) {
+  const [step, setStep] = useState<MenuStep>(
+    target.kind === 'pane' ? 'create' : target.kind === 'connect' ? 'connect' : 'menu'
+  )
+  const [text, setText] = useState(
+    target.kind === 'node' ? target.label : target.kind === 'edge' ? target.relationship ?? '' : ''
+  )
+  const [type, setType] = useState(target.kind === 'node' ? target.type ?? '' : '')
+
+  // Text is the label or relationship; only a type may be left empty
+  const needsText = step !== 'retype' && step !== 'delete'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (needsText && !text.trim()) return
+    onClose()
+
+    if (target.kind === 'pane') {
+      editor.createNode({ label: text.trim(), ...(type.trim() ? { type: type.trim() } : {}) }, target.position)
+    } else if (target.kind === 'connect') {
+      editor.createEdge(target.source, target.target, text.trim())
+    } else if (target.kind === 'node') {
+      if (step === 'delete') editor.deleteNode(target.id)
+      else if (step === 'rename') editor.updateNode(target.id, { label: text.trim() })
+      else editor.updateNode(target.id, { type: type.trim() || null })
+    } else {
+      if (step === 'delete') editor.deleteEdge(target.id)
+      else editor.updateEdge(target.id, text.trim())
+    }
+  }
+
+  return (
+    <div
+      className="absolute z-50 w-60 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-2 shadow-lg text-sm"
+      style={{ left: at.x, top: at.y }}
+      onContextMenu={e => e.preventDefault()}
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+    >
+      {step === 'menu' ? (
+        <div className="flex flex-col">
+          <p className="px-2 py-1 text-xs text-muted-foreground truncate">
+            {target.kind === 'node' ? target.label : target.kind === 'edge' ? target.relationship : ''}
+          </p>
+          {target.kind === 'node' && (
+            <>
+              <Button variant="ghost" size="sm" className="justify-start" onClick={() => setStep('rename')}>
+                <Pencil className="w-3 h-3" />
+                Rename
+              </Button>
+              <Button variant="ghost" size="sm" className="justify-start" onClick={() => setStep('retype')}>
+                <Tag className="w-3 h-3" />
+                Change type
+              </Button>
+            </>
+          )}
+          {target.kind === 'edge' && (
+            <Button variant="ghost" size="sm" className="justify-start" onClick={() => setStep('relabel')}>
+              <Pencil className="w-3 h-3" />
+              Change relationship
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="justify-start text-red-600" onClick={() => setStep('delete')}>
+            <Trash2 className="w-3 h-3" />
+            Delete
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <p className="text-xs text-muted-foreground">{PROMPTS[step]}</p>
+          {step === 'delete' && target.kind === 'node' && (
+            <p className="text-xs">&quot;{target.label}&quot; and all of its edges will be removed.</p>
+          )}
+          {(step === 'create' || step === 'rename') && (
+            <Input autoFocus value={text} onChange={e => setText(e.target.value)} placeholder="Label" className="h-8" />
+          )}
+          {(step === 'create' || step === 'retype') && (
+            <Input
+              autoFocus={step === 'retype'}
+              list="graph-editor-node-types"
+              value={type}
+              onChange={e => setType(e.target.value)}
+              placeholder="Type (optional)"
+              className="h-8"
+            />
+          )}
+          {(step === 'connect' || step === 'relabel') && (
+            <Input
+              autoFocus
+              list="graph-editor-relationships"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="e.g. operates"
+              className="h-8"
+            />
+          )}
+          <datalist id="graph-editor-node-types">
+            {nodeTypes.map(value => <option key={value} value={value} />)}
+          </datalist>
+          <datalist id="graph-editor-relationships">
+            {relationships.map(value => <option key={value} value={value} />)}
+          </datalist>
+          <div className="flex justify-end gap-1">
+            <Button type="button" variant="ghost" size="sm" className="h-7" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              className="h-7"
+              variant={step === 'delete' ? 'destructive' : 'default'}
+              disabled={needsText && !text.trim()}
+            >
+              {step === 'delete' ? 'Delete' : step === 'create' ? 'Create' : step === 'connect' ? 'Connect' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -1,27 +1,82 @@
 'use client'
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   ReactFlow,
   Node,
   Edge,
   useNodesState,
   useEdgesState,
-  addEdge,
+  useStore,
   Controls,
   Background,
+  BaseEdge,
   Connection,
+  EdgeProps,
+  EdgeTypes,
   NodeTypes,
   Handle,
   Position,
   MarkerType,
+  getStraightPath,
+  type OnBeforeDelete,
+  type ReactFlowInstance,
 } from '@xyflow/react'
 import '@xyflow/react/dist/style.css'
-import dagre from 'dagre'
+import { Loader2, RefreshCw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GraphEditMenu, isPendingId, type GraphEditor, type GraphMenuTarget } from './graph-editor'
+import { clusterLeaves, isClusterId } from '@/lib/graph-clusters'
+import {
+  computeLayout,
+  layoutGraph,
+  LAYOUT_LABELS,
+  LAYOUTS,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  placeNodes,
+  type LayoutName,
+  type XYPosition,
+} from '@/lib/graph-layout'
+import { createLayoutRunner, type LayoutRunner } from '@/lib/layout-runner'
+import type { GraphViewData } from '@/lib/graph'
+
+// Below these zoom levels nodes are drawn as plain shapes and edge labels are
+// left out, which is what keeps thousands of elements responsive
+const COMPACT_NODE_ZOOM = 0.4
+const EDGE_LABEL_ZOOM = 0.6
 
 // Custom node component with hover tooltip
 const CustomNode = ({ data }: { data: any }) => {
   const [showTooltip, setShowTooltip] = useState(false)
+  const compact = useStore((state) => state.transform[2] < COMPACT_NODE_ZOOM)
+  const scale: number | undefined = data.scale
+  // 0-1, fading with the age of the highlight
+  const highlight: number | undefined = data.highlight
+  const highlightLabels: string[] = data.highlightLabels || []
+
+  if (compact) {
+    return (
+      <>
+        <Handle type="target" position={Position.Top} className="opacity-0" />
+        <div
+          className={`
+            w-20 h-8 rounded-full border-2
+            ${data.type === 'concept' ? 'bg-blue-100 border-blue-400' : ''}
+            ${data.type === 'person' ? 'bg-green-100 border-green-400' : ''}
+            ${data.type === 'technology' ? 'bg-purple-100 border-purple-400' : ''}
+            ${!data.type ? 'bg-gray-100 border-gray-400' : ''}
+            ${data.cluster ? 'border-double border-4' : ''}
+          `}
+          style={{
+            ...(data.color ? { borderColor: data.color, backgroundColor: data.color } : {}),
+            ...(highlight !== undefined ? { boxShadow: `0 0 0 8px rgba(251, 191, 36, ${highlight})` } : {}),
+          }}
+        />
+        <Handle type="source" position={Position.Bottom} className="opacity-0" />
+      </>
+    )
+  }
 
   return (
     <div 
@@ -36,16 +91,30 @@ const CustomNode = ({ data }: { data: any }) => {
         ${data.type === 'person' ? 'bg-green-100 border-green-400 dark:bg-green-900/20' : ''}
         ${data.type === 'technology' ? 'bg-purple-100 border-purple-400 dark:bg-purple-900/20' : ''}
         ${!data.type ? 'bg-gray-100 border-gray-400 dark:bg-gray-900/20' : ''}
+        ${highlight !== undefined ? 'shadow-lg' : ''}
+        ${data.ghost ? 'border-dashed opacity-60' : ''}
+        ${data.cluster ? 'border-double border-4' : ''}
         transition-all hover:shadow-lg cursor-pointer
-      `}>
-        <p className="text-sm font-medium">{data.label}</p>
+      `}
+        style={{
+          ...(data.color ? { borderColor: data.color, backgroundColor: `color-mix(in srgb, ${data.color} 20%, transparent)` } : {}),
+          ...(scale !== undefined ? { minWidth: 80 + 100 * scale, paddingTop: 8 + 12 * scale, paddingBottom: 8 + 12 * scale } : {}),
+          ...(highlight !== undefined ? { boxShadow: `0 0 0 4px rgba(251, 191, 36, ${highlight})` } : {}),
+        }}
+      >
+        <p className="text-sm font-medium" style={scale !== undefined ? { fontSize: 12 + 8 * scale } : undefined}>
+          {data.label}
+        </p>
       </div>
       <Handle type="source" position={Position.Bottom} />
       
-      {showTooltip && data.description && (
+      {showTooltip && (data.description || data.period || data.ghost || highlightLabels.length > 0) && (
         <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 z-50">
           <div className="bg-black text-white text-xs rounded px-2 py-1 whitespace-nowrap">
+            {data.ghost && <div className="text-amber-300">Pending review</div>}
             {data.description}
+            {data.period && <div className="text-neutral-300">{data.period}</div>}
+            {highlightLabels.length > 0 && <div className="text-amber-300">via {highlightLabels.join(', ')}</div>}
           </div>
           <div className="absolute top-full left-1/2 transform -translate-x-1/2 -mt-1">
             <div className="w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black"></div>
@@ -56,91 +125,333 @@ const CustomNode = ({ data }: { data: any }) => {
   )
 }
 
+// Straight edge whose label only shows when zoomed in; used for big graphs,
+// where smoothstep routing and hundreds of labels are what slows panning
+const LodEdge = ({ id, sourceX, sourceY, targetX, targetY, label, style, markerEnd }: EdgeProps) => {
+  const showLabel = useStore((state) => state.transform[2] >= EDGE_LABEL_ZOOM)
+  const [path, labelX, labelY] = getStraightPath({ sourceX, sourceY, targetX, targetY })
+  return (
+    <BaseEdge
+      id={id}
+      path={path}
+      style={style}
+      markerEnd={markerEnd}
+      label={showLabel ? label : undefined}
+      labelX={labelX}
+      labelY={labelY}
+    />
+  )
+}
+
 const nodeTypes: NodeTypes = {
   custom: CustomNode,
 }
 
+const edgeTypes: EdgeTypes = {
+  lod: LodEdge,
+}
+
+export interface GraphHighlight {
+  nodeIds: string[]
+  edgeIds: string[]
+  // What touched them, e.g. the tool name; shown in the node tooltip
+  label?: string
+}
+
+// Per-node overrides, e.g. sized by centrality or colored by component
+export interface GraphNodeStyle {
+  // 0-1, from the default size to the largest
+  scale?: number
+  color?: string
+}
+
 interface GraphVisualizationProps {
   data?: {
-    nodes: Array<{ id: string; label: string; type?: string; description?: string }>
-    edges?: Array<{ source: string; target: string; label?: string }>
+    nodes: Array<{ id: string; label: string; type?: string; description?: string; validFrom?: string; validTo?: string; ghost?: boolean; position?: XYPosition }>
+    edges?: Array<{ id?: string; source: string; target: string; label?: string; ghost?: boolean }>
   }
+  // Oldest first; older highlights are drawn fainter than the newest
+  highlights?: GraphHighlight[] | null
+  nodeStyles?: Record<string, GraphNodeStyle> | null
+  // Called when a node is double-clicked, e.g. to load its neighbors
+  onExpandNode?: (nodeId: string) => void
+  // Called when a stored node is clicked, e.g. to show its details
+  onSelectNode?: (nodeId: string) => void
+  // Makes the canvas an editor: connect nodes by dragging, right-click for
+  // node, edge and canvas actions, Backspace to delete
+  editor?: GraphEditor | null
 }
 
-export function GraphVisualization({ data }: GraphVisualizationProps) {
+// Each highlight older than the newest loses this much intensity, down to
+// the minimum, so a sequence of tool calls reads from faint to bright
+const HIGHLIGHT_FADE_STEP = 0.25
+const MIN_HIGHLIGHT = 0.25
+
+const highlightEdgeStyle = (intensity: number) => ({
+  stroke: '#f59e0b',
+  strokeWidth: 1 + 2 * intensity,
+  opacity: 0.4 + 0.6 * intensity,
+  transition: 'opacity 0.3s, stroke-width 0.3s',
+})
+// Proposed edges that haven't been approved yet
+const GHOST_EDGE_STYLE = { strokeDasharray: '6 4', opacity: 0.6 }
+
+// From this many nodes the canvas only renders what's in view and draws
+// edges the cheap way
+const LARGE_GRAPH = 1000
+// A first batch up to this size is laid out right away; bigger ones are
+// shown grouped by type (which is fast) while the chosen layout runs in
+// the worker
+const SYNC_LAYOUT_LIMIT = 300
+
+export function GraphVisualization({ data, highlights, nodeStyles, onExpandNode, onSelectNode, editor }: GraphVisualizationProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([])
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([])
+  // The sample graph is replaced outright once real data arrives
+  const isShowingSample = useRef(false)
+  // Last known position of every node, so nodes hidden by a filter (e.g. the
+  // time slider) come back where they were
+  const knownPositions = useRef(new Map<string, XYPosition>())
+  const container = useRef<HTMLDivElement>(null)
+  const [flow, setFlow] = useState<ReactFlowInstance<Node, Edge> | null>(null)
+  const [menu, setMenu] = useState<{ target: GraphMenuTarget; at: XYPosition } | null>(null)
+  // Set by onConnect and picked up by onConnectEnd, which knows where the drag ended
+  const pendingConnection = useRef<Connection | null>(null)
 
-  // Auto-layout function using dagre
-  const getLayoutedElements = useCallback((nodes: Node[], edges: Edge[]) => {
-    const dagreGraph = new dagre.graphlib.Graph()
-    dagreGraph.setDefaultEdgeLabel(() => ({}))
-    dagreGraph.setGraph({ rankdir: 'TB', ranksep: 100, nodesep: 100 })
+  const [layout, setLayout] = useState<LayoutName>('hierarchical-tb')
+  // Center of the radial layout: the last node clicked
+  const [focusId, setFocusId] = useState<string | null>(null)
+  const [clustering, setClustering] = useState(true)
+  // Hubs whose leaves are shown instead of a cluster node
+  const [expandedHubs, setExpandedHubs] = useState<Set<string>>(new Set())
+  const [isLayingOut, setIsLayingOut] = useState(false)
+  const [layoutError, setLayoutError] = useState<string | null>(null)
+  const runner = useRef<LayoutRunner | null>(null)
+  // Only the latest layout run is applied
+  const layoutRun = useRef(0)
+  // The layout (and radial focus) the canvas was last laid out with
+  const appliedLayout = useRef<string | null>(null)
 
-    nodes.forEach((node) => {
-      dagreGraph.setNode(node.id, { width: 150, height: 50 })
-    })
-
-    edges.forEach((edge) => {
-      dagreGraph.setEdge(edge.source, edge.target)
-    })
+  useEffect(() => {
+    runner.current = createLayoutRunner()
+    return () => {
+      runner.current?.dispose()
+      runner.current = null
+    }
+  }, [])
 
-    dagre.layout(dagreGraph)
+  // What's drawn: the data with dense leaves collapsed into cluster nodes.
+  // Highlighted nodes are never hidden in a cluster.
+  const displayed = useMemo(() => {
+    if (!data || !data.nodes || data.nodes.length === 0) return null
+    const graph: GraphViewData = {
+      nodes: data.nodes,
+      edges: (data.edges || []).map((edge, idx) => ({ ...edge, id: edge.id || `edge-${idx}-${edge.source}-${edge.target}` })),
+    }
+    if (!clustering) return { graph, clusterHubs: new Map<string, string>() }
+    const keep = new Set((highlights || []).flatMap((highlight) => highlight.nodeIds))
+    const { graph: clustered, clusters } = clusterLeaves(graph, { expanded: expandedHubs, keep })
+    return { graph: clustered, clusterHubs: new Map(clusters.map((cluster) => [cluster.id, cluster.hubId])) }
+  }, [data, clustering, expandedHubs, highlights])
 
-    const layoutedNodes = nodes.map((node) => {
-      const nodeWithPosition = dagreGraph.node(node.id)
-      return {
-        ...node,
-        position: {
-          x: nodeWithPosition.x - 75,
-          y: nodeWithPosition.y - 25,
-        },
-      }
-    })
+  const isLarge = (displayed?.graph.nodes.length ?? 0) >= LARGE_GRAPH
 
-    return { nodes: layoutedNodes, edges }
-  }, [])
+  // Lay the whole canvas out again in the worker, keeping the current
+  // positions until the result arrives
+  const relayout = useCallback((graph: GraphViewData, name: LayoutName) => {
+    const run = ++layoutRun.current
+    setIsLayingOut(true)
+    setLayoutError(null)
+    const request = {
+      layout: name,
+      nodes: graph.nodes.map(({ id, label, type }) => ({ id, label, type })),
+      edges: graph.edges.map(({ source, target }) => ({ source, target })),
+      focusId,
+      initial: name === 'force' ? [...knownPositions.current] : undefined,
+    }
+    ;(runner.current ? runner.current.run(request) : Promise.resolve(computeLayout(request)))
+      .then((positions) => {
+        if (run !== layoutRun.current) return
+        for (const [id, position] of positions) knownPositions.current.set(id, position)
+        setNodes((nds) => nds.map((node) => (positions.has(node.id) ? { ...node, position: positions.get(node.id)! } : node)))
+        requestAnimationFrame(() => flow?.fitView({ duration: 300 }))
+      })
+      .catch((err) => {
+        if (run === layoutRun.current) setLayoutError(err instanceof Error ? err.message : 'Layout failed')
+      })
+      .finally(() => {
+        if (run === layoutRun.current) setIsLayingOut(false)
+      })
+  }, [focusId, flow, setNodes])
+  // Read by the data effect, which shouldn't re-run when only these change
+  const layoutSettings = useRef({ layout, focusId, relayout })
+  layoutSettings.current = { layout, focusId, relayout }
 
-  // Update graph when data changes
+  // Merge data changes into the canvas instead of laying it out again: nodes
+  // already shown keep their position (including where they were dragged)
+  // and new ones are placed around their neighbors. Only the first batch
+  // gets the full layout.
   useEffect(() => {
-    if (data && data.nodes && data.nodes.length > 0) {
-      const flowNodes: Node[] = data.nodes.map((node) => ({
-        id: node.id,
-        type: 'custom',
-        data: { 
-          label: node.label, 
-          type: node.type,
-          description: node.description 
-        },
-        position: { x: 0, y: 0 },
-      }))
-
-      const flowEdges: Edge[] = (data.edges || []).map((edge, idx) => ({
-        id: `edge-${idx}-${edge.source}-${edge.target}`,
+    if (displayed) {
+      const { graph } = displayed
+      const { layout, focusId, relayout } = layoutSettings.current
+      const large = graph.nodes.length >= LARGE_GRAPH
+      const flowEdges: Edge[] = graph.edges.map((edge) => ({
+        id: edge.id!,
         source: edge.source,
         target: edge.target,
         label: edge.label,
-        type: 'smoothstep',
-        animated: true,
+        type: large ? 'lod' : 'smoothstep',
+        animated: !edge.ghost && !large,
+        data: { ghost: edge.ghost },
+        style: edge.ghost ? GHOST_EDGE_STYLE : undefined,
         markerEnd: {
           type: MarkerType.ArrowClosed,
         },
       }))
 
-      const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-        flowNodes,
-        flowEdges
-      )
+      const replacesSample = isShowingSample.current
+      isShowingSample.current = false
+      if (replacesSample) knownPositions.current = new Map()
+      const isFirstBatch = knownPositions.current.size === 0
+      // Big first batches are grouped by type until the worker is done
+      const deferLayout = isFirstBatch && graph.nodes.length > SYNC_LAYOUT_LIMIT && layout !== 'grouped'
+
+      setNodes((nds) => {
+        const current = new Map((replacesSample ? [] : nds).map((node) => [node.id, node]))
+        for (const node of current.values()) knownPositions.current.set(node.id, node.position)
+        const positions = isFirstBatch
+          ? computeLayout({ layout: deferLayout ? 'grouped' : layout, nodes: graph.nodes, edges: flowEdges, focusId })
+          : (() => {
+              for (const node of graph.nodes) {
+                if (node.position && !knownPositions.current.has(node.id)) knownPositions.current.set(node.id, node.position)
+              }
+              return placeNodes(knownPositions.current, graph.nodes.map((node) => node.id), flowEdges)
+            })()
+        for (const [id, position] of positions) knownPositions.current.set(id, position)
 
-      setNodes(layoutedNodes)
-      setEdges(layoutedEdges)
+        return graph.nodes.map((node) => ({
+          ...current.get(node.id),
+          id: node.id,
+          type: 'custom',
+          data: {
+            ...current.get(node.id)?.data,
+            label: node.label,
+            type: node.type,
+            description: node.description,
+            period: node.validFrom || node.validTo ? `${node.validFrom ?? '…'} – ${node.validTo ?? 'present'}` : undefined,
+            ghost: node.ghost,
+            cluster: displayed.clusterHubs.has(node.id),
+          },
+          position: positions.get(node.id)!,
+        }))
+      })
+      setEdges(flowEdges)
+      if (deferLayout) relayout(graph, layout)
     }
-  }, [data, setNodes, setEdges, getLayoutedElements])
+  }, [displayed, setNodes, setEdges])
 
-  const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge(params, eds)),
-    [setEdges]
-  )
+  // Picking another layout (or another focus, for the radial one) lays the
+  // canvas out again
+  useEffect(() => {
+    const key = layout === 'radial' ? `radial:${focusId}` : layout
+    if (appliedLayout.current === key) return
+    const isFirst = appliedLayout.current === null
+    appliedLayout.current = key
+    if (!isFirst && displayed && !isShowingSample.current) relayout(displayed.graph, layout)
+  }, [layout, focusId, displayed, relayout])
+
+  // Highlight paths (or any sets of nodes/edges) without moving anything. An
+  // element in several highlights takes the brightest.
+  useEffect(() => {
+    const layers = highlights || []
+    const nodeIntensity = new Map<string, number>()
+    const edgeIntensity = new Map<string, number>()
+    const nodeLabels = new Map<string, string[]>()
+    layers.forEach((layer, index) => {
+      const intensity = Math.max(MIN_HIGHLIGHT, 1 - HIGHLIGHT_FADE_STEP * (layers.length - 1 - index))
+      for (const id of layer.nodeIds) {
+        nodeIntensity.set(id, Math.max(nodeIntensity.get(id) ?? 0, intensity))
+        if (layer.label && !nodeLabels.get(id)?.includes(layer.label)) {
+          nodeLabels.set(id, [...(nodeLabels.get(id) || []), layer.label])
+        }
+      }
+      for (const id of layer.edgeIds) edgeIntensity.set(id, Math.max(edgeIntensity.get(id) ?? 0, intensity))
+    })
+
+    setNodes((nds) => nds.map((node) => ({
+      ...node,
+      data: { ...node.data, highlight: nodeIntensity.get(node.id), highlightLabels: nodeLabels.get(node.id) },
+    })))
+    setEdges((eds) => eds.map((edge) => {
+      const intensity = edgeIntensity.get(edge.id)
+      return {
+        ...edge,
+        style: intensity !== undefined ? highlightEdgeStyle(intensity) : edge.data?.ghost ? GHOST_EDGE_STYLE : undefined,
+        zIndex: intensity !== undefined ? 1 : 0,
+      }
+    }))
+  }, [displayed, highlights, setNodes, setEdges])
+
+  // Apply sizes and colors the same way, keeping positions
+  useEffect(() => {
+    setNodes((nds) => nds.map((node) => ({
+      ...node,
+      data: { ...node.data, scale: nodeStyles?.[node.id]?.scale, color: nodeStyles?.[node.id]?.color },
+    })))
+  }, [displayed, nodeStyles, setNodes])
+
+  // Sample nodes, ghosts of pending proposals and edits still being saved
+  // can't be edited
+  const isEditable = (item: Node | Edge) =>
+    !!editor && !isShowingSample.current && !item.data?.ghost && !isPendingId(item.id) && !isClusterId(item.id)
+
+  const expandHub = (hubId: string) => setExpandedHubs((hubs) => new Set(hubs).add(hubId))
+
+  const openMenu = (point: { clientX: number; clientY: number }, target: GraphMenuTarget) => {
+    const bounds = container.current?.getBoundingClientRect()
+    if (!bounds) return
+    setMenu({ target, at: { x: point.clientX - bounds.left, y: point.clientY - bounds.top } })
+  }
+
+  const onConnect = (connection: Connection) => {
+    pendingConnection.current = connection
+  }
+
+  // Ask for the relationship where the drag ended, then save the edge
+  const onConnectEnd = (event: MouseEvent | TouchEvent) => {
+    const connection = pendingConnection.current
+    pendingConnection.current = null
+    if (!connection) return
+    const source = nodes.find((node) => node.id === connection.source)
+    const target = nodes.find((node) => node.id === connection.target)
+    if (!source || !target || !isEditable(source) || !isEditable(target)) return
+    openMenu('changedTouches' in event ? event.changedTouches[0] : event, {
+      kind: 'connect',
+      source: source.id,
+      target: target.id,
+    })
+  }
+
+  // Only editable elements go; deleting a node takes its edges with it
+  const onBeforeDelete: OnBeforeDelete<Node, Edge> = async ({ nodes, edges }) => {
+    if (!editor) return false
+    return { nodes: nodes.filter(isEditable), edges: edges.filter(isEditable) }
+  }
+
+  const onDelete = ({ nodes, edges }: { nodes: Node[]; edges: Edge[] }) => {
+    const deletedNodes = new Set(nodes.map((node) => node.id))
+    for (const node of nodes) editor?.deleteNode(node.id)
+    for (const edge of edges) {
+      if (!deletedNodes.has(edge.source) && !deletedNodes.has(edge.target)) editor?.deleteEdge(edge.id)
+    }
+  }
+
+  // Suggestions for the editor's type and relationship inputs
+  const suggestions = useMemo(() => ({
+    nodeTypes: [...new Set((data?.nodes || []).flatMap((node) => (node.type ? [node.type] : [])))].sort(),
+    relationships: [...new Set((data?.edges || []).flatMap((edge) => (edge.label ? [edge.label] : [])))].sort(),
+  }), [data])
 
   // Sample data for initial display
   useEffect(() => {
@@ -160,11 +471,12 @@ export function GraphVisualization({ data }: GraphVisualizationProps) {
         { source: '1', target: '5', label: 'stored in' },
       ]
 
+      const positions = layoutGraph(sampleNodes.map((node) => node.id), sampleEdges)
       const flowNodes: Node[] = sampleNodes.map((node) => ({
         id: node.id,
         type: 'custom',
         data: node,
-        position: { x: 0, y: 0 },
+        position: positions.get(node.id)!,
       }))
 
       const flowEdges: Edge[] = sampleEdges.map((edge) => ({
@@ -176,31 +488,128 @@ export function GraphVisualization({ data }: GraphVisualizationProps) {
         animated: true,
       }))
 
-      const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-        flowNodes,
-        flowEdges
-      )
-
-      setNodes(layoutedNodes)
-      setEdges(layoutedEdges)
+      isShowingSample.current = true
+      setNodes(flowNodes)
+      setEdges(flowEdges)
     }
-  }, [data, setNodes, setEdges, getLayoutedElements])
+  }, [data, setNodes, setEdges])
 
   return (
-    <div className="h-[600px] bg-neutral-50 dark:bg-neutral-950">
+    <div ref={container} className="relative h-[600px] bg-neutral-50 dark:bg-neutral-950">
       <ReactFlow
         nodes={nodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onInit={setFlow}
         onConnect={onConnect}
+        onConnectEnd={onConnectEnd}
+        nodesConnectable={!!editor}
+        deleteKeyCode={editor ? 'Backspace' : null}
+        onBeforeDelete={onBeforeDelete}
+        onDelete={onDelete}
+        onNodeClick={(_, node) => {
+          const hubId = displayed?.clusterHubs.get(node.id)
+          if (hubId) {
+            expandHub(hubId)
+            return
+          }
+          if (isShowingSample.current || node.data.ghost || isPendingId(node.id)) return
+          setFocusId(node.id)
+          onSelectNode?.(node.id)
+        }}
+        onNodeDoubleClick={(_, node) => {
+          if (isClusterId(node.id)) return
+          // Whatever the expansion brings in is shown, not clustered
+          expandHub(node.id)
+          onExpandNode?.(node.id)
+        }}
+        onNodeContextMenu={(event, node) => {
+          if (!isEditable(node)) return
+          event.preventDefault()
+          openMenu(event, { kind: 'node', id: node.id, label: String(node.data.label), type: node.data.type as string | undefined })
+        }}
+        onEdgeContextMenu={(event, edge) => {
+          if (!isEditable(edge)) return
+          event.preventDefault()
+          openMenu(event, { kind: 'edge', id: edge.id, relationship: edge.label as string | undefined })
+        }}
+        onPaneContextMenu={(event) => {
+          if (!editor || !flow) return
+          event.preventDefault()
+          // Centered on the click
+          const position = flow.screenToFlowPosition({ x: event.clientX, y: event.clientY })
+          openMenu(event, { kind: 'pane', position: { x: position.x - NODE_WIDTH / 2, y: position.y - NODE_HEIGHT / 2 } })
+        }}
+        onPaneClick={() => setMenu(null)}
+        onMoveStart={() => setMenu(null)}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        onlyRenderVisibleElements={isLarge}
+        minZoom={0.05}
         fitView
         className="bg-neutral-50 dark:bg-neutral-950"
       >
         <Background color="#a0a0a0" gap={20} />
         <Controls className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg" />
       </ReactFlow>
+
+      {displayed && (
+        <div className="absolute top-2 left-2 z-10 flex items-center gap-2 rounded-md border border-neutral-200 dark:border-neutral-800 bg-white/90 dark:bg-neutral-900/90 px-2 py-1 text-xs text-muted-foreground">
+          <label className="flex items-center gap-1">
+            Layout
+            <select
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as LayoutName)}
+              className="rounded border border-neutral-200 dark:border-neutral-800 bg-transparent px-1 py-0.5"
+            >
+              {LAYOUTS.map((name) => <option key={name} value={name}>{LAYOUT_LABELS[name]}</option>)}
+            </select>
+          </label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => relayout(displayed.graph, layout)}
+            disabled={isLayingOut}
+            aria-label="Re-layout"
+            title="Re-layout"
+          >
+            {isLayingOut ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          </Button>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={clustering} onChange={(e) => setClustering(e.target.checked)} />
+            Group leaves
+          </label>
+          {clustering && expandedHubs.size > 0 && (
+            <button className="underline" onClick={() => setExpandedHubs(new Set())}>
+              Collapse all
+            </button>
+          )}
+          {layoutError && <span className="text-red-500">{layoutError}</span>}
+        </div>
+      )}
+
+      {editor && menu && (
+        <GraphEditMenu
+          key={JSON.stringify(menu.target)}
+          target={menu.target}
+          at={menu.at}
+          editor={editor}
+          nodeTypes={suggestions.nodeTypes}
+          relationships={suggestions.relationships}
+          onClose={() => setMenu(null)}
+        />
+      )}
+
+      {editor?.error && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-1.5 text-xs text-red-600 dark:border-red-900 dark:bg-red-950">
+          {editor.error}
+          <button onClick={editor.dismissError} aria-label="Dismiss">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,371 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useChat } from 'ai/react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Send, Trophy } from 'lucide-react'
+import { CitedMessage } from './citations'
+import { getCitations } from '@/lib/citations'
+import type { GraphViewData } from '@/lib/graph'
+import type { ChatMode } from '@/lib/conversations'
+import type { ComparisonAnswer, ComparisonRow, VoteTally } from '@/lib/comparisons'
+
+const MODES: ChatMode[] = ['vector', 'graph', 'hybrid']
+
+const MODE_TITLES: Record<ChatMode, string> = {
+  vector: 'Vector RAG',
+  graph: 'GraphRAG',
+  hybrid: 'Hybrid',
+}
+
+const RECENT_LIMIT = 10
+
+interface ModeComparisonProps {
+  onHighlightGraph?: (graph: GraphViewData) => void
+  // Called after a run that may have written to the graph or proposed changes
+  onGraphWrite?: () => void
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || `Request failed with ${res.status}`)
+  return body
+}
+
+// One question sent to every mode at once. Each column streams its answer
+// with the tools it called, how long it took, the tokens it used and the
+// sources it cited. The run is saved once all three finish, so the vote and
+// notes can be added, or revisited later from the recent list.
+export function ModeComparison({ onHighlightGraph, onGraphWrite }: ModeComparisonProps) {
+  const [input, setInput] = useState('')
+  const [question, setQuestion] = useState<string | null>(null)
+  // Bumped per question so every column starts a fresh run
+  const [runId, setRunId] = useState(0)
+  const [answers, setAnswers] = useState<Partial<Record<ChatMode, ComparisonAnswer>>>({})
+  const [saved, setSaved] = useState<ComparisonRow | null>(null)
+  // A reopened comparison shows its stored answers instead of the live runs
+  const [isReopened, setIsReopened] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [recent, setRecent] = useState<ComparisonRow[]>([])
+  const [tally, setTally] = useState<VoteTally | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // The last run a save was attempted for, so a failed save isn't retried
+  const savedRun = useRef(0)
+
+  const isRunning = question !== null && MODES.some(mode => !answers[mode])
+
+  const refreshRecent = useCallback(async () => {
+    try {
+      const body = await request<{ comparisons: ComparisonRow[]; tally: VoteTally }>(`/api/comparisons?limit=${RECENT_LIMIT}`)
+      setRecent(body.comparisons)
+      setTally(body.tally)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comparisons')
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshRecent()
+  }, [refreshRecent])
+
+  // Save the run as soon as the last column finishes
+  useEffect(() => {
+    if (!question || isReopened || savedRun.current === runId || MODES.some(mode => !answers[mode])) return
+    savedRun.current = runId
+    request<ComparisonRow>('/api/comparisons', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, answers: MODES.map(mode => answers[mode]) }),
+    })
+      .then(row => {
+        setSaved(row)
+        refreshRecent()
+        if (MODES.some(mode => answers[mode]?.toolCalls.some(tool => tool === 'createNode' || tool === 'createEdge'))) {
+          onGraphWrite?.()
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to save comparison'))
+  }, [question, answers, runId, isReopened, refreshRecent, onGraphWrite])
+
+  const handleAsk = () => {
+    const text = input.trim()
+    if (!text || isRunning) return
+    setQuestion(text)
+    setAnswers({})
+    setSaved(null)
+    setIsReopened(false)
+    setNotes('')
+    setError(null)
+    setRunId(id => id + 1)
+  }
+
+  const handleDone = useCallback((answer: ComparisonAnswer) => {
+    setAnswers(current => ({ ...current, [answer.mode]: answer }))
+  }, [])
+
+  const update = async (changes: { winner?: ChatMode | null; notes?: string | null }) => {
+    if (!saved) return
+    setError(null)
+    try {
+      setSaved(await request<ComparisonRow>(`/api/comparisons/${saved.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      }))
+      refreshRecent()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comparison')
+    }
+  }
+
+  // Reopen a saved run; its answers are shown as they were stored
+  const handleOpen = (row: ComparisonRow) => {
+    if (isRunning) return
+    setQuestion(row.question)
+    setInput(row.question)
+    setAnswers(Object.fromEntries(row.answers.map(answer => [answer.mode, answer])))
+    setSaved(row)
+    setIsReopened(true)
+    setNotes(row.notes ?? '')
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              handleAsk()
+            }
+          }}
+          placeholder="Ask one question in all three modes..."
+          className="flex-1 min-h-[60px] max-h-[120px] resize-none"
+          disabled={isRunning}
+        />
+        <Button onClick={handleAsk} disabled={isRunning || !input.trim()} size="icon" className="h-[60px] w-[60px]" aria-label="Compare">
+          {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {question !== null && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {MODES.map(mode => (
+            <ComparisonColumn
+              key={mode}
+              mode={mode}
+              question={question}
+              runId={runId}
+              answer={answers[mode]}
+              isReopened={isReopened}
+              isWinner={saved?.winner === mode}
+              canVote={!!saved}
+              onDone={handleDone}
+              onVote={() => update({ winner: saved?.winner === mode ? null : mode })}
+              onHighlightGraph={onHighlightGraph}
+            />
+          ))}
+        </div>
+      )}
+
+      {saved && (
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Notes on this comparison (why one answer was better, what was missing)"
+            className="flex-1 min-h-[40px] resize-none"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ notes: notes.trim() || null })}
+            disabled={(notes.trim() || null) === saved.notes}
+          >
+            Save notes
+          </Button>
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <h3 className="font-medium">Recent comparisons</h3>
+            {tally && (
+              <span className="text-xs text-muted-foreground">
+                Votes: {MODES.map(mode => `${MODE_TITLES[mode]} ${tally[mode]}`).join(' · ')} · {tally.unvoted} unvoted
+              </span>
+            )}
+          </div>
+          <ul className="space-y-1">
+            {recent.map(row => (
+              <li key={row.id}>
+                <button
+                  className="w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50"
+                  onClick={() => handleOpen(row)}
+                  disabled={isRunning}
+                >
+                  <span className="truncate">{row.question}</span>
+                  {row.winner
+                    ? <Badge variant="secondary" className="text-xs flex-shrink-0">{MODE_TITLES[row.winner]}</Badge>
+                    : <span className="text-xs text-muted-foreground flex-shrink-0">no vote</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ComparisonColumnProps {
+  mode: ChatMode
+  question: string
+  runId: number
+  // The finished answer, once the run is done or reopened
+  answer?: ComparisonAnswer
+  // Show the stored answer rather than this column's live chat
+  isReopened: boolean
+  isWinner: boolean
+  canVote: boolean
+  onDone: (answer: ComparisonAnswer) => void
+  onVote: () => void
+  onHighlightGraph?: (graph: GraphViewData) => void
+}
+
+function ComparisonColumn({
+  mode,
+  question,
+  runId,
+  answer,
+  isReopened,
+  isWinner,
+  canVote,
+  onDone,
+  onVote,
+  onHighlightGraph,
+}: ComparisonColumnProps) {
+  const startedAt = useRef(0)
+  const firstTokenMs = useRef<number | null>(null)
+
+  const { messages, setMessages, append, isLoading, error } = useChat({
+    api: '/api/chat',
+    id: `compare-${mode}`,
+    // Without a thread id the chat route doesn't store the turn
+    experimental_prepareRequestBody: ({ messages }) => ({ messages, mode }),
+    onFinish: (message, { usage }) => {
+      onDone({
+        mode,
+        content: message.content,
+        toolCalls: (message.toolInvocations || []).map(tool => tool.toolName),
+        firstTokenMs: firstTokenMs.current,
+        latencyMs: Math.round(performance.now() - startedAt.current),
+        // Missing counts come through as NaN
+        usage: Number.isFinite(usage.totalTokens) ? usage : null,
+        citations: getCitations(message.annotations),
+        error: null,
+      })
+    },
+    onError: err => {
+      onDone({
+        mode,
+        content: '',
+        toolCalls: [],
+        firstTokenMs: firstTokenMs.current,
+        latencyMs: Math.round(performance.now() - startedAt.current),
+        usage: null,
+        citations: [],
+        error: err.message,
+      })
+    },
+  })
+
+  // Each run starts from an empty chat, so modes never see earlier answers
+  useEffect(() => {
+    if (runId === 0) return
+    startedAt.current = performance.now()
+    firstTokenMs.current = null
+    setMessages([])
+    append({ role: 'user', content: question })
+  }, [runId]) // Only a new run sends the question
+
+  const reply = [...messages].reverse().find(message => message.role === 'assistant')
+  useEffect(() => {
+    if (reply?.content && firstTokenMs.current === null) {
+      firstTokenMs.current = Math.round(performance.now() - startedAt.current)
+    }
+  }, [reply?.content])
+
+  const stored = isReopened ? answer : undefined
+  const content = stored ? stored.content : reply?.content ?? ''
+  const citations = stored ? stored.citations : getCitations(reply?.annotations)
+  const toolCalls = stored ? stored.toolCalls : (reply?.toolInvocations || []).map(tool => tool.toolName)
+  const failure = stored ? stored.error : error?.message
+
+  return (
+    <div
+      className={`flex flex-col rounded-lg border p-3 text-sm ${
+        isWinner ? 'border-amber-400 dark:border-amber-500' : 'border-neutral-200 dark:border-neutral-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">{MODE_TITLES[mode]}</h3>
+        <Button
+          variant={isWinner ? 'default' : 'ghost'}
+          size="sm"
+          className="h-7"
+          onClick={onVote}
+          disabled={!canVote}
+          aria-label={isWinner ? 'Clear vote' : `Vote ${MODE_TITLES[mode]} best`}
+        >
+          <Trophy className="w-3 h-3 mr-1" />
+          Best
+        </Button>
+      </div>
+
+      {toolCalls.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {toolCalls.map((tool, i) => (
+            <Badge key={i} variant="secondary" className="text-xs">{tool}</Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 max-h-[420px] overflow-y-auto">
+        {failure ? (
+          <p className="text-xs text-red-500">{failure}</p>
+        ) : content ? (
+          <CitedMessage content={content} citations={citations} onHighlightGraph={onHighlightGraph} />
+        ) : isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Thinking...
+          </div>
+        ) : null}
+      </div>
+
+      {answer && !isLoading && <ComparisonStats answer={answer} />}
+    </div>
+  )
+}
+
+function ComparisonStats({ answer }: { answer: ComparisonAnswer }) {
+  const seconds = (ms: number | null) => (ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`)
+
+  return (
+    <div className="mt-2 pt-2 border-t border-neutral-200 dark:border-neutral-700 text-xs text-muted-foreground flex flex-wrap gap-x-3">
+      <span>{seconds(answer.latencyMs)} total</span>
+      <span>{seconds(answer.firstTokenMs)} to first token</span>
+      <span>{answer.usage ? `${answer.usage.totalTokens.toLocaleString()} tokens` : 'tokens unknown'}</span>
+      <span>{answer.citations.length} source{answer.citations.length === 1 ? '' : 's'}</span>
+    </div>
+  )
+}
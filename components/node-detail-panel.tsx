@@ -0,0 +1,221 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, ArrowRight, Expand, Loader2, MessageSquare, Route, X } from 'lucide-react'
+import type { GraphViewData } from '@/lib/graph'
+import type { NodeDetails } from '@/lib/node-details'
+import type { GraphPath } from '@/lib/paths'
+
+interface NodeDetailPanelProps {
+  nodeId: string
+  // Changes when the node or its edges change on the canvas, to reload
+  refreshKey?: string
+  // Labels of loaded nodes, suggested as path targets
+  nodeLabels?: string[]
+  onClose: () => void
+  // Open another node, e.g. a neighbor
+  onSelectNode?: (nodeId: string) => void
+  onExpand?: (nodeId: string) => void
+  // Pre-fill the chat with a question about the node
+  onAsk?: (question: string) => void
+  onHighlightGraph?: (graph: GraphViewData) => void
+}
+
+async function request<T>(url: string): Promise<T> {
+  const res = await fetch(url)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || body.error || `Request failed with ${res.status}`)
+  return body
+}
+
+function formatValue(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function formatDate(value: string | undefined) {
+  return value ? new Date(value).toLocaleString() : '–'
+}
+
+export function NodeDetailPanel({
+  nodeId,
+  refreshKey,
+  nodeLabels = [],
+  onClose,
+  onSelectNode,
+  onExpand,
+  onAsk,
+  onHighlightGraph,
+}: NodeDetailPanelProps) {
+  const [details, setDetails] = useState<NodeDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pathTarget, setPathTarget] = useState('')
+  const [pathStatus, setPathStatus] = useState<{ searching: boolean; message: string | null }>({ searching: false, message: null })
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    request<NodeDetails>(`/api/nodes/${encodeURIComponent(nodeId)}/details`)
+      .then(body => { if (!cancelled) setDetails(body) })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load node') })
+    return () => { cancelled = true }
+  }, [nodeId, refreshKey])
+
+  // A different node starts with an empty path search
+  useEffect(() => {
+    setPathTarget('')
+    setPathStatus({ searching: false, message: null })
+  }, [nodeId])
+
+  const handleFindPath = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pathTarget.trim()) return
+    setPathStatus({ searching: true, message: null })
+    try {
+      const params = new URLSearchParams({ from: nodeId, to: pathTarget.trim() })
+      const { paths, graph } = await request<{ paths: GraphPath[]; graph: GraphViewData }>(`/api/graph/path?${params}`)
+      if (paths.length === 0) {
+        setPathStatus({ searching: false, message: 'No path found' })
+        return
+      }
+      onHighlightGraph?.(graph)
+      setPathStatus({ searching: false, message: paths[0].description })
+    } catch (err) {
+      setPathStatus({ searching: false, message: err instanceof Error ? err.message : 'Path search failed' })
+    }
+  }
+
+  const node = details?.node.id === nodeId ? details.node : null
+  const properties = Object.entries(node?.properties || {})
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-base truncate">{node?.label ?? 'Loading…'}</h3>
+          {node?.type && <Badge variant="secondary" className="text-xs">{node.type}</Badge>}
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {!node && !error && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+
+      {node && details && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onExpand?.(node.id)}>
+              <Expand className="w-3 h-3" />
+              Expand neighbors
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onAsk?.(`Tell me about ${node.label} and how it connects to the rest of the graph.`)}
+            >
+              <MessageSquare className="w-3 h-3" />
+              Ask about this node
+            </Button>
+          </div>
+
+          <form onSubmit={handleFindPath} className="space-y-1">
+            <div className="flex gap-1">
+              <Input
+                list="node-detail-path-targets"
+                value={pathTarget}
+                onChange={e => setPathTarget(e.target.value)}
+                placeholder="Find path to…"
+                className="h-7 text-xs"
+              />
+              <datalist id="node-detail-path-targets">
+                {nodeLabels.filter(label => label !== node.label).map(label => <option key={label} value={label} />)}
+              </datalist>
+              <Button type="submit" variant="outline" size="sm" className="h-7" disabled={pathStatus.searching || !pathTarget.trim()} aria-label="Find path">
+                {pathStatus.searching ? <Loader2 className="w-3 h-3 animate-spin" /> : <Route className="w-3 h-3" />}
+              </Button>
+            </div>
+            {pathStatus.message && <p className="text-xs text-muted-foreground">{pathStatus.message}</p>}
+          </form>
+
+          <section className="space-y-1">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">Properties</h4>
+            {properties.length === 0 && (node.aliases || []).length === 0 ? (
+              <p className="text-xs text-muted-foreground">None</p>
+            ) : (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-xs">
+                {(node.aliases || []).length > 0 && (
+                  <div className="contents">
+                    <dt className="text-muted-foreground">aliases</dt>
+                    <dd className="break-words">{node.aliases!.join(', ')}</dd>
+                  </div>
+                )}
+                {properties.map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-muted-foreground">{key}</dt>
+                    <dd className="break-words whitespace-pre-wrap">{formatValue(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">Relationships</h4>
+            {details.relationships.length === 0 && <p className="text-xs text-muted-foreground">No edges</p>}
+            {details.relationships.map(group => (
+              <div key={`${group.direction}:${group.relationship}`} className="space-y-1">
+                <div className="flex items-center gap-1 text-xs font-medium">
+                  {group.direction === 'out' ? <ArrowRight className="w-3 h-3" /> : <ArrowLeft className="w-3 h-3" />}
+                  {group.relationship}
+                  <span className="text-muted-foreground font-normal">({group.neighbors.length})</span>
+                </div>
+                <div className="flex flex-wrap gap-1 pl-4">
+                  {group.neighbors.map(neighbor => (
+                    <button
+                      key={neighbor.edgeId}
+                      onClick={() => onSelectNode?.(neighbor.nodeId)}
+                      className="rounded border border-neutral-200 dark:border-neutral-800 px-1.5 py-0.5 text-xs hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                      title={neighbor.validFrom || neighbor.validTo ? `${neighbor.validFrom ?? '…'} – ${neighbor.validTo ?? 'present'}` : undefined}
+                    >
+                      {neighbor.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">Supporting documents</h4>
+            {details.chunksError && <p className="text-xs text-red-500">{details.chunksError}</p>}
+            {details.chunks.length === 0 && !details.chunksError && <p className="text-xs text-muted-foreground">No related text</p>}
+            {details.chunks.map(chunk => (
+              <div key={chunk.id} className="rounded border border-neutral-200 dark:border-neutral-800 p-2 space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-medium truncate">{chunk.documentTitle ?? 'Unknown Document'}</span>
+                  <span className="flex-shrink-0 text-muted-foreground">
+                    {chunk.extracted ? 'extracted from' : ''}
+                    {chunk.extracted && chunk.similarity !== null ? ' · ' : ''}
+                    {chunk.similarity !== null ? `${Math.round(chunk.similarity * 100)}%` : ''}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-4">{chunk.content}</p>
+              </div>
+            ))}
+          </section>
+
+          <section className="text-xs text-muted-foreground space-y-0.5">
+            <p>Created {formatDate(node.created_at)}</p>
+            <p>Updated {formatDate(node.updated_at)}</p>
+            {(node.valid_from || node.valid_to) && <p>Valid {node.valid_from ?? '…'} – {node.valid_to ?? 'present'}</p>}
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
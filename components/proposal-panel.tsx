@@ -0,0 +1,242 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Check, Loader2, Pencil, X } from 'lucide-react'
+import type { GraphViewData } from '@/lib/graph'
+import type { ProposalRow, WorkspaceSettings } from '@/lib/proposals'
+
+interface ProposalPanelProps {
+  workspace?: string
+  // Bumped by the parent whenever the assistant may have proposed something
+  refreshKey?: number
+  // Pending proposals as ghost elements for the canvas
+  onGhostGraph?: (graph: GraphViewData) => void
+  // What an approval wrote to the graph
+  onApproved?: (graph: GraphViewData) => void
+}
+
+// Review requests are labeled as coming from the UI in the change log
+const REVIEW_HEADERS = { 'Content-Type': 'application/json', 'X-Change-Client': 'ui' }
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || `Request failed with ${res.status}`)
+  return body
+}
+
+export function ProposalPanel({ workspace = 'default', refreshKey, onGhostGraph, onApproved }: ProposalPanelProps) {
+  const [proposals, setProposals] = useState<ProposalRow[]>([])
+  const [settings, setSettings] = useState<WorkspaceSettings | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const { proposals, graph } = await request<{ proposals: ProposalRow[]; graph: GraphViewData }>(
+        `/api/proposals?${new URLSearchParams({ workspace, status: 'pending' })}`
+      )
+      setProposals(proposals)
+      onGhostGraph?.(graph)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load proposals')
+    }
+  }, [workspace, onGhostGraph])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, refreshKey])
+
+  useEffect(() => {
+    request<WorkspaceSettings>(`/api/workspaces/${encodeURIComponent(workspace)}`)
+      .then(setSettings)
+      .catch(err => console.error('Failed to load workspace settings:', err))
+  }, [workspace])
+
+  // Run one review action, then reload the queue since approving or
+  // rejecting one proposal can settle others that depend on it
+  const review = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+      setEditingId(null)
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review failed')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleApprove = (id: string) => review(id, async () => {
+    const { graph } = await request<{ graph: GraphViewData }>(`/api/proposals/${id}/approve`, {
+      method: 'POST',
+      headers: REVIEW_HEADERS,
+    })
+    onApproved?.(graph)
+  })
+
+  const handleReject = (id: string) => review(id, async () => {
+    await request(`/api/proposals/${id}/reject`, { method: 'POST', headers: REVIEW_HEADERS, body: '{}' })
+  })
+
+  const handleEdit = (id: string, edit: Record<string, unknown>) => review(id, async () => {
+    await request(`/api/proposals/${id}`, { method: 'PATCH', headers: REVIEW_HEADERS, body: JSON.stringify(edit) })
+  })
+
+  const handleAutoApprove = async (autoApprove: boolean) => {
+    try {
+      setSettings(await request<WorkspaceSettings>(`/api/workspaces/${encodeURIComponent(workspace)}`, {
+        method: 'PATCH',
+        headers: REVIEW_HEADERS,
+        body: JSON.stringify({ autoApprove }),
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings')
+    }
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-lg">Review Queue</h2>
+          <p className="text-sm text-muted-foreground">
+            Graph changes the assistant proposed, shown dashed on the graph until approved
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={settings?.autoApprove ?? false}
+            disabled={!settings}
+            onChange={e => handleAutoApprove(e.target.checked)}
+          />
+          Auto-approve
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {proposals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes waiting for review</p>
+      ) : (
+        <ul className="space-y-2">
+          {proposals.map(proposal => (
+            <li
+              key={proposal.id}
+              className="rounded-lg border border-dashed border-neutral-300 dark:border-neutral-700 p-3 text-sm"
+            >
+              {editingId === proposal.id ? (
+                <ProposalEditor
+                  proposal={proposal}
+                  onSave={edit => handleEdit(proposal.id, edit)}
+                  onCancel={() => setEditingId(null)}
+                  disabled={busyId === proposal.id}
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <ProposalSummary proposal={proposal} />
+                  <div className="flex gap-1 flex-shrink-0">
+                    {busyId === proposal.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleApprove(proposal.id)} aria-label="Approve">
+                          <Check className="w-4 h-4 text-green-600" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(proposal.id)} aria-label="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleReject(proposal.id)} aria-label="Reject">
+                          <X className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function ProposalSummary({ proposal }: { proposal: ProposalRow }) {
+  const { payload } = proposal
+  if (proposal.kind === 'node') {
+    return (
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{payload.label}</span>
+          {payload.type && <Badge variant="secondary" className="text-xs">{payload.type}</Badge>}
+        </div>
+        {payload.properties?.description && (
+          <p className="text-xs text-muted-foreground mt-1">{payload.properties.description}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <p>
+      {payload.source_label} → <span className="font-medium">[{payload.relationship}]</span> → {payload.target_label}
+    </p>
+  )
+}
+
+// Inline edit of the fields a reviewer is most likely to fix; endpoints
+// can't be changed, so a wrong edge should be rejected instead
+function ProposalEditor({
+  proposal,
+  onSave,
+  onCancel,
+  disabled,
+}: {
+  proposal: ProposalRow
+  onSave: (edit: Record<string, unknown>) => void
+  onCancel: () => void
+  disabled: boolean
+}) {
+  const { payload } = proposal
+  const [label, setLabel] = useState<string>(payload.label ?? '')
+  const [type, setType] = useState<string>(payload.type ?? '')
+  const [description, setDescription] = useState<string>(payload.properties?.description ?? '')
+  const [relationship, setRelationship] = useState<string>(payload.relationship ?? '')
+
+  const handleSave = () => {
+    if (proposal.kind === 'edge') {
+      onSave({ relationship })
+      return
+    }
+    const properties = { ...payload.properties }
+    if (description) properties.description = description
+    else delete properties.description
+    onSave({ label, ...(type.trim() ? { type } : {}), properties })
+  }
+
+  return (
+    <div className="space-y-2">
+      {proposal.kind === 'node' ? (
+        <>
+          <Input value={label} onChange={e => setLabel(e.target.value)} placeholder="Label" className="h-8" />
+          <Input value={type} onChange={e => setType(e.target.value)} placeholder="Type" className="h-8" />
+          <Input value={description} onChange={e => setDescription(e.target.value)} placeholder="Description" className="h-8" />
+        </>
+      ) : (
+        <Input value={relationship} onChange={e => setRelationship(e.target.value)} placeholder="Relationship" className="h-8" />
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={disabled}>Cancel</Button>
+        <Button size="sm" onClick={handleSave} disabled={disabled}>Save</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Check, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react'
+import type { ConversationRow } from '@/lib/conversations'
+
+interface ThreadListProps {
+  activeId: string
+  // Bumped by the parent after each reply, since that may create a thread
+  refreshKey?: number
+  onSelect: (id: string) => void
+  onNew: () => void
+  onDeleted?: (id: string) => void
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message || `Request failed with ${res.status}`)
+  return body
+}
+
+export function ThreadList({ activeId, refreshKey, onSelect, onNew, onDeleted }: ThreadListProps) {
+  const [threads, setThreads] = useState<ConversationRow[]>([])
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [title, setTitle] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const { conversations } = await request<{ conversations: ConversationRow[] }>('/api/conversations')
+      setThreads(conversations)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations')
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, refreshKey])
+
+  // A thread is only stored once its first reply finishes
+  const active = threads.find(thread => thread.id === activeId)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await action()
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRename = () => run(async () => {
+    await request(`/api/conversations/${encodeURIComponent(activeId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    })
+    setIsRenaming(false)
+  })
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(`Delete "${active.title}"? Graph changes it made are kept.`)) return
+    run(async () => {
+      await request(`/api/conversations/${encodeURIComponent(activeId)}`, { method: 'DELETE' })
+      onDeleted?.(activeId)
+    })
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {isRenaming ? (
+          <>
+            <Input
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && title.trim() && handleRename()}
+              className="h-8 flex-1"
+              autoFocus
+            />
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleRename} disabled={isBusy || !title.trim()} aria-label="Save title">
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIsRenaming(false)} disabled={isBusy} aria-label="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <select
+              value={active ? activeId : ''}
+              onChange={e => e.target.value && onSelect(e.target.value)}
+              className="h-8 flex-1 min-w-0 rounded-md border border-neutral-200 dark:border-neutral-800 bg-transparent px-2 text-sm"
+              aria-label="Conversation"
+            >
+              {!active && <option value="">New conversation</option>}
+              {threads.map(thread => (
+                <option key={thread.id} value={thread.id}>{thread.title}</option>
+              ))}
+            </select>
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => {
+                setTitle(active?.title ?? '')
+                setIsRenaming(true)
+              }}
+              disabled={!active || isBusy}
+              aria-label="Rename conversation"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDelete} disabled={!active || isBusy} aria-label="Delete conversation">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" onClick={onNew} disabled={isBusy}>
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+          </>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchWholeGraph, type GraphEdgeRow, type GraphNodeRow } from './graph'
+
+// Structural analytics over the whole graph: centrality, connected
+// components and type histograms. Everything is computed in memory from
+// one load of the node and edge lists, which is fine up to a few thousand
+// nodes; betweenness switches to sampling above that.
+
+export const ANALYTICS_METRICS = ['degree', 'pagerank', 'betweenness'] as const
+export type AnalyticsMetric = (typeof ANALYTICS_METRICS)[number]
+
+export interface NodeMetrics {
+  id: string
+  label: string
+  type: string | null
+  degree: number
+  inDegree: number
+  outDegree: number
+  // Sums to 1 across the graph
+  pagerank: number
+  // Normalized to 0-1
+  betweenness: number
+  // Index into GraphAnalytics.components; 0 is the largest
+  component: number
+}
+
+export interface GraphAnalytics {
+  summary: {
+    nodeCount: number
+    edgeCount: number
+    density: number
+    averageDegree: number
+    componentCount: number
+    largestComponentSize: number
+    isolatedCount: number
+    // Number of source nodes betweenness was estimated from, or null if exact
+    betweennessSamples: number | null
+  }
+  nodes: NodeMetrics[]
+  components: Array<{ id: number; size: number; sample: string[] }>
+  isolated: Array<{ id: string; label: string; type: string | null }>
+  relationships: Record<string, number>
+  nodeTypes: Record<string, number>
+}
+
+export interface AnalyticsOptions {
+  damping?: number
+  // Exact betweenness up to this many nodes, sampled above it
+  maxExactBetweenness?: number
+  betweennessSamples?: number
+}
+
+const PAGERANK_ITERATIONS = 100
+const PAGERANK_TOLERANCE = 1e-8
+
+export async function analyzeGraph(supabase: SupabaseClient, options: AnalyticsOptions = {}): Promise<GraphAnalytics> {
+  return computeAnalytics(await fetchWholeGraph(supabase), options)
+}
+
+export function computeAnalytics(
+  graph: { nodes: GraphNodeRow[]; edges: GraphEdgeRow[] },
+  options: AnalyticsOptions = {}
+): GraphAnalytics {
+  const { damping = 0.85, maxExactBetweenness = 2000, betweennessSamples = 500 } = options
+  const n = graph.nodes.length
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]))
+
+  const inDegree = new Array(n).fill(0)
+  const outDegree = new Array(n).fill(0)
+  const outgoing: Array<Array<{ target: number; weight: number }>> = Array.from({ length: n }, () => [])
+  const neighbours: Array<Set<number>> = Array.from({ length: n }, () => new Set())
+  const relationships: Record<string, number> = {}
+
+  for (const edge of graph.edges) {
+    const source = index.get(edge.source_id)
+    const target = index.get(edge.target_id)
+    if (source === undefined || target === undefined) continue
+
+    outDegree[source]++
+    inDegree[target]++
+    outgoing[source].push({ target, weight: edge.weight ?? 1 })
+    if (source !== target) {
+      neighbours[source].add(target)
+      neighbours[target].add(source)
+    }
+    relationships[edge.relationship] = (relationships[edge.relationship] || 0) + 1
+  }
+
+  const pagerank = computePageRank(outgoing, damping)
+  const sampled = n > maxExactBetweenness
+  const betweenness = computeBetweenness(neighbours, sampled ? betweennessSamples : n)
+  const { membership, components } = computeComponents(neighbours)
+
+  const nodeTypes: Record<string, number> = {}
+  graph.nodes.forEach(node => {
+    const type = node.type || 'untyped'
+    nodeTypes[type] = (nodeTypes[type] || 0) + 1
+  })
+
+  const nodes: NodeMetrics[] = graph.nodes.map((node, i) => ({
+    id: node.id,
+    label: node.label,
+    type: node.type,
+    degree: inDegree[i] + outDegree[i],
+    inDegree: inDegree[i],
+    outDegree: outDegree[i],
+    pagerank: pagerank[i],
+    betweenness: betweenness[i],
+    component: membership[i],
+  }))
+
+  const isolated = nodes
+    .filter(node => node.degree === 0)
+    .map(({ id, label, type }) => ({ id, label, type }))
+
+  return {
+    summary: {
+      nodeCount: n,
+      edgeCount: graph.edges.length,
+      density: n > 1 ? graph.edges.length / (n * (n - 1)) : 0,
+      averageDegree: n > 0 ? (2 * graph.edges.length) / n : 0,
+      componentCount: components.length,
+      largestComponentSize: components[0]?.length ?? 0,
+      isolatedCount: isolated.length,
+      betweennessSamples: sampled ? Math.min(betweennessSamples, n) : null,
+    },
+    nodes,
+    components: components.map((members, id) => ({
+      id,
+      size: members.length,
+      sample: members.slice(0, 5).map(i => graph.nodes[i].label),
+    })),
+    isolated,
+    relationships,
+    nodeTypes,
+  }
+}
+
+// Highest-ranked nodes for one metric, ties broken by label
+export function topNodes(analytics: GraphAnalytics, metric: AnalyticsMetric, limit = 10): NodeMetrics[] {
+  return [...analytics.nodes]
+    .sort((a, b) => b[metric] - a[metric] || a.label.localeCompare(b.label))
+    .slice(0, limit)
+}
+
+// Weighted PageRank over directed edges. Rank from nodes with no outgoing
+// edges is spread evenly so the total stays 1.
+function computePageRank(outgoing: Array<Array<{ target: number; weight: number }>>, damping: number): number[] {
+  const n = outgoing.length
+  if (n === 0) return []
+
+  const outWeight = outgoing.map(edges => edges.reduce((sum, edge) => sum + edge.weight, 0))
+  let rank = new Array(n).fill(1 / n)
+
+  for (let iteration = 0; iteration < PAGERANK_ITERATIONS; iteration++) {
+    const dangling = rank.reduce((sum, value, i) => (outWeight[i] > 0 ? sum : sum + value), 0)
+    const next = new Array(n).fill((1 - damping) / n + (damping * dangling) / n)
+
+    outgoing.forEach((edges, source) => {
+      if (outWeight[source] === 0) return
+      const share = (damping * rank[source]) / outWeight[source]
+      edges.forEach(edge => { next[edge.target] += share * edge.weight })
+    })
+
+    const delta = next.reduce((sum, value, i) => sum + Math.abs(value - rank[i]), 0)
+    rank = next
+    if (delta < PAGERANK_TOLERANCE) break
+  }
+
+  return rank
+}
+
+// Brandes' algorithm on the undirected, unweighted graph. With fewer sources
+// than nodes, sources are spread evenly through the node list and the
+// result is scaled up, which estimates the exact value.
+function computeBetweenness(neighbours: Array<Set<number>>, sourceCount: number): number[] {
+  const n = neighbours.length
+  const centrality = new Array(n).fill(0)
+  if (n < 3) return centrality
+
+  const count = Math.min(sourceCount, n)
+  const step = n / count
+
+  for (let s = 0; s < count; s++) {
+    const source = Math.floor(s * step)
+    const stack: number[] = []
+    const predecessors: number[][] = Array.from({ length: n }, () => [])
+    const paths = new Array(n).fill(0)
+    const distance = new Array(n).fill(-1)
+    paths[source] = 1
+    distance[source] = 0
+
+    const queue = [source]
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head]
+      stack.push(v)
+      neighbours[v].forEach(w => {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1
+          queue.push(w)
+        }
+        if (distance[w] === distance[v] + 1) {
+          paths[w] += paths[v]
+          predecessors[w].push(v)
+        }
+      })
+    }
+
+    const dependency = new Array(n).fill(0)
+    while (stack.length > 0) {
+      const w = stack.pop()!
+      predecessors[w].forEach(v => {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w])
+      })
+      if (w !== source) centrality[w] += dependency[w]
+    }
+  }
+
+  // Each pair is counted from both ends; normalize by the number of pairs
+  const scale = (n / count) / ((n - 1) * (n - 2))
+  return centrality.map(value => value * scale)
+}
+
+// Weakly connected components, largest first
+function computeComponents(neighbours: Array<Set<number>>) {
+  const membership = new Array(neighbours.length).fill(-1)
+  const components: number[][] = []
+
+  for (let start = 0; start < neighbours.length; start++) {
+    if (membership[start] >= 0) continue
+    const members = [start]
+    membership[start] = components.length
+    for (let head = 0; head < members.length; head++) {
+      neighbours[members[head]].forEach(next => {
+        if (membership[next] < 0) {
+          membership[next] = components.length
+          members.push(next)
+        }
+      })
+    }
+    components.push(members)
+  }
+
+  const order = components.map((_, i) => i).sort((a, b) => components[b].length - components[a].length || a - b)
+  const renumber = new Map(order.map((old, i) => [old, i]))
+  return {
+    membership: membership.map(component => renumber.get(component)!),
+    components: order.map(i => components[i]),
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { GraphStoreError } from './graph-store'
+
+const STATUS_BY_CODE = {
+  not_found: 404,
+  ambiguous: 409,
+  conflict: 409,
+  invalid: 400,
+} as const
+
+// Thrown by readJson, so a malformed body is a 400 rather than a 500
+export class InvalidJsonError extends Error {
+  constructor() {
+    super('Request body must be valid JSON')
+    this.name = 'InvalidJsonError'
+  }
+}
+
+export async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json()
+  } catch {
+    throw new InvalidJsonError()
+  }
+}
+
+// Shared error responses for the node/edge routes: validation errors are
+// 400s, store errors map to 400/404/409, anything else is logged as a 500
+export function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid request', issues: error.issues }, { status: 400 })
+  }
+
+  if (error instanceof InvalidJsonError) {
+    return NextResponse.json({ error: 'Invalid request', message: error.message }, { status: 400 })
+  }
+
+  if (error instanceof GraphStoreError) {
+    return NextResponse.json(
+      { error: error.code, message: error.message, ...error.details },
+      { status: STATUS_BY_CODE[error.code] }
+    )
+  }
+
+  console.error(`Failed to ${action}:`, error)
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,530 @@
+import { tool } from 'ai'
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateEmbedding } from './embeddings'
+import { findPaths, pathsToGraphData, traversalToGraphData, traverseFrom, type GraphPath } from './paths'
+import { describeUnresolved, resolveNode } from './entity-resolution'
+import { formatRetrievalContext, hybridSearch, type HybridSearchResult } from './retrieval'
+import { fetchDocumentTitles } from './documents'
+import type { CitationCollector } from './citations'
+import { querySubgraph } from './graph-query'
+import { createEdge, createNode, edgeFields, nodeInputSchema } from './graph-store'
+import { fetchCommunityGraphs, globalSearch } from './communities'
+import { analyzeGraph, ANALYTICS_METRICS, topNodes } from './analytics'
+import { temporalQueryFields, toTimeRange, type TimeRange } from './temporal'
+import type { describeOntology } from './ontology'
+import type { ChatMode } from './conversations'
+import { proposeEdge, proposeNode, type ProposalOrigin, type ProposalRow } from './proposals'
+
+// The tools and system prompts behind each RAG mode. The chat route streams
+// them to the user; the evaluation runner (lib/evaluation.ts) drives the
+// same tools with a scripted or recorded model, so what it measures is what
+// the chat does.
+
+// Tool schemas
+const searchVectorSchema = z.object({
+  query: z.string().describe('The search query'),
+  threshold: z.number().optional().default(0.5),
+  limit: z.number().optional().default(10),
+})
+
+const hybridSearchSchema = z.object({
+  query: z.string().describe('The search query'),
+  limit: z.number().optional().default(10),
+  expansionDepth: z.number().optional().default(1).describe('How many hops to expand around matched nodes'),
+})
+
+const globalSearchSchema = z.object({
+  query: z.string().describe('The broad question to answer across the whole graph'),
+  level: z.number().optional().describe('Community level to search; lower levels are more detailed. Leave unset to pick automatically'),
+})
+
+const analyzeGraphSchema = z.object({
+  metric: z.enum(ANALYTICS_METRICS).optional().default('pagerank')
+    .describe('degree: most connections; pagerank: most important by incoming links; betweenness: most often on paths between others'),
+  limit: z.number().optional().default(10),
+})
+
+const searchGraphSchema = z.object({
+  nodeLabel: z.string().describe('Starting node label, alias or id (close spellings are resolved automatically)'),
+  maxDepth: z.number().optional().default(2),
+  ...temporalQueryFields,
+})
+
+const findPathSchema = z.object({
+  fromLabel: z.string().describe('Label of the node the path starts at'),
+  toLabel: z.string().describe('Label of the node the path ends at'),
+  k: z.number().optional().default(1).describe('Number of alternative shortest paths to return'),
+  directed: z.boolean().optional().default(false).describe('Only follow edges in their source → target direction'),
+  maxDepth: z.number().optional().default(6),
+  ...temporalQueryFields,
+})
+
+// Same validation as the /api/nodes and /api/edges routes
+const createNodeSchema = nodeInputSchema
+
+const createEdgeSchema = z.object({
+  sourceLabel: z.string().describe('Source node label'),
+  targetLabel: z.string().describe('Target node label'),
+  relationship: edgeFields.relationship,
+  valid_from: edgeFields.valid_from.optional(),
+  valid_to: edgeFields.valid_to.optional(),
+})
+
+// Helper function for safe tool execution with error handling
+function createSafeExecute<T extends (...args: any[]) => Promise<any>>(
+  fn: T,
+  toolName: string
+): T {
+  return (async (...args: Parameters<T>) => {
+    try {
+      return await fn(...args)
+    } catch (error) {
+      console.error(`Error in ${toolName}:`, error)
+      return {
+        error: true,
+        message: `Failed to execute ${toolName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      }
+    }
+  }) as T
+}
+
+export interface ChatWriteContext {
+  // Otherwise writes are queued as proposals for review
+  autoApprove: boolean
+  ontology: ReturnType<typeof describeOntology>
+  // Client that logs graph changes against the chat turn
+  writeClient: (toolName: string) => Promise<SupabaseClient>
+  origin: (toolName: string) => ProposalOrigin
+}
+
+// Tools for one chat request. Results are cited into the collector as the
+// tools run; without a write context the model can only read the graph.
+export function createChatTools(
+  supabase: SupabaseClient,
+  mode: ChatMode,
+  citations: CitationCollector,
+  writes?: ChatWriteContext
+) {
+  const withOntology = (description: string, rules: string) => (rules ? `${description}\n\n${rules}` : description)
+
+  return {
+    // Vector RAG tools
+    ...(mode === 'vector' ? {
+      searchDocuments: tool({
+        description: 'Search for relevant document chunks using semantic similarity',
+        parameters: searchVectorSchema,
+        execute: createSafeExecute(async ({ query, threshold, limit }) => {
+          // Generate embedding for query
+          const embedding = await generateEmbedding(query)
+          
+          // Search document chunks with lower threshold for better recall
+          const { data, error } = await supabase.rpc('search_chunks_semantic', {
+            query_embedding: embedding,
+            match_threshold: threshold || 0.5,
+            match_count: limit || 10,
+          })
+
+          if (error) throw error
+          
+          const chunks: Array<{ id: string; document_id: string | null; content: string; metadata: any; similarity: number }> = data || []
+          const titles = await fetchDocumentTitles(supabase, chunks.map(chunk => chunk.document_id))
+
+          // Format results to include more details
+          const results = chunks.map(chunk => {
+            const documentTitle = (chunk.document_id && titles.get(chunk.document_id)) || 'Unknown Document'
+            return {
+              citation: citations.addChunk({
+                tool: 'searchDocuments',
+                chunkId: chunk.id,
+                documentId: chunk.document_id,
+                documentTitle,
+                content: chunk.content,
+                similarity: chunk.similarity,
+                score: null,
+              }),
+              ...chunk,
+              document_title: documentTitle,
+              excerpt: chunk.content.substring(0, 200) + '...',
+              similarity: chunk.similarity
+            }
+          })
+          
+          return results
+        }, 'searchDocuments'),
+      }),
+    } : {}),
+
+    // Graph RAG tools
+    ...(mode === 'graph' || mode === 'hybrid' ? {
+      traverseGraph: tool({
+        description: 'Traverse the knowledge graph starting from a node',
+        parameters: searchGraphSchema,
+        execute: async ({ nodeLabel, maxDepth, ...temporal }) => {
+          console.log('=== GRAPH TRAVERSAL DEBUG ===')
+          console.log('Looking for node:', nodeLabel)
+          console.log('Max depth:', maxDepth)
+          
+          // First resolve the node
+          const resolution = await resolveNode(supabase, nodeLabel)
+
+          if (resolution.status !== 'resolved') {
+            console.log(`Node ${resolution.status}!`)
+            return describeUnresolved(resolution)
+          }
+
+          const startNode = resolution.node
+          console.log('Found node:', startNode.id, startNode.label, `(${startNode.matchType}, ${startNode.confidence})`)
+
+          // Get connected nodes and the edges walked to reach them
+          const during = toTimeRange(temporal)
+          const traversal = await traverseFrom(supabase, startNode.id, maxDepth, during)
+          const { connectedNodes } = traversal
+          
+          console.log('Connected nodes found:', connectedNodes.length)
+          if (connectedNodes.length > 0) {
+            console.log('Connected nodes:')
+            connectedNodes.forEach(node => {
+              console.log(`- ${node.label} (depth: ${node.depth})`)
+            })
+          }
+          
+          console.log('=== END TRAVERSAL DEBUG ===')
+          
+          const labels = new Map(connectedNodes.map(node => [node.node_id, node.label]))
+          const relationships = traversal.edges.map(edge => ({
+            edgeId: edge.id,
+            source: labels.get(edge.source_id) || edge.source_id,
+            relationship: edge.relationship,
+            target: labels.get(edge.target_id) || edge.target_id,
+          }))
+          // A node with nothing around it is still a source, and still shown
+          const citation = relationships.length > 0
+            ? citations.addPath({
+                tool: 'traverseGraph',
+                description: `Traversal from ${startNode.label} (depth ${maxDepth}${describeTimeRange(during)})`,
+                hops: relationships,
+                graph: traversalToGraphData(traversal),
+              })
+            : citations.addNode({
+                tool: 'traverseGraph',
+                nodeId: startNode.id,
+                label: startNode.label,
+                type: startNode.type,
+                description: startNode.properties?.description ?? null,
+                similarity: null,
+                score: null,
+              })
+
+          return { citation, startNode, connectedNodes, relationships }
+        },
+      }),
+
+      findPath: tool({
+        description: 'Find how two nodes are connected: the shortest path(s) between them, with the relationship and direction of every hop',
+        parameters: findPathSchema,
+        execute: createSafeExecute(async ({ fromLabel, toLabel, k, directed, maxDepth, ...temporal }) => {
+          const [fromResult, toResult] = await Promise.all([
+            resolveNode(supabase, fromLabel),
+            resolveNode(supabase, toLabel),
+          ])
+
+          if (fromResult.status !== 'resolved') return describeUnresolved(fromResult)
+          if (toResult.status !== 'resolved') return describeUnresolved(toResult)
+
+          const start = fromResult.node
+          const end = toResult.node
+          const paths = await findPaths(supabase, start.id, end.id, { k, directed, maxDepth, during: toTimeRange(temporal) })
+
+          return {
+            from: { id: start.id, label: start.label },
+            to: { id: end.id, label: end.label },
+            found: paths.length > 0,
+            paths: paths.map(path => ({ citation: citePath(citations, path), ...path })),
+            graph: pathsToGraphData(paths),
+          }
+        }, 'findPath'),
+      }),
+
+      globalSearch: tool({
+        description: 'Answer broad or thematic questions about the whole knowledge graph ("what are the main themes", "summarize everything about space programs") from pre-computed community summaries',
+        parameters: globalSearchSchema,
+        execute: createSafeExecute(async ({ query, level }) => {
+          // The model writes the final answer, so skip the synthesis call
+          const search = await globalSearch(supabase, query, { level, synthesize: false })
+          if (search.level === null) {
+            return { error: 'no_communities', message: 'No community summaries exist yet. Run `npm run communities` to build them.' }
+          }
+
+          const graphs = await fetchCommunityGraphs(supabase, search.communities.map(community => community.id))
+          const ids = new Map(search.communities.map(community => [community.id, citations.addCommunity({
+            tool: 'globalSearch',
+            communityId: community.id,
+            title: community.title ?? 'Untitled community',
+            summary: community.summary ?? '',
+            level: community.level,
+            size: community.size,
+            graph: graphs.get(community.id) ?? { nodes: [], edges: [] },
+          })]))
+
+          return {
+            level: search.level,
+            points: search.points.map(point => ({ citation: ids.get(point.communityId), ...point })),
+          }
+        }, 'globalSearch'),
+      }),
+
+      analyzeGraph: tool({
+        description: 'Analyze the structure of the whole knowledge graph: most central entities, connected components, isolated nodes and relationship counts',
+        parameters: analyzeGraphSchema,
+        execute: createSafeExecute(async ({ metric, limit }: z.infer<typeof analyzeGraphSchema>) => {
+          const analytics = await analyzeGraph(supabase)
+          const ranked = topNodes(analytics, metric, limit).map(node => ({
+            citation: citations.addNode({
+              tool: 'analyzeGraph',
+              nodeId: node.id,
+              label: node.label,
+              type: node.type,
+              description: null,
+              similarity: null,
+              score: Number(node[metric].toFixed(4)),
+            }),
+            ...node,
+          }))
+
+          return {
+            summary: analytics.summary,
+            metric,
+            topNodes: ranked,
+            components: analytics.components.slice(0, 5),
+            isolated: analytics.isolated.slice(0, 20),
+            relationships: analytics.relationships,
+            nodeTypes: analytics.nodeTypes,
+          }
+        }, 'analyzeGraph'),
+      }),
+
+      // Left out when the caller can't write, e.g. evaluation runs
+      ...(writes ? {
+        createNode: tool({
+          description: withOntology(writes.autoApprove
+            ? 'Create a new node in the knowledge graph'
+            : 'Propose a new node for the knowledge graph; it is added once a reviewer approves it', writes.ontology.nodeTypes),
+          parameters: createNodeSchema,
+          execute: createSafeExecute(async (input) => {
+            if (!writes.autoApprove) return describeProposal(await proposeNode(supabase, input, writes.origin('createNode')))
+            return createNode(await writes.writeClient('createNode'), input)
+          }, 'createNode'),
+        }),
+
+        createEdge: tool({
+          description: withOntology(writes.autoApprove
+            ? 'Create a relationship between two nodes'
+            : 'Propose a relationship between two nodes; either node may itself be a pending proposal', writes.ontology.relationships),
+          parameters: createEdgeSchema,
+          execute: createSafeExecute(async ({ sourceLabel, targetLabel, relationship, valid_from, valid_to }) => {
+            if (!writes.autoApprove) {
+              return describeProposal(await proposeEdge(supabase, {
+                source: sourceLabel,
+                target: targetLabel,
+                relationship,
+                valid_from,
+                valid_to,
+              }, writes.origin('createEdge')))
+            }
+
+            // Resolve both nodes
+            const [sourceResult, targetResult] = await Promise.all([
+              resolveNode(supabase, sourceLabel),
+              resolveNode(supabase, targetLabel),
+            ])
+
+            if (sourceResult.status !== 'resolved') return describeUnresolved(sourceResult)
+            if (targetResult.status !== 'resolved') return describeUnresolved(targetResult)
+
+            return createEdge(await writes.writeClient('createEdge'), {
+              source: sourceResult.node.id,
+              target: targetResult.node.id,
+              relationship,
+              valid_from,
+              valid_to,
+            })
+          }, 'createEdge'),
+        }),
+      } : {}),
+
+      updateGraph: tool({
+        description: 'Update the graph visualization with current nodes and edges',
+        parameters: z.object({
+          operation: z.enum(['add', 'refresh']).describe('Type of update operation'),
+          nodeId: z.string().optional().describe('Node ID for focused updates'),
+        }),
+        execute: async ({ operation, nodeId }) => {
+          // For refresh operation, get latest graph data
+          if (operation === 'refresh') {
+            const { nodes, edges } = await querySubgraph(supabase, {
+              centerId: nodeId,
+              depth: nodeId ? 1 : 0,
+              limit: 50,
+            })
+
+            return { nodes, edges, operation: 'refresh' }
+          }
+          
+          // For add operation, just signal the frontend to fetch new data
+          return { operation: 'add', message: 'Graph updated' }
+        },
+      }),
+    } : {}),
+
+    // Hybrid mode gets one fused retriever instead of separate searches
+    ...(mode === 'hybrid' ? {
+      hybridSearch: tool({
+        description: 'Search documents and the knowledge graph together: vector search over chunks and nodes, graph expansion around matched nodes, fused into one ranked list with provenance',
+        parameters: hybridSearchSchema,
+        execute: createSafeExecute(async ({ query, limit, expansionDepth }) => {
+          const search = await hybridSearch(supabase, query, { limit, expansionDepth })
+          const ids = citeRetrievalResults(citations, search, 'hybridSearch')
+          return { ...search, results: search.results.map((result, i) => ({ citation: ids[i], ...result })) }
+        }, 'hybridSearch'),
+      }),
+    } : {}),
+  }
+}
+
+// Different system prompts based on mode
+const SYSTEM_PROMPTS: Record<ChatMode, string> = {
+  vector: `You are a helpful AI assistant using Vector RAG. You search through document chunks using semantic similarity to find relevant information. Use the searchDocuments tool to find relevant content based on the user's query.
+
+IMPORTANT: When providing information from documents, ALWAYS cite your sources:
+- ALWAYS use the searchDocuments tool before answering questions
+- If the search returns results, quote relevant passages from the chunks
+- Cite each fact inline with the citation number from the tool result, e.g. "Laika was the first dog in orbit [2]"
+- Only use citation numbers that appear in tool results; never invent them
+- Do NOT write a sources list yourself - the interface renders the cited sources
+- If the search returns NO results, explicitly state "No documents found matching your query" and that any answer is from general knowledge
+- This transparency proves whether information came from RAG or training data`,
+  
+  graph: `You are a helpful AI assistant using GraphRAG. You navigate through a knowledge graph to find information and can create new nodes and relationships when explicitly asked. 
+
+IMPORTANT RULES:
+1. ALWAYS try traverseGraph FIRST before creating anything new
+   - For "how does X connect to Y" questions, use findPath and report its hops exactly as returned
+   - If a tool returns error "ambiguous", show the candidates and ask the user which node they mean
+   - For broad questions about the whole graph (main themes, overall summaries), use globalSearch instead of traversing
+   - For questions about the graph's structure (most central or connected entities, disconnected nodes), use analyzeGraph
+   - For questions about a point in time ("in 1969", "before 2000"), pass asOf or since/until so only facts valid then are used
+2. ONLY create new nodes/edges when:
+   - The user explicitly asks you to add something to the graph
+   - The user asks about something that doesn't exist and wants it added
+   - NEVER create nodes just because you're answering a question
+3. When providing information, ALWAYS cite your sources:
+   - Describe connections like: NASA → [operates] → ISS, followed by the citation number from the tool result, e.g. [1]
+   - Only use citation numbers that appear in tool results, and don't write a sources list - the interface renders it
+   - If no path exists, say "No graph connections found"
+4. Use updateGraph ONLY when you've made changes to the graph
+   - If createNode or createEdge returns proposed: true, the change is queued for review, not in the graph yet. Tell the user it is waiting for approval and don't call updateGraph for it
+5. Be conservative - the graph should grow intentionally, not automatically`,
+  
+  hybrid: `You are a helpful AI assistant using Hybrid RAG. You combine semantic search with graph traversal for the best results. Relevant documents and graph nodes for the user's latest message have already been retrieved and are listed under "Retrieved context" below, ranked by fused relevance.
+
+IMPORTANT RULES:
+1. Answer from the retrieved context FIRST. Use hybridSearch only for follow-up searches the context doesn't cover, and traverseGraph to explore around a node
+2. Use findPath to explain how two specific entities are connected. If a tool reports an "ambiguous" node, ask the user to pick a candidate
+   - For broad questions about the whole graph (main themes, overall summaries), use globalSearch, since retrieved context only covers the closest matches
+   - For questions about the graph's structure (most central or connected entities, disconnected nodes), use analyzeGraph
+3. ONLY create new nodes/edges when explicitly asked by the user
+4. NEVER automatically add to the graph just because you found new information
+5. When providing information, ALWAYS cite your sources inline with their [number] from the retrieved context or tool results:
+   - Quote passages from documents and show graph connections like NASA → [operates] → ISS
+   - Only use citation numbers that actually appear, and don't write a sources list - the interface renders it
+6. Use updateGraph ONLY when you've made changes to the graph
+   - If createNode or createEdge returns proposed: true, the change is queued for review, not in the graph yet. Tell the user it is waiting for approval
+7. Be conservative - prefer finding existing information over creating new content`,
+}
+
+// The system prompt for a request. Hybrid mode retrieves up front so every
+// answer starts from the same fused context, rather than depending on which
+// tools the model picks.
+export async function buildSystemPrompt(
+  supabase: SupabaseClient,
+  mode: ChatMode,
+  messages: Array<{ role: string; content: string }>,
+  citations: CitationCollector
+) {
+  const system = SYSTEM_PROMPTS[mode]
+  if (mode !== 'hybrid') return system
+  return `${system}\n\nRetrieved context:\n${await retrieveHybridContext(supabase, messages, citations)}`
+}
+
+async function retrieveHybridContext(
+  supabase: SupabaseClient,
+  messages: Array<{ role: string; content: string }>,
+  citations: CitationCollector
+) {
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')
+  if (!lastUserMessage?.content) return 'No user question to retrieve context for.'
+
+  try {
+    const search = await hybridSearch(supabase, lastUserMessage.content)
+    return formatRetrievalContext(search, citeRetrievalResults(citations, search, 'hybridSearch'))
+  } catch (error) {
+    console.error('Hybrid retrieval failed:', error)
+    return `Retrieval failed (${error instanceof Error ? error.message : 'Unknown error'}). Tell the user no context could be retrieved.`
+  }
+}
+
+function citeRetrievalResults(citations: CitationCollector, search: HybridSearchResult, tool: string) {
+  return search.results.map(result => result.kind === 'chunk'
+    ? citations.addChunk({
+        tool,
+        chunkId: result.id,
+        documentId: result.documentId,
+        documentTitle: result.documentTitle,
+        content: result.content,
+        similarity: result.provenance.find(p => p.similarity !== undefined)?.similarity ?? null,
+        score: result.score,
+      })
+    : citations.addNode({
+        tool,
+        nodeId: result.id,
+        label: result.label,
+        type: result.type,
+        description: result.description,
+        similarity: result.provenance.find(p => p.similarity !== undefined)?.similarity ?? null,
+        score: result.score,
+      })
+  )
+}
+
+function describeTimeRange(range: TimeRange | null) {
+  if (!range) return ''
+  if (range.start === range.end) return `, as of ${range.start}`
+  return `, ${range.start ?? '…'} to ${range.end ?? '…'}`
+}
+
+function citePath(citations: CitationCollector, path: GraphPath) {
+  return citations.addPath({
+    tool: 'findPath',
+    description: path.description,
+    hops: path.hops.map(hop => {
+      const [source, target] = hop.direction === 'forward' ? [hop.from, hop.to] : [hop.to, hop.from]
+      return { edgeId: hop.edgeId, source: source.label, relationship: hop.relationship, target: target.label }
+    }),
+    graph: pathsToGraphData([path]),
+  })
+}
+
+
+function describeProposal(proposal: ProposalRow) {
+  const what = proposal.kind === 'node'
+    ? `node "${proposal.payload.label}"`
+    : `edge ${proposal.payload.source_label} → [${proposal.payload.relationship}] → ${proposal.payload.target_label}`
+  return {
+    proposed: true,
+    proposalId: proposal.id,
+    status: proposal.status,
+    message: `Proposed ${what}; it will be added once a reviewer approves it`,
+  }
+}
@@ -0,0 +1,233 @@
+// Document chunking strategies used by the ingestion pipeline.
+// Every chunk keeps its exact character offsets into the source text so it
+// can be traced back to (and highlighted in) the original document.
+
+export type ChunkingStrategy = 'heading' | 'fixed' | 'sentence'
+export type DocumentFormat = 'markdown' | 'text'
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy
+  format?: DocumentFormat
+  // Tokens are approximated as whitespace-delimited words
+  maxTokens?: number
+  // Only used by the fixed window strategy
+  overlap?: number
+  // Chunks shorter than this (after trimming) are dropped
+  minChars?: number
+}
+
+export interface TextChunk {
+  index: number
+  content: string
+  startOffset: number
+  endOffset: number
+  heading: string | null
+  headingPath: string[]
+  tokenCount: number
+}
+
+interface Span {
+  start: number
+  end: number
+}
+
+interface Heading {
+  offset: number
+  end: number
+  level: number
+  text: string
+}
+
+export const DEFAULT_CHUNKING: Required<Omit<ChunkingOptions, 'strategy'>> = {
+  format: 'markdown',
+  maxTokens: 200,
+  overlap: 40,
+  minChars: 1,
+}
+
+export function chunkText(text: string, options: ChunkingOptions): TextChunk[] {
+  const maxTokens = Math.max(1, options.maxTokens ?? DEFAULT_CHUNKING.maxTokens)
+  const overlap = Math.min(Math.max(0, options.overlap ?? DEFAULT_CHUNKING.overlap), maxTokens - 1)
+  const minChars = options.minChars ?? DEFAULT_CHUNKING.minChars
+  const headings = (options.format ?? DEFAULT_CHUNKING.format) === 'markdown' ? parseHeadings(text) : []
+
+  let spans: Span[]
+  switch (options.strategy) {
+    case 'heading':
+      spans = headingSpans(text, headings, maxTokens)
+      break
+    case 'fixed':
+      spans = windowSpans(text, { start: 0, end: text.length }, maxTokens, overlap)
+      break
+    case 'sentence':
+      spans = groupSpans(text, sentenceSpans(text), maxTokens)
+      break
+    default:
+      throw new Error(`Unknown chunking strategy: ${options.strategy}`)
+  }
+
+  return spans
+    .map(span => trimSpan(text, span))
+    .filter(span => span.end - span.start >= minChars)
+    .map((span, index) => {
+      const content = text.slice(span.start, span.end)
+      const headingPath = headingPathAt(headings, span.start)
+      return {
+        index,
+        content,
+        startOffset: span.start,
+        endOffset: span.end,
+        heading: headingPath[headingPath.length - 1] ?? null,
+        headingPath,
+        tokenCount: countTokens(content),
+      }
+    })
+}
+
+export function countTokens(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0
+}
+
+function parseHeadings(text: string): Heading[] {
+  const headings: Heading[] = []
+  const pattern = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    headings.push({
+      offset: match.index,
+      end: match.index + match[0].length,
+      level: match[1].length,
+      text: match[2].trim(),
+    })
+  }
+  return headings
+}
+
+// The chain of headings (outermost first) that a given offset falls under
+function headingPathAt(headings: Heading[], offset: number): string[] {
+  const stack: Heading[] = []
+  for (const heading of headings) {
+    if (heading.offset > offset) break
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop()
+    }
+    stack.push(heading)
+  }
+  return stack.map(h => h.text)
+}
+
+// One span per markdown section; sections larger than maxTokens are
+// re-split on paragraph boundaries so no chunk crosses a heading. The
+// heading line stays with the section's first paragraph rather than
+// becoming a chunk of its own.
+function headingSpans(text: string, headings: Heading[], maxTokens: number): Span[] {
+  const boundaries = [0, ...headings.map(h => h.offset), text.length]
+  const spans: Span[] = []
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const section = { start: boundaries[i], end: boundaries[i + 1] }
+    const heading = headings.find(h => h.offset === section.start)
+    const bodyStart = heading ? heading.end : section.start
+
+    // Skip sections that are only a heading line with no body text
+    if (text.slice(bodyStart, section.end).trim().length === 0) continue
+
+    if (countTokens(text.slice(section.start, section.end)) <= maxTokens) {
+      spans.push(section)
+    } else {
+      const paragraphs = paragraphSpans(text, section)
+      if (heading && paragraphs.length > 1 && paragraphs[0].end <= heading.end) {
+        paragraphs.splice(0, 2, { start: paragraphs[0].start, end: paragraphs[1].end })
+      }
+      spans.push(...groupSpans(text, paragraphs, maxTokens))
+    }
+  }
+
+  return spans
+}
+
+function paragraphSpans(text: string, range: Span): Span[] {
+  return splitSpans(text, range, /\n[ \t]*\n/g)
+}
+
+function sentenceSpans(text: string): Span[] {
+  return splitSpans(text, { start: 0, end: text.length }, /(?<=[.!?]["')\]]*)\s+|\n[ \t]*\n/g)
+}
+
+function splitSpans(text: string, range: Span, separator: RegExp): Span[] {
+  const spans: Span[] = []
+  const slice = text.slice(range.start, range.end)
+  let cursor = 0
+  let match: RegExpExecArray | null
+
+  separator.lastIndex = 0
+  while ((match = separator.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      separator.lastIndex++
+      continue
+    }
+    spans.push({ start: range.start + cursor, end: range.start + match.index })
+    cursor = match.index + match[0].length
+  }
+  spans.push({ start: range.start + cursor, end: range.end })
+
+  return spans.filter(span => text.slice(span.start, span.end).trim().length > 0)
+}
+
+// Merge consecutive spans while they fit in maxTokens. A single span that is
+// already too large falls back to the fixed window splitter.
+function groupSpans(text: string, spans: Span[], maxTokens: number): Span[] {
+  const grouped: Span[] = []
+  let current: Span | null = null
+  let currentTokens = 0
+
+  for (const span of spans) {
+    const tokens = countTokens(text.slice(span.start, span.end))
+
+    if (tokens > maxTokens) {
+      if (current) grouped.push(current)
+      grouped.push(...windowSpans(text, span, maxTokens, 0))
+      current = null
+      currentTokens = 0
+      continue
+    }
+
+    if (current && currentTokens + tokens <= maxTokens) {
+      current = { start: current.start, end: span.end }
+      currentTokens += tokens
+    } else {
+      if (current) grouped.push(current)
+      current = { ...span }
+      currentTokens = tokens
+    }
+  }
+
+  if (current) grouped.push(current)
+  return grouped
+}
+
+function windowSpans(text: string, range: Span, maxTokens: number, overlap: number): Span[] {
+  const words: Span[] = []
+  const pattern = /\S+/g
+  const slice = text.slice(range.start, range.end)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(slice)) !== null) {
+    words.push({ start: range.start + match.index, end: range.start + match.index + match[0].length })
+  }
+
+  const spans: Span[] = []
+  const step = Math.max(1, maxTokens - overlap)
+  for (let i = 0; i < words.length; i += step) {
+    const last = Math.min(i + maxTokens, words.length) - 1
+    spans.push({ start: words[i].start, end: words[last].end })
+    if (last === words.length - 1) break
+  }
+  return spans
+}
+
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span
+  while (start < end && /\s/.test(text[start])) start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return { start, end }
+}
@@ -0,0 +1,109 @@
+import type { GraphViewData } from './graph'
+
+// Citations are collected from what the tools actually returned and streamed
+// to the client as message annotations, so the UI can show real sources
+// instead of relying on the model to write them out.
+
+export type ChunkCitation = {
+  id: number
+  kind: 'chunk'
+  tool: string
+  chunkId: string
+  documentId: string | null
+  documentTitle: string | null
+  content: string
+  similarity: number | null
+  score: number | null
+}
+
+export type NodeCitation = {
+  id: number
+  kind: 'node'
+  tool: string
+  nodeId: string
+  label: string
+  type: string | null
+  description: string | null
+  similarity: number | null
+  score: number | null
+}
+
+export type PathCitation = {
+  id: number
+  kind: 'path'
+  tool: string
+  description: string
+  hops: Array<{ edgeId: string; source: string; relationship: string; target: string }>
+  graph: GraphViewData
+}
+
+export type CommunityCitation = {
+  id: number
+  kind: 'community'
+  tool: string
+  communityId: string
+  title: string
+  summary: string
+  level: number
+  size: number
+  graph: GraphViewData
+}
+
+export type Citation = ChunkCitation | NodeCitation | PathCitation | CommunityCitation
+
+// Shape of each annotation written to the data stream
+export type CitationAnnotation = { type: 'citation'; citation: Citation }
+
+type NewCitation<T extends Citation> = Omit<T, 'id' | 'kind'>
+
+export interface CitationCollector {
+  addChunk(citation: NewCitation<ChunkCitation>): number
+  addNode(citation: NewCitation<NodeCitation>): number
+  addPath(citation: NewCitation<PathCitation>): number
+  addCommunity(citation: NewCitation<CommunityCitation>): number
+  all(): Citation[]
+  // Register a listener; citations collected before subscribing are replayed
+  subscribe(listener: (citation: Citation) => void): void
+}
+
+export function createCitationCollector(): CitationCollector {
+  const citations: Citation[] = []
+  const byKey = new Map<string, number>()
+  const listeners: Array<(citation: Citation) => void> = []
+
+  // The same chunk, node, path or community cited twice keeps its first number
+  const add = (key: string, build: (id: number) => Citation) => {
+    const existing = byKey.get(key)
+    if (existing) return existing
+
+    const citation = build(citations.length + 1)
+    citations.push(citation)
+    byKey.set(key, citation.id)
+    listeners.forEach(listener => listener(citation))
+    return citation.id
+  }
+
+  return {
+    addChunk: citation => add(`chunk:${citation.chunkId}`, id => ({ id, kind: 'chunk', ...citation })),
+    addNode: citation => add(`node:${citation.nodeId}`, id => ({ id, kind: 'node', ...citation })),
+    addPath: citation => add(
+      `path:${citation.hops.map(hop => hop.edgeId).join(',') || citation.description}`,
+      id => ({ id, kind: 'path', ...citation })
+    ),
+    addCommunity: citation => add(`community:${citation.communityId}`, id => ({ id, kind: 'community', ...citation })),
+    all: () => [...citations],
+    subscribe(listener) {
+      citations.forEach(listener)
+      listeners.push(listener)
+    },
+  }
+}
+
+// Pull the citations back out of a message's annotations on the client
+export function getCitations(annotations: unknown[] | undefined): Citation[] {
+  return (annotations || [])
+    .filter((value): value is CitationAnnotation =>
+      typeof value === 'object' && value !== null && (value as { type?: unknown }).type === 'citation'
+    )
+    .map(annotation => annotation.citation)
+}
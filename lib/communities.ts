@@ -0,0 +1,500 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateObject, generateText, type LanguageModel } from 'ai'
+import { openai } from '@ai-sdk/openai'
+import { z } from 'zod'
+import { louvain } from './louvain'
+import { fetchEdgesBetween, fetchWholeGraph, toViewEdge, toViewNode, type GraphNodeRow, type GraphViewData } from './graph'
+
+// GraphRAG-style communities: Louvain clusters the whole graph into a
+// hierarchy, an LLM summarizes each community, and globalSearch answers broad
+// questions by map-reducing over those summaries instead of walking the graph.
+//
+// Summaries are marked stale by database triggers when a member node or an
+// edge touching one changes, and re-summarized on the next run.
+
+const PAGE_SIZE = 1000
+const INSERT_BATCH_SIZE = 500
+// Caps on what goes into a single summary prompt
+const MAX_PROMPT_NODES = 40
+const MAX_PROMPT_EDGES = 80
+const MAX_PROMPT_CHILDREN = 10
+
+export interface CommunityRow {
+  id: string
+  level: number
+  parent_id: string | null
+  size: number
+  member_hash: string
+  title: string | null
+  summary: string | null
+  findings: CommunityFinding[]
+  importance: number | null
+  is_stale: boolean
+  summarized_at: string | null
+  created_at?: string
+}
+
+export const communityReportSchema = z.object({
+  title: z.string().describe('Short name for the community, naming its most important entities'),
+  summary: z.string().describe('Two to four sentences on what the community is about and how its members relate'),
+  importance: z.number().min(0).max(10).describe('How significant this community is within the knowledge graph, 0-10'),
+  findings: z.array(z.object({
+    summary: z.string().describe('One-line key insight'),
+    explanation: z.string().describe('Supporting detail, grounded in the listed entities and relationships'),
+  })).max(5),
+})
+
+export type CommunityReport = z.infer<typeof communityReportSchema>
+export type CommunityFinding = CommunityReport['findings'][number]
+
+export interface DetectionOptions {
+  // Louvain resolution; higher values give more, smaller communities
+  resolution?: number
+  // Communities smaller than this aren't stored
+  minSize?: number
+  maxLevels?: number
+}
+
+export interface DetectionResult {
+  nodes: number
+  edges: number
+  levels: Array<{ level: number; communities: number; modularity: number }>
+  // Communities whose members didn't change and kept their summaries
+  reused: number
+}
+
+export interface SummaryOptions {
+  // Defaults to gpt-4o-mini; pass a mock model to run offline
+  model?: LanguageModel
+  // Re-summarize communities that aren't stale
+  force?: boolean
+  limit?: number
+  onCommunity?: (community: CommunityRow, report: CommunityReport) => void
+}
+
+// Run Louvain over the whole graph and replace the stored communities.
+// Summaries carry over to new communities with exactly the same members.
+export async function detectCommunities(
+  supabase: SupabaseClient,
+  options: DetectionOptions = {}
+): Promise<DetectionResult> {
+  const { resolution = 1, minSize = 2, maxLevels = 3 } = options
+  const graph = await fetchWholeGraph(supabase)
+  const nodeIds = graph.nodes.map(node => node.id)
+  const edges = graph.edges.map(edge => ({ source: edge.source_id, target: edge.target_id, weight: edge.weight ?? 1 }))
+  const { levels, modularity } = louvain(nodeIds, edges, { resolution, maxLevels })
+
+  // Members of each community, per level, keyed by community index
+  const grouped = levels.map(level => {
+    const groups = new Map<number, string[]>()
+    level.forEach((community, nodeId) => {
+      const members = groups.get(community) || []
+      members.push(nodeId)
+      groups.set(community, members)
+    })
+    return groups
+  })
+
+  const previous = await fetchReusableSummaries(supabase)
+  const result: DetectionResult = {
+    nodes: nodeIds.length,
+    edges: edges.length,
+    levels: [],
+    reused: 0,
+  }
+
+  // The new set is written before the old one is removed, so readers never
+  // see an empty graph; if writing fails, the old set stays
+  const oldIds = await fetchCommunityIds(supabase)
+  const newIds: string[] = []
+  try {
+    // Insert coarsest first so each level can point at its parents
+    let parentIds = new Map<number, string>()
+    for (let level = grouped.length - 1; level >= 0; level--) {
+      const parentLevel = levels[level + 1]
+      const communities = Array.from(grouped[level])
+        .filter(([, members]) => members.length >= minSize)
+        .map(([index, members]) => {
+          const memberHash = hashMembers(members)
+          const reuse = previous.get(`${level}:${memberHash}`)
+          if (reuse) result.reused++
+          return {
+            index,
+            members,
+            row: {
+              level,
+              parent_id: parentLevel ? parentIds.get(parentLevel.get(members[0])!) ?? null : null,
+              size: members.length,
+              member_hash: memberHash,
+              ...(reuse ?? {}),
+              is_stale: !reuse,
+            },
+          }
+        })
+
+      const ids = new Map<number, string>()
+      for (const batch of chunk(communities, INSERT_BATCH_SIZE)) {
+        const { data, error } = await supabase
+          .from('kg_communities')
+          .insert(batch.map(community => community.row))
+          .select('id')
+        if (error) throw error
+        data.forEach((row, i) => ids.set(batch[i].index, row.id))
+        newIds.push(...data.map(row => row.id))
+      }
+
+      const memberRows = communities.flatMap(community =>
+        community.members.map(nodeId => ({ community_id: ids.get(community.index)!, node_id: nodeId }))
+      )
+      for (const batch of chunk(memberRows, PAGE_SIZE)) {
+        const { error } = await supabase.from('kg_community_members').insert(batch)
+        if (error) throw error
+      }
+
+      result.levels.unshift({ level, communities: communities.length, modularity: modularity[level] })
+      parentIds = ids
+    }
+  } catch (error) {
+    await deleteCommunities(supabase, newIds)
+    throw error
+  }
+  await deleteCommunities(supabase, oldIds)
+
+  return result
+}
+
+// Write a report for every stale community, finest level first so coarser
+// communities can build on the summaries of their children
+export async function summarizeCommunities(
+  supabase: SupabaseClient,
+  options: SummaryOptions = {}
+): Promise<Array<{ community: CommunityRow; report: CommunityReport }>> {
+  let query = supabase
+    .from('kg_communities')
+    .select('*')
+    .order('level', { ascending: true })
+    .order('size', { ascending: false })
+  if (!options.force) query = query.eq('is_stale', true)
+  if (options.limit) query = query.limit(options.limit)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const results: Array<{ community: CommunityRow; report: CommunityReport }> = []
+  for (const community of (data || []) as CommunityRow[]) {
+    const report = await summarizeCommunity(supabase, community, options.model)
+
+    const { error: updateError } = await supabase
+      .from('kg_communities')
+      .update({ ...report, is_stale: false, summarized_at: new Date().toISOString() })
+      .eq('id', community.id)
+    if (updateError) throw updateError
+
+    options.onCommunity?.(community, report)
+    results.push({ community, report })
+  }
+
+  return results
+}
+
+export async function listCommunities(
+  supabase: SupabaseClient,
+  options: { level?: number; limit?: number } = {}
+): Promise<CommunityRow[]> {
+  let query = supabase
+    .from('kg_communities')
+    .select('*')
+    .order('level', { ascending: true })
+    .order('importance', { ascending: false, nullsFirst: false })
+    .order('size', { ascending: false })
+    .limit(options.limit ?? 100)
+  if (options.level !== undefined) query = query.eq('level', options.level)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+// Member nodes of each community and the edges between them, for display.
+// Large communities are cut to their first `limit` members.
+export async function fetchCommunityGraphs(
+  supabase: SupabaseClient,
+  communityIds: string[],
+  limit = 50
+): Promise<Map<string, GraphViewData>> {
+  const graphs = new Map<string, GraphViewData>()
+
+  for (const communityId of communityIds) {
+    const { data, error } = await supabase
+      .from('kg_community_members')
+      .select('kg_nodes(id, label, type, properties)')
+      .eq('community_id', communityId)
+      .limit(limit)
+    if (error) throw error
+
+    const nodes = (data || []).flatMap(row => (row.kg_nodes ?? []) as unknown as GraphNodeRow | GraphNodeRow[])
+    const edges = await fetchEdgesBetween(supabase, nodes.map(node => node.id))
+    graphs.set(communityId, { nodes: nodes.map(toViewNode), edges: edges.map(toViewEdge) })
+  }
+
+  return graphs
+}
+
+const SUMMARY_PROMPT = `You are writing a report on one community of a knowledge graph: a cluster of entities that are more connected to each other than to the rest of the graph.
+
+Rules:
+- Only use the entities, relationships and sub-community summaries given below
+- Name the most important entities in the title
+- Findings should be specific facts or patterns, not restatements of the summary`
+
+async function summarizeCommunity(
+  supabase: SupabaseClient,
+  community: CommunityRow,
+  model?: LanguageModel
+): Promise<CommunityReport> {
+  const { nodes, edges } = await loadCommunityContents(supabase, community.id)
+
+  // Favour the best-connected members when the community is too large to list
+  const degree = new Map<string, number>()
+  edges.forEach(edge => {
+    degree.set(edge.source_id, (degree.get(edge.source_id) || 0) + 1)
+    degree.set(edge.target_id, (degree.get(edge.target_id) || 0) + 1)
+  })
+  const shown = [...nodes]
+    .sort((a, b) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0))
+    .slice(0, MAX_PROMPT_NODES)
+  const labels = new Map(shown.map(node => [node.id, node.label]))
+
+  const entityLines = shown.map(node => {
+    const description = node.properties?.description ? `: ${node.properties.description}` : ''
+    return `- ${node.label}${node.type ? ` (${node.type})` : ''}${description}`
+  })
+  const relationshipLines = edges
+    .filter(edge => labels.has(edge.source_id) && labels.has(edge.target_id))
+    .slice(0, MAX_PROMPT_EDGES)
+    .map(edge => `- ${labels.get(edge.source_id)} → [${edge.relationship}] → ${labels.get(edge.target_id)}`)
+
+  const children = await loadChildSummaries(supabase, community.id)
+  const childLines = children.map(child => `- ${child.title}: ${child.summary}`)
+
+  const sections = [
+    `Entities (${shown.length} of ${nodes.length}):\n${entityLines.join('\n')}`,
+    `Relationships:\n${relationshipLines.join('\n') || '- none'}`,
+    ...(childLines.length > 0 ? [`Sub-communities:\n${childLines.join('\n')}`] : []),
+  ]
+
+  const { object } = await generateObject({
+    model: model ?? openai('gpt-4o-mini'),
+    schema: communityReportSchema,
+    prompt: `${SUMMARY_PROMPT}\n\n${sections.join('\n\n')}`,
+  })
+  return object
+}
+
+export interface GlobalSearchOptions {
+  model?: LanguageModel
+  // Community level to search; defaults to the finest level with at most
+  // maxCommunities summarized communities
+  level?: number
+  maxCommunities?: number
+  // Summaries per map call
+  batchSize?: number
+  // Points passed on to the reduce step
+  maxPoints?: number
+  // Write a final answer from the points; tools that let the chat model
+  // compose the answer can skip this call
+  synthesize?: boolean
+}
+
+export interface GlobalSearchPoint {
+  communityId: string
+  description: string
+  // 0-100, how useful the point is for answering the question
+  score: number
+}
+
+export interface GlobalSearchResult {
+  level: number | null
+  communities: CommunityRow[]
+  points: GlobalSearchPoint[]
+  answer: string | null
+}
+
+const mapResponseSchema = z.object({
+  points: z.array(z.object({
+    community: z.number().int().describe('Number of the community the point comes from'),
+    description: z.string().describe('A point relevant to the question, grounded in that community report'),
+    score: z.number().min(0).max(100).describe('How useful the point is for answering the question'),
+  })),
+})
+
+const MAP_PROMPT = `You are given a question and numbered reports about communities in a knowledge graph.
+List the points from these reports that help answer the question, each with the number of the report it came from and a score for how useful it is. If no report is relevant, return no points.`
+
+const REDUCE_PROMPT = `Answer the question using only the points below, which were gathered from community reports of a knowledge graph. Combine related points, put the most important first, and say so if the points don't answer the question.`
+
+// Map: score every community report against the query in parallel batches.
+// Reduce: keep the highest-scoring points and, unless synthesize is false,
+// write one answer from them.
+export async function globalSearch(
+  supabase: SupabaseClient,
+  query: string,
+  options: GlobalSearchOptions = {}
+): Promise<GlobalSearchResult> {
+  const { maxCommunities = 30, batchSize = 6, maxPoints = 20, synthesize = true } = options
+  const model = options.model ?? openai('gpt-4o-mini')
+
+  const level = options.level ?? await pickSearchLevel(supabase, maxCommunities)
+  if (level === null) return { level: null, communities: [], points: [], answer: null }
+
+  const { data, error } = await supabase
+    .from('kg_communities')
+    .select('*')
+    .eq('level', level)
+    .not('summary', 'is', null)
+    .order('importance', { ascending: false, nullsFirst: false })
+    .limit(maxCommunities)
+  if (error) throw error
+  const communities = (data || []) as CommunityRow[]
+
+  const mapped = await Promise.all(chunk(communities, batchSize).map(async (batch, batchIndex) => {
+    const offset = batchIndex * batchSize
+    const reports = batch.map((community, i) => `[${offset + i + 1}] ${formatReport(community)}`)
+    const { object } = await generateObject({
+      model,
+      schema: mapResponseSchema,
+      prompt: `${MAP_PROMPT}\n\nQuestion: ${query}\n\nReports:\n${reports.join('\n\n')}`,
+    })
+    return object.points.flatMap(point => {
+      const community = communities[point.community - 1]
+      if (!community || point.community <= offset || point.community > offset + batch.length) return []
+      return [{ communityId: community.id, description: point.description, score: point.score }]
+    })
+  }))
+
+  const points = mapped
+    .flat()
+    .filter(point => point.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxPoints)
+
+  let answer: string | null = null
+  if (synthesize && points.length > 0) {
+    const { text } = await generateText({
+      model,
+      prompt: `${REDUCE_PROMPT}\n\nQuestion: ${query}\n\nPoints:\n${points.map(point => `- (${point.score}) ${point.description}`).join('\n')}`,
+    })
+    answer = text
+  }
+
+  const cited = new Set(points.map(point => point.communityId))
+  return { level, communities: communities.filter(community => cited.has(community.id)), points, answer }
+}
+
+function formatReport(community: CommunityRow) {
+  const findings = (community.findings || []).map(finding => `  - ${finding.summary}: ${finding.explanation}`)
+  return [community.title ?? 'Untitled community', community.summary, ...findings].join('\n')
+}
+
+// Finest level small enough to map over in one search, else the coarsest
+async function pickSearchLevel(supabase: SupabaseClient, maxCommunities: number): Promise<number | null> {
+  const { data, error } = await supabase.from('kg_communities').select('level').not('summary', 'is', null)
+  if (error) throw error
+
+  const counts = new Map<number, number>()
+  for (const row of data || []) counts.set(row.level, (counts.get(row.level) || 0) + 1)
+  if (counts.size === 0) return null
+
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b)
+  return levels.find(level => counts.get(level)! <= maxCommunities) ?? levels[levels.length - 1]
+}
+
+async function loadCommunityContents(supabase: SupabaseClient, communityId: string) {
+  const nodes: GraphNodeRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('kg_community_members')
+      .select('kg_nodes(id, label, type, properties)')
+      .eq('community_id', communityId)
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    nodes.push(...(data || []).flatMap(row => (row.kg_nodes ?? []) as unknown as GraphNodeRow | GraphNodeRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const edges = []
+  const ids = new Set(nodes.map(node => node.id))
+  for (const batch of chunk(Array.from(ids), 500)) {
+    const { data, error } = await supabase.rpc('get_edges_for_nodes', { node_ids: batch })
+    if (error) throw error
+    for (const edge of (data || []) as Array<{ id: string; source_id: string; target_id: string; relationship: string }>) {
+      if (ids.has(edge.source_id) && ids.has(edge.target_id)) edges.push(edge)
+    }
+  }
+
+  // An edge between two batches comes back once per batch
+  const unique = new Map(edges.map(edge => [edge.id, edge]))
+  return { nodes, edges: Array.from(unique.values()) }
+}
+
+async function loadChildSummaries(supabase: SupabaseClient, communityId: string) {
+  const { data, error } = await supabase
+    .from('kg_communities')
+    .select('title, summary')
+    .eq('parent_id', communityId)
+    .not('summary', 'is', null)
+    .order('importance', { ascending: false, nullsFirst: false })
+    .limit(MAX_PROMPT_CHILDREN)
+  if (error) throw error
+  return (data || []) as Array<{ title: string; summary: string }>
+}
+
+// Summaries from the last run that can be reused, keyed by level:member_hash
+async function fetchCommunityIds(supabase: SupabaseClient) {
+  const ids: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('kg_communities')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    ids.push(...(data || []).map(row => row.id))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return ids
+}
+
+// Members go with their community
+async function deleteCommunities(supabase: SupabaseClient, ids: string[]) {
+  for (const batch of chunk(ids, INSERT_BATCH_SIZE)) {
+    const { error } = await supabase.from('kg_communities').delete().in('id', batch)
+    if (error) throw error
+  }
+}
+
+async function fetchReusableSummaries(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('kg_communities')
+    .select('level, member_hash, title, summary, findings, importance, summarized_at')
+    .eq('is_stale', false)
+    .not('summary', 'is', null)
+  if (error) throw error
+
+  const summaries = new Map<string, Omit<CommunityRow, 'id' | 'level' | 'parent_id' | 'size' | 'member_hash' | 'is_stale'>>()
+  for (const { level, member_hash, ...summary } of data || []) {
+    summaries.set(`${level}:${member_hash}`, summary)
+  }
+  return summaries
+}
+
+function hashMembers(nodeIds: string[]) {
+  return createHash('sha256').update([...nodeIds].sort().join(',')).digest('hex')
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size))
+  return batches
+}
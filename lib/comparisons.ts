@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { Citation } from './citations'
+import { CHAT_MODES, type ChatMode } from './conversations'
+import { GraphStoreError } from './graph-store'
+
+// Side-by-side comparisons: one question sent to the chat route in every
+// mode at once. The client measures each answer (latency, token usage, tool
+// calls, sources) and saves the run once all of them finish; the reviewer's
+// vote for the best answer and their notes are added to it afterwards.
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ComparisonAnswer {
+  mode: ChatMode
+  content: string
+  toolCalls: string[]
+  // From sending the question until the first streamed text
+  firstTokenMs: number | null
+  // Until the reply finished
+  latencyMs: number | null
+  usage: TokenUsage | null
+  citations: Citation[]
+  error: string | null
+}
+
+export interface ComparisonRow {
+  id: string
+  question: string
+  answers: ComparisonAnswer[]
+  winner: ChatMode | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Votes per mode across saved comparisons
+export type VoteTally = Record<ChatMode, number> & { unvoted: number }
+
+const answerSchema = z.object({
+  mode: z.enum(CHAT_MODES),
+  content: z.string(),
+  toolCalls: z.array(z.string()).default([]),
+  firstTokenMs: z.number().nonnegative().nullable().default(null),
+  latencyMs: z.number().nonnegative().nullable().default(null),
+  usage: z.object({
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+  }).nullable().default(null),
+  // Stored as streamed; the citation shapes are checked where they're made
+  citations: z.array(z.object({ id: z.number(), kind: z.string() }).passthrough()).default([]),
+  error: z.string().nullable().default(null),
+})
+
+export const comparisonSchema = z.object({
+  question: z.string().trim().min(1),
+  answers: z.array(answerSchema).min(1).max(CHAT_MODES.length)
+    .refine(answers => new Set(answers.map(answer => answer.mode)).size === answers.length, 'One answer per mode'),
+  winner: z.enum(CHAT_MODES).nullable().default(null),
+  notes: z.string().max(5000).nullable().default(null),
+})
+
+export const comparisonUpdateSchema = z.object({
+  winner: z.enum(CHAT_MODES).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+}).refine(update => update.winner !== undefined || update.notes !== undefined, 'Nothing to update')
+
+export const comparisonQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  // A mode, or none for comparisons still waiting for a vote
+  winner: z.enum([...CHAT_MODES, 'none']).optional(),
+})
+
+export async function listComparisons(
+  supabase: SupabaseClient,
+  query: z.input<typeof comparisonQuerySchema> = {}
+): Promise<ComparisonRow[]> {
+  const { limit, winner } = comparisonQuerySchema.parse(query)
+  let request = supabase
+    .from('chat_comparisons')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (winner === 'none') request = request.is('winner', null)
+  else if (winner) request = request.eq('winner', winner)
+
+  const { data, error } = await request
+  if (error) throw error
+  return data || []
+}
+
+export async function voteTally(supabase: SupabaseClient): Promise<VoteTally> {
+  const { data, error } = await supabase.from('chat_comparisons').select('winner')
+  if (error) throw error
+
+  const tally: VoteTally = { vector: 0, graph: 0, hybrid: 0, unvoted: 0 }
+  for (const row of (data || []) as Array<{ winner: ChatMode | null }>) {
+    tally[row.winner ?? 'unvoted'] += 1
+  }
+  return tally
+}
+
+export async function createComparison(
+  supabase: SupabaseClient,
+  input: z.input<typeof comparisonSchema>
+): Promise<ComparisonRow> {
+  const { data, error } = await supabase
+    .from('chat_comparisons')
+    .insert(comparisonSchema.parse(input))
+    .select('*')
+    .single()
+  if (error) throw error
+  return data
+}
+
+// Record or change the vote and notes; null clears either
+export async function updateComparison(
+  supabase: SupabaseClient,
+  id: string,
+  update: z.input<typeof comparisonUpdateSchema>
+): Promise<ComparisonRow> {
+  const { data, error } = await supabase
+    .from('chat_comparisons')
+    .update(comparisonUpdateSchema.parse(update))
+    .eq('id', id)
+    .select('*')
+    .maybeSingle()
+  if (error) throw translateError(error)
+  if (!data) throw new GraphStoreError(`Comparison ${id} not found`, 'not_found')
+  return data
+}
+
+export async function deleteComparison(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('chat_comparisons')
+    .delete()
+    .eq('id', id)
+    .select('id')
+  if (error) throw translateError(error)
+  if (!data?.length) throw new GraphStoreError(`Comparison ${id} not found`, 'not_found')
+}
+
+function translateError(error: { code?: string; message: string }) {
+  // Malformed UUIDs
+  if (error.code === '22P02') return new GraphStoreError('Comparison not found', 'not_found')
+  return error
+}
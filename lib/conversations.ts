@@ -0,0 +1,188 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Message } from 'ai'
+import { z } from 'zod'
+import { GraphStoreError } from './graph-store'
+
+// Chat threads stored in Supabase. The chat route saves each turn (the
+// user's message and the assistant's reply with its tool calls and
+// citations) once the reply finishes; the UI lists threads and resumes them
+// with the stored messages. Each message records the RAG mode it was sent
+// in, so a thread can span modes.
+
+export const CHAT_MODES = ['vector', 'graph', 'hybrid'] as const
+export type ChatMode = (typeof CHAT_MODES)[number]
+
+const TITLE_LENGTH = 80
+
+export interface ConversationRow {
+  id: string
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+interface MessageRow {
+  id: string
+  conversation_id: string
+  seq: number
+  role: Message['role']
+  content: string
+  mode: ChatMode | null
+  parts: Message['parts'] | null
+  tool_invocations: Message['toolInvocations'] | null
+  annotations: Message['annotations'] | null
+  created_at: string
+}
+
+// What the UI gets back: useChat's message shape plus the mode
+export type StoredMessage = Message & { mode: ChatMode | null }
+
+// Annotation streamed with each reply so the client knows its mode
+export type ModeAnnotation = { type: 'mode'; mode: ChatMode }
+
+export const conversationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  q: z.string().trim().min(1).optional(),
+})
+
+export const conversationUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+})
+
+export async function listConversations(
+  supabase: SupabaseClient,
+  query: z.input<typeof conversationQuerySchema> = {}
+): Promise<ConversationRow[]> {
+  const { limit, q } = conversationQuerySchema.parse(query)
+  let request = supabase
+    .from('chat_conversations')
+    .select('*')
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+  if (q) request = request.ilike('title', `%${q.replace(/[%_\\]/g, '\\$&')}%`)
+
+  const { data, error } = await request
+  if (error) throw error
+  return data || []
+}
+
+// A thread and its messages, oldest first
+export async function getConversation(
+  supabase: SupabaseClient,
+  id: string
+): Promise<{ conversation: ConversationRow; messages: StoredMessage[] }> {
+  const { data: conversation, error } = await supabase
+    .from('chat_conversations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw translateError(error)
+  if (!conversation) throw new GraphStoreError(`Conversation ${id} not found`, 'not_found')
+
+  const { data: rows, error: messagesError } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('conversation_id', id)
+    .order('seq')
+  if (messagesError) throw translateError(messagesError)
+
+  return { conversation, messages: ((rows || []) as MessageRow[]).map(toMessage) }
+}
+
+// Store a finished turn. Creates the thread on its first turn, titled after
+// the first user message; messages already stored are updated in place.
+export async function saveMessages(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messages: Message[],
+  mode: ChatMode
+) {
+  if (messages.length === 0) return
+
+  const firstUserMessage = messages.find(message => message.role === 'user')
+  const { error } = await supabase
+    .from('chat_conversations')
+    .upsert(
+      { id: conversationId, title: titleFrom(firstUserMessage?.content) },
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+  if (error) throw error
+
+  const { error: messagesError } = await supabase.from('chat_messages').upsert(
+    messages.map(message => ({
+      id: message.id,
+      conversation_id: conversationId,
+      role: message.role,
+      content: message.content,
+      mode,
+      parts: message.parts ?? null,
+      tool_invocations: message.toolInvocations ?? null,
+      annotations: message.annotations ?? null,
+      created_at: toTimestamp(message.createdAt),
+    })),
+    { onConflict: 'id' }
+  )
+  if (messagesError) throw messagesError
+
+  // Bump the thread to the top of the list
+  const { error: touchError } = await supabase
+    .from('chat_conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', conversationId)
+  if (touchError) throw touchError
+}
+
+export async function renameConversation(supabase: SupabaseClient, id: string, title: string): Promise<ConversationRow> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .update({ title: conversationUpdateSchema.parse({ title }).title })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle()
+  if (error) throw translateError(error)
+  if (!data) throw new GraphStoreError(`Conversation ${id} not found`, 'not_found')
+  return data
+}
+
+// Deletes the messages with it. Graph changes the thread made stay, and
+// stay in the change log under its id.
+export async function deleteConversation(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .delete()
+    .eq('id', id)
+    .select('id')
+  if (error) throw translateError(error)
+  if (!data?.length) throw new GraphStoreError(`Conversation ${id} not found`, 'not_found')
+}
+
+function toMessage(row: MessageRow): StoredMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    createdAt: new Date(row.created_at),
+    mode: row.mode,
+    ...(row.parts ? { parts: row.parts } : {}),
+    ...(row.tool_invocations ? { toolInvocations: row.tool_invocations } : {}),
+    ...(row.annotations ? { annotations: row.annotations } : {}),
+  }
+}
+
+function titleFrom(content: string | undefined) {
+  const text = (content || '').replace(/\s+/g, ' ').trim()
+  if (!text) return 'New conversation'
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text
+}
+
+// Messages arrive over JSON, so createdAt may be a string
+function toTimestamp(value: Date | string | undefined) {
+  const date = value ? new Date(value) : new Date()
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString()
+}
+
+function translateError(error: { code?: string; message: string }) {
+  // Malformed ids
+  if (error.code === '22P02') return new GraphStoreError('Conversation not found', 'not_found')
+  return error
+}
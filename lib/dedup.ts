@@ -0,0 +1,351 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { cardinalityConflicts, GraphStoreError, getNode, nodeEmbeddingText, reembedNodes, type NodeRow } from './graph-store'
+import { checkEdge, loadOntology } from './ontology'
+
+// Duplicate nodes: a scanner that pairs nodes whose labels or aliases
+// normalize to the same key, or whose embeddings are nearly identical, and a
+// merge that folds duplicates into one survivor through the merge_nodes SQL
+// function. Pairs a reviewer marks as distinct are remembered and skipped.
+
+const PAGE_SIZE = 1000
+// A key shared by more nodes than this is too generic to mean "same entity"
+const MAX_GROUP_SIZE = 20
+
+// Postgres error codes raised by merge_nodes
+const MERGE_INVALID = 'KG400'
+const NODE_NOT_FOUND = 'KG404'
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+// Company suffixes dropped before comparing labels ("Acme Corp." = "Acme")
+const LABEL_SUFFIXES = /\s+(corporation|corp|incorporated|inc|company|co|llc|ltd|limited|plc|gmbh)$/
+
+export type DuplicateReason = 'label' | 'alias' | 'embedding'
+
+export interface DuplicateNode {
+  id: string
+  label: string
+  type: string | null
+  aliases: string[]
+  degree: number
+  created_at?: string
+}
+
+export interface DuplicatePair {
+  a: DuplicateNode
+  b: DuplicateNode
+  reasons: DuplicateReason[]
+  // Embedding similarity, when the pair was found that way
+  similarity: number | null
+  // The better-connected node, or the older one on a tie
+  suggestedSurvivorId: string
+}
+
+export interface NodeMergeRow {
+  id: number
+  survivor_id: string
+  merged_ids: string[]
+  // The merged nodes as they were, without embeddings
+  merged_nodes: Array<Record<string, any>>
+  edges_moved: number
+  edges_merged: number
+  edges_dropped: number
+  actor: string | null
+  transaction_id: number
+  created_at: string
+}
+
+export const duplicateQuerySchema = z.object({
+  threshold: z.coerce.number().min(0.5).max(1).default(0.9),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+})
+
+export type DuplicateQuery = z.input<typeof duplicateQuerySchema>
+
+export const mergeSchema = z.object({
+  survivorId: z.string().uuid(),
+  duplicateIds: z.array(z.string().uuid()).min(1).max(50),
+  // Merge even if re-pointed edges break the ontology
+  force: z.boolean().optional().default(false),
+})
+
+export const dismissSchema = z.object({
+  nodeA: z.string().uuid(),
+  nodeB: z.string().uuid(),
+})
+
+// Lowercase, drop punctuation and company suffixes, collapse whitespace
+export function normalizeLabel(label: string) {
+  return label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(LABEL_SUFFIXES, '')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, '')
+}
+
+// ---------------------------------------------------------------------------
+// Scanning
+// ---------------------------------------------------------------------------
+
+// Likely duplicate pairs, strongest first: label matches, then alias
+// matches, then embedding neighbors by similarity
+export async function findDuplicates(supabase: SupabaseClient, query: DuplicateQuery = {}): Promise<DuplicatePair[]> {
+  const { threshold, limit } = duplicateQuerySchema.parse(query)
+  const nodes = await fetchNodes(supabase)
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const dismissed = await fetchDismissals(supabase)
+
+  const found = new Map<string, { reasons: Set<DuplicateReason>; similarity: number | null }>()
+  const add = (x: string, y: string, reason: DuplicateReason, similarity: number | null = null) => {
+    const key = pairKey(x, y)
+    if (x === y || dismissed.has(key)) return
+    const pair = found.get(key) ?? { reasons: new Set(), similarity: null }
+    pair.reasons.add(reason)
+    if (similarity !== null) pair.similarity = Math.max(pair.similarity ?? 0, similarity)
+    found.set(key, pair)
+  }
+
+  // Nodes sharing a normalized label are label matches; sharing a key only
+  // through an alias (on either side) is an alias match
+  const groups = new Map<string, Array<{ id: string; viaAlias: boolean }>>()
+  for (const node of nodes) {
+    const keys = new Map<string, boolean>()
+    keys.set(normalizeLabel(node.label), false)
+    for (const alias of node.aliases ?? []) {
+      const key = normalizeLabel(alias)
+      if (!keys.has(key)) keys.set(key, true)
+    }
+    for (const [key, viaAlias] of keys) {
+      if (!key) continue
+      groups.set(key, [...(groups.get(key) ?? []), { id: node.id, viaAlias }])
+    }
+  }
+  for (const members of groups.values()) {
+    if (members.length < 2 || members.length > MAX_GROUP_SIZE) continue
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const viaAlias = members[i].viaAlias || members[j].viaAlias
+        add(members[i].id, members[j].id, viaAlias ? 'alias' : 'label')
+      }
+    }
+  }
+
+  const { data, error } = await supabase.rpc('find_duplicate_candidates', {
+    similarity_threshold: threshold,
+    max_pairs: limit * 4,
+  })
+  if (error) throw error
+  for (const row of (data || []) as Array<{ node_a: string; node_b: string; similarity: number }>) {
+    if (byId.has(row.node_a) && byId.has(row.node_b)) add(row.node_a, row.node_b, 'embedding', row.similarity)
+  }
+
+  const rank = (pair: { reasons: Set<DuplicateReason>; similarity: number | null }) =>
+    (pair.reasons.has('label') ? 2 : 0) + (pair.reasons.has('alias') ? 1 : 0) + (pair.similarity ?? 0)
+  const ranked = Array.from(found.entries())
+    .sort(([, x], [, y]) => rank(y) - rank(x))
+    .slice(0, limit)
+
+  const degrees = await fetchDegrees(supabase, ranked.flatMap(([key]) => key.split('|')))
+  const summarize = (id: string): DuplicateNode => {
+    const node = byId.get(id)!
+    return {
+      id,
+      label: node.label,
+      type: node.type,
+      aliases: node.aliases ?? [],
+      degree: degrees.get(id) ?? 0,
+      created_at: node.created_at,
+    }
+  }
+
+  return ranked.map(([key, pair]) => {
+    const [a, b] = key.split('|').map(summarize)
+    return {
+      a,
+      b,
+      reasons: Array.from(pair.reasons),
+      similarity: pair.similarity === null ? null : Math.round(pair.similarity * 1000) / 1000,
+      suggestedSurvivorId: suggestSurvivor(a, b).id,
+    }
+  })
+}
+
+// Remember that two nodes are distinct so later scans skip them
+export async function dismissDuplicate(supabase: SupabaseClient, nodeA: string, nodeB: string, dismissedBy?: string) {
+  const [a, b] = pairKey(nodeA, nodeB).split('|')
+  if (a === b) throw new GraphStoreError('A node cannot be a duplicate of itself', 'invalid')
+
+  const { error } = await supabase
+    .from('kg_duplicate_dismissals')
+    .upsert({ node_a: a, node_b: b, dismissed_by: dismissedBy ?? null }, { onConflict: 'node_a,node_b', ignoreDuplicates: true })
+  if (error) throw translateError(error)
+  return { nodeA: a, nodeB: b }
+}
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+// Fold duplicates into the survivor. Edges move to the survivor, identical
+// edges are combined and edges between the merged nodes are dropped; the
+// survivor keeps its own values and takes the duplicates' labels as aliases.
+// Each edge and node change is in the change log under the transaction_id
+// recorded on the merge row.
+export async function mergeNodes(
+  supabase: SupabaseClient,
+  survivorId: string,
+  duplicateIds: string[],
+  options: { force?: boolean } = {}
+): Promise<{ merge: NodeMergeRow; node: NodeRow }> {
+  const before = await getNode(supabase, survivorId)
+  if (!options.force) await assertMergeFits(supabase, before, duplicateIds)
+
+  const { data, error } = await supabase.rpc('merge_nodes', { survivor_id: survivorId, duplicate_ids: duplicateIds })
+  if (error) throw translateError(error)
+
+  // Taking a missing type or description changes what the survivor embeds as
+  const node = await getNode(supabase, survivorId)
+  if (nodeEmbeddingText(node) !== nodeEmbeddingText(before)) await reembedNodes(supabase, [node])
+
+  return { merge: data as NodeMergeRow, node }
+}
+
+// Newest first; with nodeId, only merges into that node
+export async function listMerges(
+  supabase: SupabaseClient,
+  options: { nodeId?: string; limit?: number } = {}
+): Promise<NodeMergeRow[]> {
+  let request = supabase
+    .from('kg_node_merges')
+    .select('*')
+    .order('id', { ascending: false })
+    .limit(options.limit ?? 50)
+  if (options.nodeId) request = request.eq('survivor_id', options.nodeId)
+
+  const { data, error } = await request
+  if (error) throw translateError(error)
+  return data || []
+}
+
+// Moving a duplicate's edges onto the survivor can break the ontology when
+// their types differ, or push a one-per-node relationship over its limit
+async function assertMergeFits(supabase: SupabaseClient, survivor: NodeRow, duplicateIds: string[]) {
+  const ontology = await loadOntology(supabase)
+  if (ontology.nodeTypes.length === 0 && ontology.relationshipTypes.length === 0) return
+
+  const merged = new Set([survivor.id, ...duplicateIds])
+  const list = duplicateIds.join(',')
+  const { data: edges, error } = await supabase
+    .from('kg_edges')
+    .select('id, source_id, target_id, relationship')
+    .or(`source_id.in.(${list}),target_id.in.(${list})`)
+  if (error) throw translateError(error)
+
+  const moved = (edges || [])
+    .map(edge => ({
+      ...edge,
+      source_id: merged.has(edge.source_id) ? survivor.id : edge.source_id,
+      target_id: merged.has(edge.target_id) ? survivor.id : edge.target_id,
+    }))
+    .filter(edge => edge.source_id !== edge.target_id)
+  if (moved.length === 0) return
+
+  const otherIds = Array.from(new Set(moved.flatMap(edge => [edge.source_id, edge.target_id])))
+    .filter(id => id !== survivor.id)
+  const { data: others, error: othersError } = await supabase.from('kg_nodes').select('id, label, type').in('id', otherIds)
+  if (othersError) throw translateError(othersError)
+  const nodes = new Map<string, { label: string; type: string | null }>((others || []).map(node => [node.id, node]))
+  nodes.set(survivor.id, survivor)
+
+  const problems: string[] = []
+  for (const edge of moved) {
+    const source = nodes.get(edge.source_id)
+    const target = nodes.get(edge.target_id)
+    if (!source || !target) continue
+    const check = checkEdge(ontology, { relationship: edge.relationship, sourceType: source.type, targetType: target.type })
+    check.problems.forEach(problem => problems.push(`${source.label} → [${edge.relationship}] → ${target.label}: ${problem}`))
+  }
+  // The duplicates' own edges are rewritten or dropped by the merge, so they
+  // don't count as edges the other end already has
+  const conflicts = await cardinalityConflicts(supabase, ontology, moved, (edges || []).map(edge => edge.id))
+  conflicts.forEach(({ index, message }) => {
+    const edge = moved[index]
+    problems.push(`${nodes.get(edge.source_id)?.label} → [${edge.relationship}] → ${nodes.get(edge.target_id)?.label}: ${message}`)
+  })
+
+  if (problems.length > 0) {
+    throw new GraphStoreError(
+      `Merging into "${survivor.label}" would leave edges that don't fit the ontology: ${problems.join('; ')}`,
+      'invalid',
+      { problems }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function fetchNodes(supabase: SupabaseClient) {
+  const nodes: Array<{ id: string; label: string; type: string | null; aliases: string[] | null; created_at?: string }> = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('kg_nodes')
+      .select('id, label, type, aliases, created_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    nodes.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return nodes
+}
+
+async function fetchDismissals(supabase: SupabaseClient) {
+  const { data, error } = await supabase.from('kg_duplicate_dismissals').select('node_a, node_b')
+  if (error) throw error
+  return new Set((data || []).map(row => pairKey(row.node_a, row.node_b)))
+}
+
+async function fetchDegrees(supabase: SupabaseClient, ids: string[]) {
+  const degrees = new Map<string, number>()
+  const unique = Array.from(new Set(ids))
+  if (unique.length === 0) return degrees
+
+  for (const column of ['source_id', 'target_id'] as const) {
+    const { data, error } = await supabase.from('kg_edges').select(column).in(column, unique)
+    if (error) throw error
+    ;(data || []).forEach((row: Record<string, string>) => degrees.set(row[column], (degrees.get(row[column]) ?? 0) + 1))
+  }
+  return degrees
+}
+
+function suggestSurvivor(a: DuplicateNode, b: DuplicateNode) {
+  if (a.degree !== b.degree) return a.degree > b.degree ? a : b
+  return (b.created_at ?? '') < (a.created_at ?? '') ? b : a
+}
+
+// Same order as the table's node_a < node_b check; uuids compare like
+// their lowercase text
+function pairKey(x: string, y: string) {
+  const [a, b] = [x.toLowerCase(), y.toLowerCase()].sort()
+  return `${a}|${b}`
+}
+
+function translateError(error: { code?: string; message: string }) {
+  switch (error.code) {
+    case MERGE_INVALID:
+      return new GraphStoreError(error.message, 'invalid')
+    case NODE_NOT_FOUND:
+      return new GraphStoreError(error.message, 'not_found')
+    case INVALID_TEXT_REPRESENTATION:
+      return new GraphStoreError('Invalid node id', 'invalid')
+    default:
+      return error
+  }
+}
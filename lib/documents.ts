@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { chunkText, DEFAULT_CHUNKING } from './chunking'
+import { generateStoredEmbeddings } from './embeddings'
+
+export const chunkingSchema = z.object({
+  strategy: z.enum(['heading', 'fixed', 'sentence']).default('heading'),
+  maxTokens: z.number().int().min(1).max(8000).default(DEFAULT_CHUNKING.maxTokens),
+  overlap: z.number().int().min(0).default(DEFAULT_CHUNKING.overlap),
+  minChars: z.number().int().min(0).default(DEFAULT_CHUNKING.minChars),
+})
+
+export const ingestDocumentSchema = z.object({
+  title: z.string().min(1).max(500),
+  content: z.string().min(1),
+  format: z.enum(['markdown', 'text']).default('markdown'),
+  // Stable identifier (e.g. file path or URL) used to replace earlier versions
+  source: z.string().optional(),
+  replace: z.boolean().default(false),
+  metadata: z.record(z.any()).default({}),
+  chunking: chunkingSchema.default({}),
+})
+
+export type IngestDocumentInput = z.input<typeof ingestDocumentSchema>
+
+export interface IngestResult {
+  document: { id: string; title: string }
+  chunkCount: number
+  replaced: number
+  strategy: string
+}
+
+export async function ingestDocument(
+  supabase: SupabaseClient,
+  input: IngestDocumentInput
+): Promise<IngestResult> {
+  const { title, content, format, source, replace, metadata, chunking } = ingestDocumentSchema.parse(input)
+
+  const chunks = chunkText(content, { ...chunking, format })
+  if (chunks.length === 0) {
+    throw new Error('Document produced no chunks')
+  }
+
+  // Embed before touching the database so a provider failure leaves no partial document
+  const embeddings = await generateStoredEmbeddings(chunks.map(chunk => chunk.content))
+
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .insert({
+      title,
+      content,
+      metadata: {
+        ...metadata,
+        ...(source ? { source } : {}),
+        format,
+        chunking,
+      },
+    })
+    .select('id, title')
+    .single()
+
+  if (docError) throw docError
+
+  const { error: chunkError } = await supabase
+    .from('document_chunks')
+    .insert(chunks.map((chunk, i) => ({
+      document_id: doc.id,
+      chunk_index: chunk.index,
+      content: chunk.content,
+      ...embeddings[i],
+      metadata: {
+        strategy: chunking.strategy,
+        start_offset: chunk.startOffset,
+        end_offset: chunk.endOffset,
+        heading: chunk.heading,
+        heading_path: chunk.headingPath,
+        token_count: chunk.tokenCount,
+      },
+    })))
+
+  if (chunkError) {
+    // Don't leave a document without chunks behind
+    await supabase.from('documents').delete().eq('id', doc.id)
+    throw chunkError
+  }
+
+  // Only drop earlier versions once the new one is fully stored
+  let replaced = 0
+  if (source && replace) {
+    const { data: previous, error } = await supabase
+      .from('documents')
+      .delete()
+      .eq('metadata->>source', source)
+      .neq('id', doc.id)
+      .select('id')
+
+    if (error) throw error
+    replaced = previous?.length || 0
+  }
+
+  return {
+    document: doc,
+    chunkCount: chunks.length,
+    replaced,
+    strategy: chunking.strategy,
+  }
+}
+
+export async function fetchDocumentTitles(
+  supabase: SupabaseClient,
+  documentIds: Array<string | null | undefined>
+): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(documentIds.filter((id): id is string => !!id)))
+  const titles = new Map<string, string>()
+  if (ids.length === 0) return titles
+
+  const { data, error } = await supabase.from('documents').select('id, title').in('id', ids)
+  if (error) throw error
+  data?.forEach(doc => titles.set(doc.id, doc.title))
+  return titles
+}
@@ -0,0 +1,215 @@
+import OpenAI from 'openai'
+
+// Must match the vector(1536) columns in supabase/schema.sql
+export const EMBEDDING_DIMENSIONS = 1536
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small'
+
+// OpenAI accepts up to 2048 inputs per request; stay well below that
+const BATCH_SIZE = 100
+const MAX_INPUT_CHARS = 8000
+
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// Columns written with a vector. The database sets embedded_at whenever the
+// vector changes and clears it when the embedded text changes without one.
+export interface StoredEmbedding {
+  embedding: number[]
+  embedding_model: string
+}
+
+export class EmbeddingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message)
+    this.name = 'EmbeddingError'
+    if (options?.cause) this.cause = options.cause
+  }
+}
+
+interface OpenAIProviderOptions {
+  apiKey?: string
+  // Any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+  baseURL?: string
+  model?: string
+  dimensions?: number
+  name?: string
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): EmbeddingProvider {
+  const model = options.model || DEFAULT_OPENAI_MODEL
+  const dimensions = options.dimensions || EMBEDDING_DIMENSIONS
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: options.apiKey || (options.baseURL ? 'not-needed' : undefined),
+    baseURL: options.baseURL,
+  })
+
+  return {
+    name: options.name || (options.baseURL ? 'openai-compatible' : 'openai'),
+    model,
+    dimensions,
+    async embed(texts) {
+      const embeddings: number[][] = []
+
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const batch = texts.slice(i, i + BATCH_SIZE).map(text => text.slice(0, MAX_INPUT_CHARS))
+        const response = await client.embeddings.create({
+          model,
+          input: batch,
+          // Only the text-embedding-3 family can be shortened to a target size
+          ...(model.startsWith('text-embedding-3') ? { dimensions } : {}),
+        })
+        // The API may return items out of order, so sort by index
+        const sorted = [...response.data].sort((a, b) => a.index - b.index)
+        embeddings.push(...sorted.map(item => item.embedding))
+      }
+
+      return embeddings
+    },
+  }
+}
+
+// Deterministic feature-hashing embeddings for offline development and tests.
+// Words and character trigrams are hashed into a fixed number of buckets, so
+// texts sharing vocabulary end up close in cosine space. No network required.
+export function createHashingProvider(options: { dimensions?: number } = {}): EmbeddingProvider {
+  const dimensions = options.dimensions || EMBEDDING_DIMENSIONS
+
+  return {
+    name: 'hash',
+    model: `hash-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map(text => hashEmbedding(text, dimensions))
+    },
+  }
+}
+
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature)
+    // Use the top bit for the sign so collisions tend to cancel out
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * weight
+  }
+
+  for (const word of words) {
+    add(`w:${word}`, 1)
+    const padded = `#${word}#`
+    for (let i = 0; i < padded.length - 2; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.5)
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? vector : vector.map(v => v / norm)
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Provider selection via environment:
+//   EMBEDDING_PROVIDER  openai (default) | openai-compatible | hash
+//   EMBEDDING_MODEL     model name, defaults to text-embedding-3-small
+//   EMBEDDING_BASE_URL  endpoint for openai-compatible, e.g. http://localhost:11434/v1
+//   EMBEDDING_API_KEY   key for openai-compatible, defaults to OPENAI_API_KEY for openai
+export function createEmbeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const provider = env.EMBEDDING_PROVIDER || 'openai'
+
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new EmbeddingError('OPENAI_API_KEY is not set. Set it, or use EMBEDDING_PROVIDER=hash for offline development.')
+      }
+      return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.EMBEDDING_MODEL })
+    case 'openai-compatible':
+      if (!env.EMBEDDING_BASE_URL) {
+        throw new EmbeddingError('EMBEDDING_BASE_URL is required when EMBEDDING_PROVIDER=openai-compatible')
+      }
+      return createOpenAIProvider({
+        apiKey: env.EMBEDDING_API_KEY,
+        baseURL: env.EMBEDDING_BASE_URL,
+        model: env.EMBEDDING_MODEL,
+      })
+    case 'hash':
+      return createHashingProvider()
+    default:
+      throw new EmbeddingError(`Unknown EMBEDDING_PROVIDER "${provider}". Use openai, openai-compatible or hash.`)
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null = null
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    defaultProvider = createEmbeddingProviderFromEnv()
+  }
+  return defaultProvider
+}
+
+// Override the provider used by generateEmbedding(s), e.g. in scripts or tests
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  defaultProvider = provider
+}
+
+export async function generateEmbedding(text: string, provider?: EmbeddingProvider): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text], provider)
+  return embedding
+}
+
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[][]> {
+  if (texts.length === 0) return []
+
+  let embeddings: number[][]
+  try {
+    embeddings = await provider.embed(texts)
+  } catch (error) {
+    throw new EmbeddingError(
+      `Embedding with ${provider.name}/${provider.model} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    )
+  }
+
+  if (embeddings.length !== texts.length) {
+    throw new EmbeddingError(
+      `${provider.name}/${provider.model} returned ${embeddings.length} embeddings for ${texts.length} inputs`
+    )
+  }
+
+  const wrongSize = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS)
+  if (wrongSize) {
+    throw new EmbeddingError(
+      `${provider.name}/${provider.model} produced ${wrongSize.length}-dimensional embeddings, ` +
+      `but the database columns are vector(${EMBEDDING_DIMENSIONS}). ` +
+      'Use a model with matching dimensions or update supabase/schema.sql.'
+    )
+  }
+
+  return embeddings
+}
+
+// Embeddings ready to store, stamped with the model that made them so a
+// model change can be detected and re-embedded (see reembed.ts)
+export async function generateStoredEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<StoredEmbedding[]> {
+  const embeddings = await generateEmbeddings(texts, provider)
+  return embeddings.map(embedding => ({ embedding, embedding_model: provider.model }))
+}
@@ -0,0 +1,195 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateEmbedding } from './embeddings'
+
+// Resolves the free-text node names the model passes to graph tools
+// ("nasa", "ISS", "Space Station") to actual kg_nodes rows. Matching runs
+// from most to least precise and stops as soon as it has a confident answer:
+// id, exact label, case-insensitive label, alias, trigram-fuzzy, semantic.
+
+export type MatchType = 'id' | 'exact' | 'case_insensitive' | 'alias' | 'fuzzy' | 'semantic'
+
+export interface NodeCandidate {
+  id: string
+  label: string
+  type: string | null
+  properties: Record<string, any> | null
+  matchType: MatchType
+  confidence: number
+}
+
+export type ResolutionResult =
+  | { status: 'resolved'; query: string; node: NodeCandidate; candidates: NodeCandidate[] }
+  | { status: 'ambiguous'; query: string; candidates: NodeCandidate[] }
+  | { status: 'not_found'; query: string; candidates: NodeCandidate[] }
+
+export interface ResolveOptions {
+  // Candidates below this confidence are never auto-selected
+  minConfidence?: number
+  // If another candidate matched the same way is within this margin of the
+  // top match, ask instead of guessing
+  ambiguityMargin?: number
+  maxCandidates?: number
+  // Fall back to embedding similarity when lexical matching isn't confident
+  semantic?: boolean
+  // Restrict which match types may resolve automatically
+  allowedMatchTypes?: MatchType[]
+}
+
+const MATCH_CONFIDENCE: Record<Exclude<MatchType, 'fuzzy' | 'semantic'>, number> = {
+  id: 1,
+  exact: 1,
+  case_insensitive: 0.95,
+  alias: 0.9,
+}
+
+// Fuzzy and semantic scores are discounted so they never outrank a direct hit
+const FUZZY_WEIGHT = 0.85
+const SEMANTIC_WEIGHT = 0.8
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function resolveNode(
+  supabase: SupabaseClient,
+  query: string,
+  options: ResolveOptions = {}
+): Promise<ResolutionResult> {
+  const {
+    minConfidence = 0.5,
+    ambiguityMargin = 0.1,
+    maxCandidates = 5,
+    semantic = true,
+    allowedMatchTypes,
+  } = options
+  const text = query.trim()
+
+  if (UUID_PATTERN.test(text)) {
+    const { data, error } = await supabase
+      .from('kg_nodes')
+      .select('id, label, type, properties')
+      .eq('id', text)
+      .limit(1)
+    if (error) throw error
+    if (data?.[0]) {
+      const node: NodeCandidate = { ...data[0], matchType: 'id', confidence: MATCH_CONFIDENCE.id }
+      return { status: 'resolved', query, node, candidates: [node] }
+    }
+  }
+
+  const candidates = new Map<string, NodeCandidate>()
+  const addCandidate = (candidate: NodeCandidate) => {
+    const existing = candidates.get(candidate.id)
+    if (!existing || existing.confidence < candidate.confidence) {
+      candidates.set(candidate.id, candidate)
+    }
+  }
+
+  const { data: lexical, error: lexicalError } = await supabase.rpc('match_nodes_lexical', {
+    query: text,
+    match_count: maxCandidates * 2,
+  })
+  if (lexicalError) throw lexicalError
+
+  for (const row of lexical || []) {
+    const matchType = row.match_type as MatchType
+    addCandidate({
+      id: row.id,
+      label: row.label,
+      type: row.type,
+      properties: row.properties,
+      matchType,
+      confidence: matchType === 'fuzzy'
+        ? round(row.score * FUZZY_WEIGHT)
+        : MATCH_CONFIDENCE[matchType as keyof typeof MATCH_CONFIDENCE],
+    })
+  }
+
+  let ranked = rank(candidates, maxCandidates)
+  let decision = decide(query, ranked, { minConfidence, ambiguityMargin, allowedMatchTypes })
+
+  if (decision.status !== 'resolved' && semantic) {
+    const embedding = await generateEmbedding(text)
+    const { data: similar, error: semanticError } = await supabase.rpc('search_nodes_semantic', {
+      query_embedding: embedding,
+      match_threshold: minConfidence / SEMANTIC_WEIGHT,
+      match_count: maxCandidates,
+    })
+    if (semanticError) throw semanticError
+
+    for (const row of similar || []) {
+      addCandidate({
+        id: row.id,
+        label: row.label,
+        type: row.type,
+        properties: row.properties,
+        matchType: 'semantic',
+        confidence: round(row.similarity * SEMANTIC_WEIGHT),
+      })
+    }
+
+    ranked = rank(candidates, maxCandidates)
+    decision = decide(query, ranked, { minConfidence, ambiguityMargin, allowedMatchTypes })
+  }
+
+  return decision
+}
+
+function decide(
+  query: string,
+  candidates: NodeCandidate[],
+  options: Required<Pick<ResolveOptions, 'minConfidence' | 'ambiguityMargin'>> & Pick<ResolveOptions, 'allowedMatchTypes'>
+): ResolutionResult {
+  const eligible = candidates.filter(c =>
+    c.confidence >= options.minConfidence &&
+    (!options.allowedMatchTypes || options.allowedMatchTypes.includes(c.matchType))
+  )
+
+  if (eligible.length === 0) {
+    return { status: 'not_found', query, candidates }
+  }
+
+  // A weaker kind of match never makes a stronger one ambiguous: a single
+  // exact hit wins over nodes that only differ in case or have it as an alias
+  const [top] = eligible
+  const rival = eligible.find(c => c !== top && c.matchType === top.matchType)
+  if (rival && round(top.confidence - rival.confidence) < options.ambiguityMargin) {
+    return { status: 'ambiguous', query, candidates: eligible }
+  }
+
+  return { status: 'resolved', query, node: top, candidates }
+}
+
+function rank(candidates: Map<string, NodeCandidate>, limit: number) {
+  return Array.from(candidates.values())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000
+}
+
+// Tool-friendly explanation of why a name couldn't be resolved, so the model
+// can ask the user to pick a candidate instead of guessing.
+export function describeUnresolved(result: Exclude<ResolutionResult, { status: 'resolved' }>) {
+  const candidates = result.candidates.map(c => ({
+    id: c.id,
+    label: c.label,
+    type: c.type,
+    matchType: c.matchType,
+    confidence: c.confidence,
+  }))
+
+  if (result.status === 'ambiguous') {
+    return {
+      error: 'ambiguous',
+      message: `"${result.query}" matches several nodes. Ask the user which one they mean.`,
+      candidates,
+    }
+  }
+
+  return {
+    error: 'not_found',
+    message: `No node matches "${result.query}".`,
+    candidates,
+  }
+}
@@ -0,0 +1,447 @@
+import { generateText, wrapLanguageModel, type LanguageModelV1 } from 'ai'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { buildSystemPrompt, createChatTools } from './chat-tools'
+import { createCitationCollector, type Citation, type CitationCollector } from './citations'
+import { CHAT_MODES, type ChatMode } from './conversations'
+
+// Offline evaluation of the three RAG modes. Each golden question is asked
+// in every mode through the chat route's own tools and system prompts, and
+// the sources the tools cite are scored against what the question should
+// find: retrieval recall@k and MRR, whether the answer cites relevant
+// sources, and whether path answers follow the expected hops. The model is
+// pluggable: a scripted one needs no chat API calls, and a live model's
+// responses can be recorded and replayed so runs stay comparable between
+// commits.
+
+// Same step limit as the chat route
+const MAX_STEPS = 5
+// Sources the scripted model cites in its answer
+const ANSWER_CITATIONS = 3
+
+export const goldenQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  // Graph entities the question is about. The scripted model traverses
+  // from one, or looks for a path between two.
+  entities: z.array(z.string()).default([]),
+  expected: z.object({
+    // Document titles a relevant chunk comes from
+    documents: z.array(z.string()).default([]),
+    // Node labels the answer draws on
+    nodes: z.array(z.string()).default([]),
+    // Text a relevant chunk contains
+    passages: z.array(z.string()).default([]),
+    // Node labels along the path that answers the question, in order
+    path: z.array(z.string()).min(2).optional(),
+  }),
+  // Modes to ask in; all of them by default
+  modes: z.array(z.enum(CHAT_MODES)).optional(),
+})
+
+export const goldenSetSchema = z.object({
+  questions: z.array(goldenQuestionSchema).min(1),
+})
+
+export type GoldenQuestion = z.infer<typeof goldenQuestionSchema>
+
+export interface EvaluationRun {
+  question: GoldenQuestion
+  mode: ChatMode
+  citations: CitationCollector
+}
+
+// Builds the model that answers one question in one mode
+export type EvaluationModel = (run: EvaluationRun) => LanguageModelV1
+
+// What a model returned at each step of a run, keyed by question id and mode
+export type Recording = Record<string, RecordedStep[]>
+
+interface RecordedStep {
+  text?: string
+  toolCalls?: Array<{ toolName: string; args: string }>
+  finishReason: Awaited<ReturnType<LanguageModelV1['doGenerate']>>['finishReason']
+}
+
+export interface EvaluationMetrics {
+  // Share of the expected documents, nodes and passages in the top k sources
+  recallAtK: number | null
+  // Reciprocal rank of the first relevant source
+  mrr: number | null
+  // Share of the answer's [n] citations that point at a relevant source
+  citationCorrectness: number | null
+  // Overlap between the expected hops and the closest cited path
+  pathCorrectness: number | null
+}
+
+export interface QuestionResult {
+  id: string
+  mode: ChatMode
+  toolCalls: string[]
+  // Top k sources, in the order they were cited
+  sources: string[]
+  answer: string
+  // Citation numbers in the answer that no tool returned
+  invalidCitations: number[]
+  metrics: EvaluationMetrics
+  error?: string
+}
+
+export interface ModeSummary extends EvaluationMetrics {
+  mode: ChatMode
+  questions: number
+  errors: number
+}
+
+export interface EvaluationReport {
+  model: string
+  k: number
+  summary: ModeSummary[]
+  results: QuestionResult[]
+}
+
+export interface EvaluationOptions {
+  model: EvaluationModel
+  // Shown in the report
+  modelName: string
+  k?: number
+  modes?: ChatMode[]
+  onResult?: (result: QuestionResult) => void
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+export async function runEvaluation(
+  supabase: SupabaseClient,
+  questions: GoldenQuestion[],
+  options: EvaluationOptions
+): Promise<EvaluationReport> {
+  const k = options.k ?? 5
+  const modes = options.modes ?? [...CHAT_MODES]
+  const results: QuestionResult[] = []
+
+  for (const mode of modes) {
+    for (const question of questions) {
+      if (question.modes && !question.modes.includes(mode)) continue
+      const result = await evaluateQuestion(supabase, question, mode, options.model, k)
+      results.push(result)
+      options.onResult?.(result)
+    }
+  }
+
+  return { model: options.modelName, k, summary: modes.map(mode => summarize(mode, results)), results }
+}
+
+async function evaluateQuestion(
+  supabase: SupabaseClient,
+  question: GoldenQuestion,
+  mode: ChatMode,
+  model: EvaluationModel,
+  k: number
+): Promise<QuestionResult> {
+  const citations = createCitationCollector()
+  const messages = [{ role: 'user' as const, content: question.question }]
+
+  let answer = ''
+  let toolCalls: string[] = []
+  let error: string | undefined
+  try {
+    // Read-only tools: the model can't write to the graph during a run
+    const result = await generateText({
+      model: model({ question, mode, citations }),
+      system: await buildSystemPrompt(supabase, mode, messages, citations),
+      messages,
+      tools: createChatTools(supabase, mode, citations),
+      maxSteps: MAX_STEPS,
+    })
+    answer = result.text
+    // Tools that only exist in some modes make each call's type optional
+    toolCalls = result.steps.flatMap(step => step.toolCalls.flatMap(call => (call ? [call.toolName] : [])))
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const sources = citations.all()
+  const cited = citedNumbers(answer)
+  return {
+    id: question.id,
+    mode,
+    toolCalls,
+    sources: sources.slice(0, k).map(describeSource),
+    answer,
+    invalidCitations: cited.filter(id => !sources.some(source => source.id === id)),
+    metrics: scoreRun(question, sources, cited, k),
+    ...(error ? { error } : {}),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------
+
+// Answers without a chat model: calls the tool a model would most likely
+// pick for the mode, then cites the first sources those calls returned (or
+// the retrieved context, when it made none).
+export const scriptedModel: EvaluationModel = ({ question, mode, citations }) => {
+  let citedBefore: number | null = null
+
+  return staticModel('scripted', async prompt => {
+    if (!prompt.some(message => message.role === 'tool')) {
+      citedBefore = citations.all().length
+      const calls = plannedToolCalls(question, mode)
+      if (calls.length > 0) return { toolCalls: calls, finishReason: 'tool-calls' }
+    }
+
+    const all = citations.all()
+    const fromTools = all.slice(citedBefore ?? 0)
+    const cited = (fromTools.length > 0 ? fromTools : all).slice(0, ANSWER_CITATIONS)
+    const text = cited.length > 0
+      ? `Scripted answer to "${question.question}" ${cited.map(citation => `[${citation.id}]`).join('')}`
+      : 'No relevant sources found.'
+    return { text, finishReason: 'stop' }
+  })
+}
+
+// Passes calls through to a real model and keeps each response, so the run
+// can be replayed later without calling the model
+export function recordingModel(model: LanguageModelV1, recording: Recording): EvaluationModel {
+  return ({ question, mode }) => {
+    const steps: RecordedStep[] = (recording[runKey(question, mode)] = [])
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: async ({ doGenerate }) => {
+          const result = await doGenerate()
+          steps.push({
+            text: result.text,
+            toolCalls: result.toolCalls?.map(call => ({ toolName: call.toolName, args: call.args })),
+            finishReason: result.finishReason,
+          })
+          return result
+        },
+      },
+    })
+  }
+}
+
+// Replays recorded responses. Tools still run against the database, so
+// retrieval changes show up while the model's choices stay fixed.
+export function replayModel(recording: Recording): EvaluationModel {
+  return ({ question, mode }) => {
+    const key = runKey(question, mode)
+    const steps = recording[key]
+    let step = 0
+
+    return staticModel('replay', async () => {
+      const recorded = steps?.[step++]
+      if (!recorded) throw new Error(`No recorded response for ${key}, step ${step}`)
+      return recorded
+    })
+  }
+}
+
+function plannedToolCalls(question: GoldenQuestion, mode: ChatMode) {
+  const [from, to] = question.entities
+  const call = (toolName: string, args: Record<string, unknown>) => ({ toolName, args: JSON.stringify(args) })
+
+  switch (mode) {
+    case 'vector':
+      return [call('searchDocuments', { query: question.question })]
+    case 'graph':
+      if (to) return [call('findPath', { fromLabel: from, toLabel: to })]
+      if (from) return [call('traverseGraph', { nodeLabel: from })]
+      return [call('globalSearch', { query: question.question })]
+    case 'hybrid':
+      // Everything else is answered from the retrieved context
+      return to ? [call('findPath', { fromLabel: from, toLabel: to })] : []
+  }
+}
+
+function staticModel(
+  provider: string,
+  respond: (prompt: Parameters<LanguageModelV1['doGenerate']>[0]['prompt']) => Promise<RecordedStep>
+): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId: provider,
+    defaultObjectGenerationMode: undefined,
+    async doGenerate(options) {
+      const step = await respond(options.prompt)
+      return {
+        text: step.text,
+        toolCalls: step.toolCalls?.map((call, i) => ({ toolCallType: 'function', toolCallId: `call-${i}`, ...call })),
+        finishReason: step.finishReason,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      }
+    },
+    async doStream() {
+      throw new Error(`The ${provider} model only supports generateText`)
+    },
+  }
+}
+
+function runKey(question: GoldenQuestion, mode: ChatMode) {
+  return `${question.id}:${mode}`
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function scoreRun(question: GoldenQuestion, sources: Citation[], cited: number[], k: number): EvaluationMetrics {
+  const expected = expectedKeys(question)
+  const relevant = (source: Citation) => sourceKeys(source, question).some(key => expected.has(key))
+
+  let recallAtK: number | null = null
+  let mrr: number | null = null
+  let citationCorrectness: number | null = null
+  if (expected.size > 0) {
+    const found = new Set(sources.slice(0, k).flatMap(source => sourceKeys(source, question)))
+    recallAtK = [...expected].filter(key => found.has(key)).length / expected.size
+
+    const rank = sources.findIndex(relevant)
+    mrr = rank === -1 ? 0 : 1 / (rank + 1)
+
+    const correct = cited.filter(id => {
+      const source = sources.find(candidate => candidate.id === id)
+      return source !== undefined && relevant(source)
+    })
+    citationCorrectness = cited.length > 0 ? correct.length / cited.length : 0
+  }
+
+  let pathCorrectness: number | null = null
+  if (question.expected.path) {
+    const expectedHops = new Set(question.expected.path.slice(1).map((label, i) => hopKey(question.expected.path![i], label)))
+    const overlaps = sources
+      .filter(source => source.kind === 'path')
+      .map(path => {
+        const hops = new Set(path.hops.map(hop => hopKey(hop.source, hop.target)))
+        const shared = [...hops].filter(hop => expectedHops.has(hop)).length
+        return shared / (hops.size + expectedHops.size - shared)
+      })
+    pathCorrectness = Math.max(0, ...overlaps)
+  }
+
+  return { recallAtK, mrr, citationCorrectness, pathCorrectness }
+}
+
+function expectedKeys(question: GoldenQuestion) {
+  return new Set([
+    ...question.expected.documents.map(title => `document:${normalize(title)}`),
+    ...question.expected.nodes.map(label => `node:${normalize(label)}`),
+    ...question.expected.passages.map(text => `passage:${normalize(text)}`),
+  ])
+}
+
+// What a source counts as evidence for. A path or community covers every
+// node on it.
+function sourceKeys(source: Citation, question: GoldenQuestion): string[] {
+  switch (source.kind) {
+    case 'chunk': {
+      const content = normalize(source.content)
+      return [
+        ...(source.documentTitle ? [`document:${normalize(source.documentTitle)}`] : []),
+        ...question.expected.passages.filter(text => content.includes(normalize(text))).map(text => `passage:${normalize(text)}`),
+      ]
+    }
+    case 'node':
+      return [`node:${normalize(source.label)}`]
+    case 'path':
+      return source.hops.flatMap(hop => [`node:${normalize(hop.source)}`, `node:${normalize(hop.target)}`])
+    case 'community':
+      return source.graph.nodes.map(node => `node:${normalize(node.label)}`)
+  }
+}
+
+function describeSource(source: Citation) {
+  switch (source.kind) {
+    case 'chunk': return `[${source.id}] chunk: ${source.documentTitle ?? 'Unknown Document'}`
+    case 'node': return `[${source.id}] node: ${source.label}`
+    case 'path': return `[${source.id}] path: ${source.description}`
+    case 'community': return `[${source.id}] community: ${source.title}`
+  }
+}
+
+// Citation numbers in an answer, e.g. [2] or [1, 3]
+function citedNumbers(answer: string) {
+  const numbers = [...answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)]
+    .flatMap(match => match[1].split(',').map(Number))
+  return [...new Set(numbers)]
+}
+
+// Hops are compared without direction, since paths may walk edges backwards
+function hopKey(a: string, b: string) {
+  return [normalize(a), normalize(b)].sort().join('|')
+}
+
+// Chunks are raw markdown, so emphasis markers are ignored too
+function normalize(text: string) {
+  return text.replace(/[*`]/g, '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function summarize(mode: ChatMode, results: QuestionResult[]): ModeSummary {
+  const runs = results.filter(result => result.mode === mode)
+  const mean = (metric: keyof EvaluationMetrics) => {
+    const values = runs.map(run => run.metrics[metric]).filter((value): value is number => value !== null)
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  }
+
+  return {
+    mode,
+    questions: runs.length,
+    errors: runs.filter(run => run.error).length,
+    recallAtK: mean('recallAtK'),
+    mrr: mean('mrr'),
+    citationCorrectness: mean('citationCorrectness'),
+    pathCorrectness: mean('pathCorrectness'),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+// Rounded, with no timings or run dates, so reports from two commits diff
+// cleanly
+export function toReportJson(report: EvaluationReport) {
+  return JSON.stringify(report, (_key, value) => (typeof value === 'number' ? round(value) : value), 2) + '\n'
+}
+
+export function toReportMarkdown(report: EvaluationReport) {
+  const format = (value: number | null) => (value === null ? '–' : round(value).toFixed(3))
+  const lines = [
+    '# RAG Evaluation',
+    '',
+    `Model: \`${report.model}\` · k = ${report.k}`,
+    '',
+    `| Mode | Questions | Errors | Recall@${report.k} | MRR | Citation correctness | Path correctness |`,
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...report.summary.map(row =>
+      `| ${row.mode} | ${row.questions} | ${row.errors} | ${format(row.recallAtK)} | ${format(row.mrr)} | ${format(row.citationCorrectness)} | ${format(row.pathCorrectness)} |`
+    ),
+    '',
+    '## Questions',
+    '',
+    `| Question | Mode | Tools | Recall@${report.k} | MRR | Citations | Path |`,
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...report.results.map(result => {
+      const { metrics } = result
+      const tools = result.error ? `error: ${escapeCell(result.error)}` : result.toolCalls.join(', ') || '–'
+      return `| ${result.id} | ${result.mode} | ${tools} | ${format(metrics.recallAtK)} | ${format(metrics.mrr)} | ${format(metrics.citationCorrectness)} | ${format(metrics.pathCorrectness)} |`
+    }),
+  ]
+  return lines.join('\n') + '\n'
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000
+}
+
+function escapeCell(text: string, maxLength = 120) {
+  const cell = text.replace(/\|/g, '\\|').replace(/\s+/g, ' ')
+  return cell.length > maxLength ? `${cell.slice(0, maxLength - 1)}…` : cell
+}
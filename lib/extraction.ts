@@ -0,0 +1,322 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateObject, type LanguageModel } from 'ai'
+import { openai } from '@ai-sdk/openai'
+import { z } from 'zod'
+import { resolveNode } from './entity-resolution'
+import { fetchDocumentTitles } from './documents'
+import { cardinalityConflicts, embedNodes, reembedNodes } from './graph-store'
+import { checkEdge, checkNode, describeOntology, loadOntology, type Ontology } from './ontology'
+import { expandDate } from './temporal'
+
+// Structured output schema for entity/relationship extraction
+export const extractionSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string().describe('Canonical name of the entity, e.g. "NASA" rather than "the agency"'),
+    type: z.string().describe('Entity type (organization, person, concept, technology, place, event, etc)'),
+    description: z.string().describe('One sentence describing the entity based on the text'),
+  })),
+  relationships: z.array(z.object({
+    source: z.string().describe('Name of the source entity, must match an extracted entity'),
+    target: z.string().describe('Name of the target entity, must match an extracted entity'),
+    relationship: z.string().describe('Relationship type in snake_case, e.g. founded, operates, landed_on'),
+    evidence: z.string().describe('Short quote from the text supporting this relationship'),
+    validFrom: z.string().nullable().describe('When the relationship started (YYYY, YYYY-MM or YYYY-MM-DD) if the text says, otherwise null'),
+    validTo: z.string().nullable().describe('When the relationship ended, if the text says, otherwise null'),
+  })),
+})
+
+export type Extraction = z.infer<typeof extractionSchema>
+
+export interface ChunkRecord {
+  id: string
+  content: string
+  document_id: string | null
+  metadata?: Record<string, any> | null
+}
+
+export interface ExtractionOptions {
+  // Defaults to gpt-4o-mini; pass a mock model to run offline
+  model?: LanguageModel
+  documentId?: string
+  chunkIds?: string[]
+  // Re-extract chunks that were already processed
+  force?: boolean
+  // Extract without writing anything to the graph
+  dryRun?: boolean
+  limit?: number
+  onChunk?: (chunk: ChunkRecord, result: ChunkExtractionResult) => void
+}
+
+export interface ChunkExtractionResult {
+  chunkId: string
+  extraction: Extraction
+  nodesCreated: number
+  nodesMatched: number
+  edgesUpserted: number
+  // Entities and relationships dropped because they don't fit the ontology
+  // (or, for relationships, because an endpoint was dropped)
+  skippedEntities: number
+  skippedRelationships: number
+}
+
+const EXTRACTION_PROMPT = `Extract the entities and relationships stated in the text below for a knowledge graph.
+
+Rules:
+- Only extract facts explicitly stated in the text, never from general knowledge
+- Use the most complete, canonical name for each entity
+- Relationships must connect two entities from your entity list
+- Use short snake_case verbs for relationship types (founded, operates, develops, landed_on)
+- Prefer fewer, high-confidence facts over many speculative ones
+- Only give a relationship dates when the text states when it held`
+
+export async function extractFromText(
+  text: string,
+  options: { model?: LanguageModel; context?: string; ontology?: Ontology } = {}
+): Promise<Extraction> {
+  const { nodeTypes, relationships } = options.ontology ? describeOntology(options.ontology) : { nodeTypes: '', relationships: '' }
+  const ontology = [nodeTypes, relationships].filter(Boolean).join('\n\n')
+
+  const { object } = await generateObject({
+    model: options.model ?? openai('gpt-4o-mini'),
+    schema: extractionSchema,
+    prompt: `${EXTRACTION_PROMPT}\n\n${ontology ? `Only use these types; leave out facts that don't fit them.\n${ontology}\n\n` : ''}${options.context ? `Context: ${options.context}\n\n` : ''}Text:\n${text}`,
+  })
+
+  return normalizeExtraction(object)
+}
+
+// Clean up model output: trim names, snake_case relationships, drop
+// self-loops and relationships that reference unknown entities.
+export function normalizeExtraction(extraction: Extraction): Extraction {
+  const entities = new Map<string, Extraction['entities'][number]>()
+  for (const entity of extraction.entities) {
+    const name = entity.name.trim()
+    if (!name) continue
+    const key = name.toLowerCase()
+    if (!entities.has(key)) {
+      entities.set(key, { ...entity, name, type: entity.type.trim().toLowerCase() || 'entity' })
+    }
+  }
+
+  const relationships = extraction.relationships
+    .map(rel => ({
+      ...rel,
+      source: rel.source.trim(),
+      target: rel.target.trim(),
+      relationship: toSnakeCase(rel.relationship),
+      ...normalizeInterval(rel.validFrom, rel.validTo),
+    }))
+    .filter(rel =>
+      rel.relationship &&
+      rel.source.toLowerCase() !== rel.target.toLowerCase() &&
+      entities.has(rel.source.toLowerCase()) &&
+      entities.has(rel.target.toLowerCase())
+    )
+
+  return { entities: Array.from(entities.values()), relationships }
+}
+
+// Expand partial dates and drop ones that don't parse or run backwards
+function normalizeInterval(validFrom: string | null | undefined, validTo: string | null | undefined) {
+  const from = validFrom ? expandDate(validFrom, 'start') : null
+  const to = validTo ? expandDate(validTo, 'end') : null
+  return from && to && from > to ? { validFrom: null, validTo: null } : { validFrom: from, validTo: to }
+}
+
+export async function extractFromChunks(
+  supabase: SupabaseClient,
+  options: ExtractionOptions = {}
+): Promise<ChunkExtractionResult[]> {
+  const chunks = await loadChunks(supabase, options)
+  const titles = await fetchDocumentTitles(supabase, chunks.map(chunk => chunk.document_id))
+  const ontology = await loadOntology(supabase)
+  const modelId = options.model && typeof options.model !== 'string' ? options.model.modelId : 'gpt-4o-mini'
+  const results: ChunkExtractionResult[] = []
+
+  for (const chunk of chunks) {
+    const headingPath: string[] = chunk.metadata?.heading_path || []
+    const context = [titles.get(chunk.document_id || ''), ...headingPath].filter(Boolean).join(' > ')
+
+    const extraction = await extractFromText(chunk.content, { model: options.model, context, ontology })
+    const result = options.dryRun
+      ? dryRunResult(chunk.id, extraction)
+      : await applyExtraction(supabase, chunk, extraction, ontology)
+
+    if (!options.dryRun) {
+      const { error } = await supabase
+        .from('document_chunks')
+        .update({
+          metadata: {
+            ...(chunk.metadata || {}),
+            extraction: { extracted_at: new Date().toISOString(), model: modelId },
+          },
+        })
+        .eq('id', chunk.id)
+
+      if (error) throw error
+    }
+
+    options.onChunk?.(chunk, result)
+    results.push(result)
+  }
+
+  return results
+}
+
+// Upsert the extracted facts into kg_nodes/kg_edges and link each one
+// back to the chunk it came from. Facts that don't fit the ontology are
+// skipped rather than failing the chunk.
+export async function applyExtraction(
+  supabase: SupabaseClient,
+  chunk: Pick<ChunkRecord, 'id'>,
+  extraction: Extraction,
+  ontology?: Ontology
+): Promise<ChunkExtractionResult> {
+  const rules = ontology ?? await loadOntology(supabase)
+  const result: ChunkExtractionResult = {
+    chunkId: chunk.id,
+    extraction,
+    nodesCreated: 0,
+    nodesMatched: 0,
+    edgesUpserted: 0,
+    skippedEntities: 0,
+    skippedRelationships: 0,
+  }
+
+  const nodes = new Map<string, { id: string; type: string | null }>()
+  for (const entity of extraction.entities) {
+    const node = await upsertNode(supabase, entity, rules)
+    if (!node) {
+      result.skippedEntities++
+      continue
+    }
+    const { id, created } = node
+    nodes.set(entity.name.toLowerCase(), node)
+    if (created) result.nodesCreated++
+    else result.nodesMatched++
+
+    const { error } = await supabase
+      .from('kg_node_chunks')
+      .upsert({ node_id: id, chunk_id: chunk.id }, { onConflict: 'node_id,chunk_id' })
+    if (error) throw error
+  }
+
+  for (const rel of extraction.relationships) {
+    const source = nodes.get(rel.source.toLowerCase())
+    const target = nodes.get(rel.target.toLowerCase())
+    if (!source || !target) {
+      result.skippedRelationships++
+      continue
+    }
+
+    const fit = checkEdge(rules, { relationship: rel.relationship, sourceType: source.type, targetType: target.type })
+    const row = { source_id: source.id, target_id: target.id, relationship: fit.relationship }
+    if (fit.problems.length > 0 || (await cardinalityConflicts(supabase, rules, [row])).length > 0) {
+      result.skippedRelationships++
+      continue
+    }
+
+    const { data: edge, error } = await supabase
+      .from('kg_edges')
+      .upsert(
+        {
+          ...row,
+          // Only set dates the text gave, so re-extraction never clears them
+          ...(rel.validFrom ? { valid_from: rel.validFrom } : {}),
+          ...(rel.validTo ? { valid_to: rel.validTo } : {}),
+        },
+        { onConflict: 'source_id,target_id,relationship' }
+      )
+      .select('id')
+      .single()
+    if (error) throw error
+
+    const { error: linkError } = await supabase
+      .from('kg_edge_chunks')
+      .upsert(
+        { edge_id: edge.id, chunk_id: chunk.id, evidence: rel.evidence },
+        { onConflict: 'edge_id,chunk_id' }
+      )
+    if (linkError) throw linkError
+
+    result.edgesUpserted++
+  }
+
+  return result
+}
+
+// Null when the entity is new and its type isn't in the ontology
+async function upsertNode(
+  supabase: SupabaseClient,
+  entity: Extraction['entities'][number],
+  ontology: Ontology
+): Promise<{ id: string; type: string | null; created: boolean } | null> {
+  // Only merge into an existing node on a direct label or alias hit; fuzzy
+  // and semantic matches are too loose to apply without a human in the loop
+  const resolution = await resolveNode(supabase, entity.name, {
+    semantic: false,
+    allowedMatchTypes: ['exact', 'case_insensitive', 'alias'],
+  })
+
+  if (resolution.status !== 'not_found') {
+    const node = resolution.status === 'resolved' ? resolution.node : resolution.candidates[0]
+    // Fill in a missing description but never overwrite curated data
+    if (!node.properties?.description && entity.description) {
+      const properties = { ...(node.properties || {}), description: entity.description }
+      const { error: updateError } = await supabase.from('kg_nodes').update({ properties }).eq('id', node.id)
+      if (updateError) throw updateError
+      // The description is part of the embedded text
+      await reembedNodes(supabase, [{ ...node, properties }])
+    }
+    return { id: node.id, type: node.type, created: false }
+  }
+
+  const properties = { description: entity.description, source: 'extraction' }
+  const { type, problems } = checkNode(ontology, { type: entity.type, properties })
+  if (problems.length > 0) return null
+
+  const node = { label: entity.name, type, properties }
+  const [embedding] = await embedNodes([node])
+
+  const { data: created, error: insertError } = await supabase
+    .from('kg_nodes')
+    .insert({ ...node, ...embedding })
+    .select('id')
+    .single()
+  if (insertError) throw insertError
+
+  return { id: created.id, type, created: true }
+}
+
+async function loadChunks(supabase: SupabaseClient, options: ExtractionOptions): Promise<ChunkRecord[]> {
+  let query = supabase
+    .from('document_chunks')
+    .select('id, content, document_id, metadata')
+    .order('document_id')
+    .order('chunk_index')
+
+  if (options.documentId) query = query.eq('document_id', options.documentId)
+  if (options.chunkIds?.length) query = query.in('id', options.chunkIds)
+  if (!options.force) query = query.is('metadata->extraction', null)
+  if (options.limit) query = query.limit(options.limit)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+function dryRunResult(chunkId: string, extraction: Extraction): ChunkExtractionResult {
+  return {
+    chunkId,
+    extraction,
+    nodesCreated: 0,
+    nodesMatched: 0,
+    edgesUpserted: 0,
+    skippedEntities: 0,
+    skippedRelationships: 0,
+  }
+}
+
+function toSnakeCase(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
@@ -0,0 +1,77 @@
+import type { GraphViewData, GraphViewNode } from './graph'
+
+// Collapses dense neighborhoods for display: the leaves (nodes with a single
+// neighbor) hanging off a busy node are replaced by one cluster node per
+// type, e.g. "24 person", joined to the hub by a single edge. The canvas
+// expands a hub's clusters on request. Only the view changes; the graph data
+// and the database are untouched.
+
+const CLUSTER_PREFIX = 'cluster:'
+
+export interface LeafCluster {
+  id: string
+  hubId: string
+  type?: string
+  memberIds: string[]
+}
+
+export interface ClusterOptions {
+  // Fewer leaves of one type than this stay as they are
+  minSize?: number
+  // Hubs whose leaves are always shown
+  expanded?: Set<string>
+  // Nodes never hidden in a cluster, e.g. highlighted or selected ones
+  keep?: Set<string>
+}
+
+export const isClusterId = (id: string) => id.startsWith(CLUSTER_PREFIX)
+
+export function clusterLeaves(
+  graph: GraphViewData,
+  { minSize = 8, expanded = new Set(), keep = new Set() }: ClusterOptions = {}
+): { graph: GraphViewData; clusters: LeafCluster[] } {
+  const neighbors = new Map<string, Set<string>>()
+  for (const edge of graph.edges) {
+    if (edge.source === edge.target) continue
+    if (!neighbors.has(edge.source)) neighbors.set(edge.source, new Set())
+    if (!neighbors.has(edge.target)) neighbors.set(edge.target, new Set())
+    neighbors.get(edge.source)!.add(edge.target)
+    neighbors.get(edge.target)!.add(edge.source)
+  }
+
+  // Leaves grouped by hub and type
+  const groups = new Map<string, LeafCluster>()
+  for (const node of graph.nodes) {
+    const around = neighbors.get(node.id)
+    if (!around || around.size !== 1 || node.ghost || keep.has(node.id)) continue
+    const [hubId] = around
+    // Two nodes only connected to each other aren't a neighborhood
+    if (expanded.has(hubId) || neighbors.get(hubId)!.size === 1) continue
+    const id = `${CLUSTER_PREFIX}${hubId}:${node.type ?? ''}`
+    const group = groups.get(id) ?? { id, hubId, type: node.type, memberIds: [] }
+    groups.set(id, group)
+    group.memberIds.push(node.id)
+  }
+
+  const clusters = [...groups.values()].filter(cluster => cluster.memberIds.length >= minSize)
+  if (clusters.length === 0) return { graph, clusters }
+
+  const hidden = new Set(clusters.flatMap(cluster => cluster.memberIds))
+  const clusterNodes: GraphViewNode[] = clusters.map(cluster => ({
+    id: cluster.id,
+    label: `${cluster.memberIds.length} ${cluster.type ?? 'nodes'}`,
+    type: cluster.type,
+    description: 'Click to show them',
+  }))
+
+  return {
+    graph: {
+      nodes: [...graph.nodes.filter(node => !hidden.has(node.id)), ...clusterNodes],
+      edges: [
+        ...graph.edges.filter(edge => !hidden.has(edge.source) && !hidden.has(edge.target)),
+        ...clusters.map(cluster => ({ id: `${cluster.id}:edge`, source: cluster.hubId, target: cluster.id })),
+      ],
+    },
+    clusters,
+  }
+}
@@ -0,0 +1,478 @@
+import dagre from 'dagre'
+
+// Positions for the graph canvas. computeLayout runs one of the full layouts
+// (in a web worker for big graphs, see layout-runner.ts); after that, nodes
+// arriving from expansions and tool results are placed around a neighbor
+// that's already on the canvas, so nothing the user has been looking at (or
+// dragged into place) moves.
+//
+// All positions are top-left corners, as React Flow wants them, and every
+// layout is deterministic: the same graph always lands the same way.
+
+export const NODE_WIDTH = 150
+export const NODE_HEIGHT = 50
+
+export const LAYOUTS = ['hierarchical-tb', 'hierarchical-lr', 'force', 'radial', 'grouped'] as const
+export type LayoutName = (typeof LAYOUTS)[number]
+
+export const LAYOUT_LABELS: Record<LayoutName, string> = {
+  'hierarchical-tb': 'hierarchy ↓',
+  'hierarchical-lr': 'hierarchy →',
+  force: 'force',
+  radial: 'radial',
+  grouped: 'by type',
+}
+
+// New neighbors of one node go around it on rings of this spacing
+const RING_RADIUS = 180
+const RING_SIZE = 8
+// Spreads consecutive neighbors evenly without ever landing on the same angle
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+// Between the existing graph and a batch of unconnected new nodes
+const BLOCK_GAP = 120
+
+// Node boxes grow with their label, within these bounds
+const MIN_NODE_WIDTH = 100
+const MAX_NODE_WIDTH = 260
+const CHAR_WIDTH = 7
+
+// dagre's ranking gets slow past this; bigger graphs get a simpler layering
+const DAGRE_NODE_LIMIT = 1500
+const RANK_GAP = 100
+const NODE_GAP = 40
+
+// Force layout: preferred edge length, and how hard everything is pulled
+// toward the middle so separate components stay close
+const FORCE_DISTANCE = 160
+const FORCE_GRAVITY = 0.02
+
+// Radial layout: minimum gap between rings and between nodes on a ring
+const RADIAL_GAP = 220
+const RADIAL_SPACING = 170
+
+// Grouped layout: cell height inside a type's block, and gap between blocks
+const GROUP_CELL_HEIGHT = 90
+const GROUP_GAP = 160
+
+export interface XYPosition {
+  x: number
+  y: number
+}
+
+export interface LayoutNode {
+  id: string
+  label?: string
+  type?: string
+}
+
+export interface LayoutEdge {
+  source: string
+  target: string
+}
+
+// Everything a layout needs, in a shape that can be posted to a worker
+export interface LayoutRequest {
+  layout: LayoutName
+  nodes: LayoutNode[]
+  edges: LayoutEdge[]
+  // Center of the radial layout; defaults to the best-connected node
+  focusId?: string | null
+  // Starting positions for the force layout, e.g. the current canvas
+  initial?: Array<[string, XYPosition]>
+}
+
+export function nodeSize(node: LayoutNode) {
+  const width = node.label
+    ? Math.min(MAX_NODE_WIDTH, Math.max(MIN_NODE_WIDTH, node.label.length * CHAR_WIDTH + 40))
+    : NODE_WIDTH
+  return { width, height: NODE_HEIGHT }
+}
+
+export function computeLayout(request: LayoutRequest): Map<string, XYPosition> {
+  const ids = new Set(request.nodes.map(node => node.id))
+  const edges = request.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target) && edge.source !== edge.target)
+
+  const centers = (() => {
+    switch (request.layout) {
+      case 'hierarchical-tb': return hierarchical(request.nodes, edges, 'TB')
+      case 'hierarchical-lr': return hierarchical(request.nodes, edges, 'LR')
+      case 'force': return force(request.nodes, edges, new Map(request.initial || []))
+      case 'radial': return radial(request.nodes, edges, request.focusId)
+      case 'grouped': return grouped(request.nodes, edges)
+    }
+  })()
+
+  return new Map(request.nodes.map(node => {
+    const center = centers.get(node.id)!
+    const { width, height } = nodeSize(node)
+    return [node.id, { x: center.x - width / 2, y: center.y - height / 2 }]
+  }))
+}
+
+// Top-left positions from a top-to-bottom hierarchical layout
+export function layoutGraph(nodeIds: string[], edges: LayoutEdge[]): Map<string, XYPosition> {
+  return computeLayout({ layout: 'hierarchical-tb', nodes: nodeIds.map(id => ({ id })), edges })
+}
+
+// Positions for every node in nodeIds: existing ones keep theirs, new ones
+// connected (directly or through other new ones) to the placed graph go
+// around their first placed neighbor, and the rest get their own
+// hierarchical layout below everything else. Nodes not in nodeIds are dropped.
+export function placeNodes(
+  existing: Map<string, XYPosition>,
+  nodeIds: string[],
+  edges: LayoutEdge[]
+): Map<string, XYPosition> {
+  const positions = new Map<string, XYPosition>()
+  for (const id of nodeIds) {
+    const position = existing.get(id)
+    if (position) positions.set(id, position)
+  }
+  if (positions.size === 0) return layoutGraph(nodeIds, edges)
+
+  const neighbors = adjacency(edges)
+
+  // How many new nodes have been put around each anchor so far
+  const ringCounts = new Map<string, number>()
+  let pending = nodeIds.filter(id => !positions.has(id))
+
+  // Each pass places the nodes next to ones placed in the previous pass, so
+  // chains of new nodes grow outwards from the graph
+  while (pending.length > 0) {
+    const placed: Array<[string, XYPosition]> = []
+    for (const id of pending) {
+      const anchor = (neighbors.get(id) || []).find(neighbor => positions.has(neighbor))
+      if (!anchor) continue
+      const count = ringCounts.get(anchor) ?? 0
+      ringCounts.set(anchor, count + 1)
+      const center = positions.get(anchor)!
+      const radius = RING_RADIUS * (1 + Math.floor(count / RING_SIZE))
+      const angle = count * GOLDEN_ANGLE
+      placed.push([id, { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) }])
+    }
+    if (placed.length === 0) break
+    for (const [id, position] of placed) positions.set(id, position)
+    pending = pending.filter(id => !positions.has(id))
+  }
+
+  if (pending.length > 0) {
+    let left = Infinity
+    let bottom = -Infinity
+    for (const position of positions.values()) {
+      left = Math.min(left, position.x)
+      bottom = Math.max(bottom, position.y)
+    }
+    bottom += NODE_HEIGHT + BLOCK_GAP
+    for (const [id, position] of layoutGraph(pending, edges)) {
+      positions.set(id, { x: left + position.x, y: bottom + position.y })
+    }
+  }
+
+  return positions
+}
+
+// ---------------------------------------------------------------------------
+// Layouts. Each returns node centers.
+// ---------------------------------------------------------------------------
+
+function hierarchical(nodes: LayoutNode[], edges: LayoutEdge[], rankdir: 'TB' | 'LR'): Map<string, XYPosition> {
+  if (nodes.length > DAGRE_NODE_LIMIT) return layered(nodes, edges, rankdir)
+
+  const dagreGraph = new dagre.graphlib.Graph()
+  dagreGraph.setDefaultEdgeLabel(() => ({}))
+  dagreGraph.setGraph({ rankdir, ranksep: RANK_GAP, nodesep: RANK_GAP })
+  for (const node of nodes) dagreGraph.setNode(node.id, nodeSize(node))
+  for (const edge of edges) dagreGraph.setEdge(edge.source, edge.target)
+
+  dagre.layout(dagreGraph)
+
+  return new Map(nodes.map(node => {
+    const { x, y } = dagreGraph.node(node.id)
+    return [node.id, { x, y }]
+  }))
+}
+
+// Longest-path layering with one barycenter sweep: much cheaper than dagre
+// and good enough to read a big hierarchy. Cycles are broken at the node
+// with the fewest unplaced predecessors.
+function layered(nodes: LayoutNode[], edges: LayoutEdge[], rankdir: 'TB' | 'LR'): Map<string, XYPosition> {
+  const successors = new Map<string, string[]>()
+  const predecessors = new Map<string, string[]>()
+  for (const edge of edges) {
+    push(successors, edge.source, edge.target)
+    push(predecessors, edge.target, edge.source)
+  }
+
+  const unplacedPredecessors = new Map(nodes.map(node => [node.id, (predecessors.get(node.id) || []).length]))
+  const minLevel = new Map<string, number>()
+  const level = new Map<string, number>()
+  const queue = nodes.filter(node => unplacedPredecessors.get(node.id) === 0).map(node => node.id)
+  for (const id of queue) level.set(id, 0)
+
+  for (let head = 0; level.size < nodes.length || head < queue.length; head++) {
+    if (head === queue.length) {
+      let next: string | null = null
+      for (const node of nodes) {
+        if (level.has(node.id)) continue
+        if (next === null || unplacedPredecessors.get(node.id)! < unplacedPredecessors.get(next)!) next = node.id
+      }
+      level.set(next!, minLevel.get(next!) ?? 0)
+      queue.push(next!)
+    }
+
+    const id = queue[head]
+    for (const successor of successors.get(id) || []) {
+      if (level.has(successor)) continue
+      minLevel.set(successor, Math.max(minLevel.get(successor) ?? 0, level.get(id)! + 1))
+      unplacedPredecessors.set(successor, unplacedPredecessors.get(successor)! - 1)
+      if (unplacedPredecessors.get(successor) === 0) {
+        level.set(successor, minLevel.get(successor)!)
+        queue.push(successor)
+      }
+    }
+  }
+
+  const layers: string[][] = []
+  for (const id of queue) (layers[level.get(id)!] ??= []).push(id)
+
+  // Order each layer by the average position of its predecessors
+  const order = new Map<string, number>()
+  for (const layer of layers) {
+    if (!layer) continue
+    const barycenter = (id: string) => {
+      const placed = (predecessors.get(id) || []).filter(predecessor => order.has(predecessor))
+      return placed.length > 0 ? placed.reduce((sum, predecessor) => sum + order.get(predecessor)!, 0) / placed.length : Infinity
+    }
+    const sorted = layer.map(id => ({ id, at: barycenter(id) })).sort((a, b) => a.at - b.at)
+    sorted.forEach(({ id }, index) => order.set(id, index))
+    layer.splice(0, layer.length, ...sorted.map(({ id }) => id))
+  }
+
+  const sizes = new Map(nodes.map(node => [node.id, nodeSize(node)]))
+  const widest = Math.max(...[...sizes.values()].map(size => size.width))
+  const centers = new Map<string, XYPosition>()
+  layers.forEach((layer, depth) => {
+    if (!layer) return
+    if (rankdir === 'TB') {
+      const rowWidth = layer.reduce((sum, id) => sum + sizes.get(id)!.width + NODE_GAP, -NODE_GAP)
+      let x = -rowWidth / 2
+      for (const id of layer) {
+        const { width } = sizes.get(id)!
+        centers.set(id, { x: x + width / 2, y: depth * (NODE_HEIGHT + RANK_GAP) })
+        x += width + NODE_GAP
+      }
+    } else {
+      const columnHeight = layer.length * (NODE_HEIGHT + NODE_GAP) - NODE_GAP
+      layer.forEach((id, index) => centers.set(id, {
+        x: depth * (widest + RANK_GAP),
+        y: index * (NODE_HEIGHT + NODE_GAP) - columnHeight / 2,
+      }))
+    }
+  })
+  return centers
+}
+
+// Fruchterman-Reingold. Repulsion is only computed between nodes in
+// neighboring grid cells, which keeps each iteration close to linear.
+function force(nodes: LayoutNode[], edges: LayoutEdge[], initial: Map<string, XYPosition>): Map<string, XYPosition> {
+  const n = nodes.length
+  const index = new Map(nodes.map((node, i) => [node.id, i]))
+  const xs = new Float64Array(n)
+  const ys = new Float64Array(n)
+  nodes.forEach((node, i) => {
+    const start = initial.get(node.id)
+    if (start) {
+      xs[i] = start.x
+      ys[i] = start.y
+    } else {
+      // A sunflower spiral, so no two nodes start on top of each other
+      const radius = FORCE_DISTANCE * 0.5 * Math.sqrt(i)
+      xs[i] = radius * Math.cos(i * GOLDEN_ANGLE)
+      ys[i] = radius * Math.sin(i * GOLDEN_ANGLE)
+    }
+  })
+  const links = edges.map(edge => [index.get(edge.source)!, index.get(edge.target)!])
+
+  const k = FORCE_DISTANCE
+  const cellSize = 2 * k
+  const iterations = n > 5000 ? 60 : n > 2000 ? 100 : 250
+  const startTemperature = 3 * k
+  const dx = new Float64Array(n)
+  const dy = new Float64Array(n)
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    dx.fill(0)
+    dy.fill(0)
+
+    const grid = new Map<number, number[]>()
+    for (let i = 0; i < n; i++) push(grid, cellKey(Math.floor(xs[i] / cellSize), Math.floor(ys[i] / cellSize)), i)
+
+    for (let i = 0; i < n; i++) {
+      const cx = Math.floor(xs[i] / cellSize)
+      const cy = Math.floor(ys[i] / cellSize)
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (const j of grid.get(cellKey(cx + ox, cy + oy)) || []) {
+            if (j <= i) continue
+            let ddx = xs[i] - xs[j]
+            let ddy = ys[i] - ys[j]
+            let distanceSquared = ddx * ddx + ddy * ddy
+            if (distanceSquared === 0) {
+              ddx = 0.01 * (j - i)
+              ddy = 0.01
+              distanceSquared = ddx * ddx + ddy * ddy
+            }
+            if (distanceSquared > cellSize * cellSize) continue
+            const factor = (k * k) / distanceSquared
+            dx[i] += ddx * factor
+            dy[i] += ddy * factor
+            dx[j] -= ddx * factor
+            dy[j] -= ddy * factor
+          }
+        }
+      }
+    }
+
+    for (const [s, t] of links) {
+      const ddx = xs[s] - xs[t]
+      const ddy = ys[s] - ys[t]
+      const distance = Math.sqrt(ddx * ddx + ddy * ddy) || 0.01
+      const factor = distance / k
+      dx[s] -= ddx * factor
+      dy[s] -= ddy * factor
+      dx[t] += ddx * factor
+      dy[t] += ddy * factor
+    }
+
+    const temperature = startTemperature * (1 - iteration / iterations)
+    for (let i = 0; i < n; i++) {
+      dx[i] -= FORCE_GRAVITY * xs[i]
+      dy[i] -= FORCE_GRAVITY * ys[i]
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i])
+      if (length === 0) continue
+      const step = Math.min(length, temperature)
+      xs[i] += (dx[i] / length) * step
+      ys[i] += (dy[i] / length) * step
+    }
+  }
+
+  return new Map(nodes.map((node, i) => [node.id, { x: xs[i], y: ys[i] }]))
+}
+
+// Rings by hop distance from the focus, each node kept near the angle of
+// the node it was reached from. Nodes the focus can't reach form the outer
+// ring.
+function radial(nodes: LayoutNode[], edges: LayoutEdge[], focusId?: string | null): Map<string, XYPosition> {
+  const centers = new Map<string, XYPosition>()
+  if (nodes.length === 0) return centers
+
+  const neighbors = adjacency(edges)
+  const focus = focusId && nodes.some(node => node.id === focusId)
+    ? focusId
+    : nodes.reduce((best, node) =>
+        (neighbors.get(node.id)?.length ?? 0) > (neighbors.get(best)?.length ?? 0) ? node.id : best, nodes[0].id)
+
+  const parent = new Map<string, string | null>([[focus, null]])
+  const rings: string[][] = [[focus]]
+  for (let depth = 0; rings[depth]?.length; depth++) {
+    const next: string[] = []
+    for (const id of rings[depth]) {
+      for (const neighbor of neighbors.get(id) || []) {
+        if (parent.has(neighbor)) continue
+        parent.set(neighbor, id)
+        next.push(neighbor)
+      }
+    }
+    if (next.length > 0) rings.push(next)
+  }
+  const unreached = nodes.filter(node => !parent.has(node.id)).map(node => node.id)
+  if (unreached.length > 0) rings.push(unreached)
+
+  const angle = new Map<string, number>([[focus, 0]])
+  centers.set(focus, { x: 0, y: 0 })
+  let radius = 0
+  for (const ring of rings.slice(1)) {
+    const parentAngle = (id: string) => {
+      const from = parent.get(id)
+      return from ? angle.get(from)! : Infinity
+    }
+    const sorted = [...ring].sort((a, b) => parentAngle(a) - parentAngle(b))
+    radius = Math.max(radius + RADIAL_GAP, (sorted.length * RADIAL_SPACING) / (2 * Math.PI))
+    sorted.forEach((id, i) => {
+      const theta = (2 * Math.PI * i) / sorted.length
+      angle.set(id, theta)
+      centers.set(id, { x: radius * Math.cos(theta), y: radius * Math.sin(theta) })
+    })
+  }
+  return centers
+}
+
+// One block per node type, best-connected nodes first within each block;
+// the largest types come first and blocks wrap into rows
+function grouped(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, XYPosition> {
+  const degree = new Map<string, number>()
+  for (const edge of edges) {
+    degree.set(edge.source, (degree.get(edge.source) ?? 0) + 1)
+    degree.set(edge.target, (degree.get(edge.target) ?? 0) + 1)
+  }
+
+  const groups = new Map<string, LayoutNode[]>()
+  for (const node of nodes) push(groups, node.type ?? '', node)
+  const blocks = [...groups.values()]
+    .sort((a, b) => b.length - a.length)
+    .map(members => {
+      members.sort((a, b) => (degree.get(b.id) ?? 0) - (degree.get(a.id) ?? 0) || (a.label ?? a.id).localeCompare(b.label ?? b.id))
+      const cellWidth = Math.max(...members.map(member => nodeSize(member).width)) + NODE_GAP
+      const columns = Math.ceil(Math.sqrt(members.length))
+      return {
+        members,
+        cellWidth,
+        columns,
+        width: columns * cellWidth,
+        height: Math.ceil(members.length / columns) * GROUP_CELL_HEIGHT,
+      }
+    })
+
+  const area = blocks.reduce((sum, block) => sum + (block.width + GROUP_GAP) * (block.height + GROUP_GAP), 0)
+  const rowLimit = Math.max(Math.sqrt(area) * 1.2, ...blocks.map(block => block.width))
+
+  const centers = new Map<string, XYPosition>()
+  let x = 0
+  let y = 0
+  let rowHeight = 0
+  for (const block of blocks) {
+    if (x > 0 && x + block.width > rowLimit) {
+      x = 0
+      y += rowHeight + GROUP_GAP
+      rowHeight = 0
+    }
+    block.members.forEach((member, i) => centers.set(member.id, {
+      x: x + ((i % block.columns) + 0.5) * block.cellWidth,
+      y: y + (Math.floor(i / block.columns) + 0.5) * GROUP_CELL_HEIGHT,
+    }))
+    x += block.width + GROUP_GAP
+    rowHeight = Math.max(rowHeight, block.height)
+  }
+  return centers
+}
+
+// Exact for cells within ±32768 of the origin, far beyond any real layout
+function cellKey(cx: number, cy: number) {
+  return (cx + 32768) * 65536 + (cy + 32768)
+}
+
+// Undirected neighbor lists
+function adjacency(edges: LayoutEdge[]) {
+  const neighbors = new Map<string, string[]>()
+  for (const edge of edges) {
+    push(neighbors, edge.source, edge.target)
+    push(neighbors, edge.target, edge.source)
+  }
+  return neighbors
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key)
+  if (list) list.push(value)
+  else map.set(key, [value])
+}
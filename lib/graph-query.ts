@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { toViewEdge, toViewNode, type GraphEdgeRow, type GraphNodeRow, type GraphViewData } from './graph'
+import { temporalQueryFields, timeRangeParams, toTimeRange, type TimeRange } from './temporal'
+
+// Filtered, paginated subgraph queries so the UI never has to load the whole
+// graph at once. Filtering and paging happen in the query_subgraph SQL
+// function; this module parses request parameters and shapes the response.
+
+const list = z
+  .string()
+  .transform(value => value.split(',').map(item => item.trim()).filter(Boolean))
+  .optional()
+
+// Cursors are opaque to clients: the (depth, id) of the last node returned
+const cursorSchema = z.string().transform((value, ctx) => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof cursor.depth === 'number' && typeof cursor.id === 'string') {
+      return { depth: cursor.depth as number, id: cursor.id as string }
+    }
+  } catch {
+    // fall through to the issue below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' })
+  return z.NEVER
+})
+
+export const graphQuerySchema = z.object({
+  mode: z.enum(['subgraph', 'stats']).default('subgraph'),
+  // Node id or label to center the subgraph on
+  center: z.string().min(1).optional(),
+  depth: z.coerce.number().int().min(0).max(5).default(2),
+  types: list,
+  relationships: list,
+  q: z.string().min(1).optional(),
+  // Matched against node properties with JSONB containment, from prop.<key>=<value>
+  properties: z.record(z.any()).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+  cursor: cursorSchema.optional(),
+  // Only nodes and edges valid at asOf, or at some point between since and until
+  ...temporalQueryFields,
+})
+
+export type GraphQuery = z.infer<typeof graphQuerySchema>
+
+export interface SubgraphPage extends GraphViewData {
+  // Pass back as ?cursor= to fetch the next page; null on the last page
+  nextCursor: string | null
+}
+
+export interface GraphStats {
+  nodeCount: number
+  edgeCount: number
+  nodeTypes: Record<string, number>
+  relationshipTypes: Record<string, number>
+}
+
+// Parse URL search params. Property filters use a prop. prefix
+// (?prop.status=active&prop.year=2024); values are read as JSON when they
+// parse, so numbers and booleans match their stored types.
+export function parseGraphQuery(searchParams: URLSearchParams): GraphQuery {
+  const params: Record<string, unknown> = {}
+  const properties: Record<string, unknown> = {}
+
+  searchParams.forEach((value, key) => {
+    if (key.startsWith('prop.')) {
+      properties[key.slice(5)] = parsePropertyValue(value)
+    } else {
+      params[key] = value
+    }
+  })
+
+  if (Object.keys(properties).length > 0) params.properties = properties
+  return graphQuerySchema.parse(params)
+}
+
+export type SubgraphFilter = Omit<GraphQuery, 'mode' | 'center'> & { centerId?: string }
+
+export interface SubgraphRows {
+  nodes: Array<GraphNodeRow & { aliases: string[] | null; depth: number }>
+  edges: GraphEdgeRow[]
+  nextCursor: GraphQuery['cursor'] | null
+}
+
+// Edges returned are every edge touching a node on this page, so some may
+// point at nodes from later pages; clients should keep them until both ends
+// have loaded.
+export async function querySubgraph(supabase: SupabaseClient, query: SubgraphFilter): Promise<SubgraphPage> {
+  const { nodes, edges, nextCursor } = await fetchSubgraphRows(supabase, query)
+
+  return {
+    nodes: nodes.map(toViewNode),
+    edges: edges.map(toViewEdge),
+    nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
+  }
+}
+
+// Same query, returning full rows for callers that need every column
+export async function fetchSubgraphRows(supabase: SupabaseClient, query: SubgraphFilter): Promise<SubgraphRows> {
+  const during = toTimeRange(query)
+  const { data, error } = await supabase.rpc('query_subgraph', {
+    center_id: query.centerId ?? null,
+    max_depth: query.depth,
+    node_types: query.types?.length ? query.types : null,
+    relationship_types: query.relationships?.length ? query.relationships : null,
+    property_filter: query.properties ?? null,
+    search: query.q ?? null,
+    after_depth: query.cursor?.depth ?? null,
+    after_id: query.cursor?.id ?? null,
+    page_size: query.limit,
+    ...timeRangeParams(during),
+  })
+  if (error) throw error
+
+  const nodes: SubgraphRows['nodes'] = data || []
+  const edges = await fetchEdgesForNodes(supabase, nodes.map(node => node.id), query.relationships, during)
+
+  const last = nodes[nodes.length - 1]
+  const nextCursor = nodes.length === query.limit && last ? { depth: last.depth, id: last.id } : null
+
+  return { nodes, edges, nextCursor }
+}
+
+export async function fetchGraphStats(supabase: SupabaseClient): Promise<GraphStats> {
+  const { data, error } = await supabase.rpc('get_graph_stats')
+  if (error) throw error
+  return data as GraphStats
+}
+
+async function fetchEdgesForNodes(
+  supabase: SupabaseClient,
+  nodeIds: string[],
+  relationships?: string[],
+  during?: TimeRange | null
+): Promise<GraphEdgeRow[]> {
+  if (nodeIds.length === 0) return []
+
+  const { data, error } = await supabase.rpc('get_edges_for_nodes', {
+    node_ids: nodeIds,
+    relationship_types: relationships?.length ? relationships : null,
+    ...timeRangeParams(during),
+  })
+  if (error) throw error
+
+  return data || []
+}
+
+function encodeCursor(cursor: NonNullable<GraphQuery['cursor']>) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function parsePropertyValue(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
@@ -0,0 +1,598 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { generateStoredEmbeddings, type StoredEmbedding } from './embeddings'
+import { resolveNode, type NodeCandidate } from './entity-resolution'
+import type { GraphEdgeRow, GraphNodeRow } from './graph'
+import { cardinalityLimits, checkEdge, checkNode, loadOntology, type Ontology } from './ontology'
+import { INTERVAL_ORDER_MESSAGE, isOrderedInterval, temporalFields } from './temporal'
+
+// Create/read/update/delete for nodes and edges, shared by the REST routes
+// and the chat tools so both validate and embed the same way. Writes are
+// checked against the ontology (see ontology.ts).
+
+export type GraphStoreErrorCode = 'not_found' | 'ambiguous' | 'conflict' | 'invalid'
+
+export class GraphStoreError extends Error {
+  constructor(
+    message: string,
+    readonly code: GraphStoreErrorCode,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'GraphStoreError'
+  }
+}
+
+export interface NodeRow extends GraphNodeRow {
+  aliases: string[] | null
+}
+
+// Never send vectors back to clients
+const NODE_COLUMNS = 'id, label, type, properties, aliases, valid_from, valid_to, created_at, updated_at'
+const EDGE_COLUMNS = 'id, source_id, target_id, relationship, properties, weight, valid_from, valid_to, created_at, updated_at'
+
+// Postgres error codes surfaced through PostgREST
+const UNIQUE_VIOLATION = '23505'
+const FOREIGN_KEY_VIOLATION = '23503'
+const INVALID_TEXT_REPRESENTATION = '22P02'
+const CHECK_VIOLATION = '23514'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const nodeFields = {
+  label: z.string().trim().min(1).max(255).describe('Node label'),
+  type: z.string().trim().min(1).max(100).describe('Node type (concept, person, technology, etc)'),
+  properties: z.record(z.any()).describe('Free-form properties; "description" is used for search'),
+  aliases: z.array(z.string().trim().min(1)).describe('Alternative names or abbreviations, e.g. ["ISS"]'),
+  ...temporalFields,
+}
+
+export const edgeFields = {
+  relationship: z.string().trim().min(1).max(255).describe('Relationship type'),
+  properties: z.record(z.any()).describe('Free-form edge properties'),
+  weight: z.number().describe('Edge weight used by path finding'),
+  ...temporalFields,
+}
+
+export const nodeInputSchema = z.object({
+  label: nodeFields.label,
+  type: nodeFields.type.optional(),
+  properties: nodeFields.properties.optional().default({}),
+  aliases: nodeFields.aliases.optional().default([]),
+  valid_from: nodeFields.valid_from.optional(),
+  valid_to: nodeFields.valid_to.optional(),
+}).refine(isOrderedInterval, { message: INTERVAL_ORDER_MESSAGE, path: ['valid_to'] })
+
+// Properties are merged into the existing ones; set a key to null to remove it
+export const nodeUpdateSchema = z
+  .object({
+    label: nodeFields.label,
+    type: nodeFields.type.nullable(),
+    properties: nodeFields.properties,
+    aliases: nodeFields.aliases,
+    valid_from: nodeFields.valid_from,
+    valid_to: nodeFields.valid_to,
+  })
+  .partial()
+  .refine(update => Object.keys(update).length > 0, 'Provide at least one field to update')
+
+export const edgeInputSchema = z.object({
+  // Node ids or labels; labels are resolved like the graph tools resolve them
+  source: z.string().min(1).describe('Source node id or label'),
+  target: z.string().min(1).describe('Target node id or label'),
+  relationship: edgeFields.relationship,
+  properties: edgeFields.properties.optional().default({}),
+  weight: edgeFields.weight.optional().default(1),
+  valid_from: edgeFields.valid_from.optional(),
+  valid_to: edgeFields.valid_to.optional(),
+}).refine(isOrderedInterval, { message: INTERVAL_ORDER_MESSAGE, path: ['valid_to'] })
+
+export const edgeUpdateSchema = z
+  .object({
+    relationship: edgeFields.relationship,
+    properties: edgeFields.properties,
+    weight: edgeFields.weight,
+    valid_from: edgeFields.valid_from,
+    valid_to: edgeFields.valid_to,
+  })
+  .partial()
+  .refine(update => Object.keys(update).length > 0, 'Provide at least one field to update')
+
+export type NodeInput = z.input<typeof nodeInputSchema>
+export type NodeUpdate = z.input<typeof nodeUpdateSchema>
+export type EdgeInput = z.input<typeof edgeInputSchema>
+export type EdgeUpdate = z.input<typeof edgeUpdateSchema>
+
+type EmbeddableNode = { label: string; type?: string | null; properties?: Record<string, any> | null }
+
+// Text embedded for a node; changing any of these fields re-embeds it. The
+// track_embedding_freshness trigger compares the same fields.
+export function nodeEmbeddingText(node: EmbeddableNode) {
+  return [node.label, node.type, node.properties?.description].filter(Boolean).join(' - ')
+}
+
+// The embedding columns for nodes about to be written. Every node vector is
+// made here so they all embed the same text and carry a model stamp.
+export function embedNodes(nodes: EmbeddableNode[]): Promise<StoredEmbedding[]> {
+  return generateStoredEmbeddings(nodes.map(nodeEmbeddingText))
+}
+
+// Refresh the vectors of stored nodes, for writes that changed the embedded
+// text without going through updateNode
+export async function reembedNodes(supabase: SupabaseClient, nodes: Array<EmbeddableNode & { id: string }>) {
+  const embeddings = await embedNodes(nodes)
+  for (const [i, node] of nodes.entries()) {
+    const { error } = await supabase.from('kg_nodes').update(embeddings[i]).eq('id', node.id)
+    if (error) throw translateError(error, 'Node')
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Nodes
+// ---------------------------------------------------------------------------
+
+export async function listNodes(
+  supabase: SupabaseClient,
+  options: { type?: string; q?: string; limit?: number; offset?: number } = {}
+): Promise<NodeRow[]> {
+  const { limit = 100, offset = 0 } = options
+  let query = supabase
+    .from('kg_nodes')
+    .select(NODE_COLUMNS)
+    .order('label')
+    .range(offset, offset + limit - 1)
+
+  if (options.type) query = query.eq('type', options.type)
+  if (options.q) query = query.ilike('label', `%${options.q.replace(/[%_\\]/g, '\\$&')}%`)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+export async function getNode(supabase: SupabaseClient, id: string): Promise<NodeRow> {
+  const { data, error } = await supabase
+    .from('kg_nodes')
+    .select(NODE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw translateError(error, 'Node')
+  if (!data) throw new GraphStoreError(`Node ${id} not found`, 'not_found')
+  return data
+}
+
+// A node together with every edge touching it
+export async function getNodeWithEdges(supabase: SupabaseClient, id: string) {
+  // The id goes into a PostgREST filter string below
+  if (!UUID_PATTERN.test(id)) throw new GraphStoreError(`Node ${id} not found`, 'not_found')
+  const node = await getNode(supabase, id)
+  const { data, error } = await supabase
+    .from('kg_edges')
+    .select(EDGE_COLUMNS)
+    .or(`source_id.eq.${id},target_id.eq.${id}`)
+  if (error) throw error
+
+  const edges: GraphEdgeRow[] = data || []
+  return {
+    node,
+    outgoing: edges.filter(edge => edge.source_id === id),
+    incoming: edges.filter(edge => edge.target_id === id),
+  }
+}
+
+export async function createNode(supabase: SupabaseClient, input: NodeInput): Promise<NodeRow> {
+  const [node] = await createNodes(supabase, [input])
+  return node
+}
+
+export async function createNodes(supabase: SupabaseClient, inputs: NodeInput[]): Promise<NodeRow[]> {
+  if (inputs.length === 0) return []
+
+  const ontology = await loadOntology(supabase)
+  const nodes = inputs.map(input => {
+    const node = nodeInputSchema.parse(input)
+    return { ...node, type: assertNodeFits(ontology, node) ?? undefined }
+  })
+  // Embed before inserting so a provider failure writes nothing
+  const embeddings = await embedNodes(nodes)
+
+  const { data, error } = await supabase
+    .from('kg_nodes')
+    .insert(nodes.map((node, i) => ({ ...node, ...embeddings[i] })))
+    .select(NODE_COLUMNS)
+
+  if (error) throw translateError(error, 'Node')
+  return data || []
+}
+
+export async function updateNode(supabase: SupabaseClient, id: string, update: NodeUpdate): Promise<NodeRow> {
+  const patch = nodeUpdateSchema.parse(update)
+  const existing = await getNode(supabase, id)
+
+  const properties = patch.properties
+    ? mergeProperties(existing.properties || {}, patch.properties)
+    : existing.properties
+  const next = {
+    label: patch.label ?? existing.label,
+    type: patch.type === undefined ? existing.type : patch.type,
+    properties,
+  }
+  // Only re-check what changed, so nodes from before the ontology can
+  // still be renamed
+  if (patch.type !== undefined || patch.properties) {
+    const ontology = await loadOntology(supabase)
+    next.type = assertNodeFits(ontology, { ...next, label: next.label })
+    if (next.type !== existing.type) await assertRetypeKeepsEdges(supabase, ontology, existing, next)
+  }
+
+  const row: Record<string, unknown> = { ...next }
+  if (patch.aliases) row.aliases = patch.aliases
+  if (patch.valid_from !== undefined) row.valid_from = patch.valid_from
+  if (patch.valid_to !== undefined) row.valid_to = patch.valid_to
+
+  // Only pay for a new embedding when the embedded text actually changed
+  if (nodeEmbeddingText(next) !== nodeEmbeddingText(existing)) {
+    Object.assign(row, (await embedNodes([next]))[0])
+  }
+
+  const { data, error } = await supabase
+    .from('kg_nodes')
+    .update(row)
+    .eq('id', id)
+    .select(NODE_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw translateError(error, 'Node')
+  if (!data) throw new GraphStoreError(`Node ${id} not found`, 'not_found')
+  return data
+}
+
+// Deleting a node also deletes its edges (ON DELETE CASCADE)
+export async function deleteNodes(supabase: SupabaseClient, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('kg_nodes')
+    .delete()
+    .in('id', ids)
+    .select('id')
+
+  if (error) throw translateError(error, 'Node')
+  return (data || []).map(row => row.id)
+}
+
+// ---------------------------------------------------------------------------
+// Edges
+// ---------------------------------------------------------------------------
+
+export async function listEdges(
+  supabase: SupabaseClient,
+  options: { nodeId?: string; relationship?: string; limit?: number; offset?: number } = {}
+): Promise<GraphEdgeRow[]> {
+  const { limit = 100, offset = 0 } = options
+  let query = supabase
+    .from('kg_edges')
+    .select(EDGE_COLUMNS)
+    .order('created_at')
+    .range(offset, offset + limit - 1)
+
+  if (options.nodeId) {
+    if (!UUID_PATTERN.test(options.nodeId)) throw new GraphStoreError('nodeId must be a node id', 'invalid')
+    query = query.or(`source_id.eq.${options.nodeId},target_id.eq.${options.nodeId}`)
+  }
+  if (options.relationship) query = query.eq('relationship', options.relationship)
+
+  const { data, error } = await query
+  if (error) throw translateError(error, 'Edge')
+  return data || []
+}
+
+export async function getEdge(supabase: SupabaseClient, id: string): Promise<GraphEdgeRow> {
+  const { data, error } = await supabase
+    .from('kg_edges')
+    .select(EDGE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw translateError(error, 'Edge')
+  if (!data) throw new GraphStoreError(`Edge ${id} not found`, 'not_found')
+  return data
+}
+
+export async function createEdge(supabase: SupabaseClient, input: EdgeInput): Promise<GraphEdgeRow> {
+  const [edge] = await createEdges(supabase, [input])
+  return edge
+}
+
+// With skipExisting, edges that already exist are left alone instead of
+// failing the whole batch with a conflict
+export async function createEdges(
+  supabase: SupabaseClient,
+  inputs: EdgeInput[],
+  options: { skipExisting?: boolean } = {}
+): Promise<GraphEdgeRow[]> {
+  if (inputs.length === 0) return []
+
+  const edges = inputs.map(input => edgeInputSchema.parse(input))
+  const refs = Array.from(new Set(edges.flatMap(edge => [edge.source, edge.target])))
+  const resolved = new Map(await Promise.all(refs.map(async ref => [ref, await resolveNodeRef(supabase, ref)] as const)))
+
+  const ontology = await loadOntology(supabase)
+  const rows = edges.map(edge => ({
+    source_id: resolved.get(edge.source)!.id,
+    target_id: resolved.get(edge.target)!.id,
+    relationship: assertEdgeFits(ontology, {
+      relationship: edge.relationship,
+      source: resolved.get(edge.source)!,
+      target: resolved.get(edge.target)!,
+    }),
+    properties: edge.properties,
+    weight: edge.weight,
+    valid_from: edge.valid_from ?? null,
+    valid_to: edge.valid_to ?? null,
+  }))
+
+  const [conflict] = await cardinalityConflicts(supabase, ontology, rows)
+  if (conflict) throw new GraphStoreError(conflict.message, 'conflict', { existingEdgeId: conflict.existingEdgeId })
+
+  const { data, error } = options.skipExisting
+    ? await supabase
+      .from('kg_edges')
+      .upsert(rows, { onConflict: 'source_id,target_id,relationship', ignoreDuplicates: true })
+      .select(EDGE_COLUMNS)
+    : await supabase
+      .from('kg_edges')
+      .insert(rows)
+      .select(EDGE_COLUMNS)
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION && rows.length === 1) {
+      throw await edgeConflict(supabase, rows[0])
+    }
+    throw translateError(error, 'Edge')
+  }
+  return data || []
+}
+
+export async function updateEdge(supabase: SupabaseClient, id: string, update: EdgeUpdate): Promise<GraphEdgeRow> {
+  const patch = edgeUpdateSchema.parse(update)
+  const existing = await getEdge(supabase, id)
+
+  if (patch.properties) {
+    patch.properties = mergeProperties(existing.properties || {}, patch.properties)
+  }
+
+  // A new relationship has to fit the nodes the edge already connects
+  if (patch.relationship !== undefined) {
+    const ontology = await loadOntology(supabase)
+    const [source, target] = await Promise.all([getNode(supabase, existing.source_id), getNode(supabase, existing.target_id)])
+    patch.relationship = assertEdgeFits(ontology, { relationship: patch.relationship, source, target })
+
+    const [conflict] = await cardinalityConflicts(supabase, ontology, [{ ...existing, relationship: patch.relationship }], [id])
+    if (conflict) throw new GraphStoreError(conflict.message, 'conflict', { existingEdgeId: conflict.existingEdgeId })
+  }
+
+  const { data, error } = await supabase
+    .from('kg_edges')
+    .update(patch)
+    .eq('id', id)
+    .select(EDGE_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    // Renaming the relationship can collide with an existing edge
+    if (error.code === UNIQUE_VIOLATION) {
+      throw await edgeConflict(supabase, { ...existing, relationship: patch.relationship ?? existing.relationship })
+    }
+    throw translateError(error, 'Edge')
+  }
+  if (!data) throw new GraphStoreError(`Edge ${id} not found`, 'not_found')
+  return data
+}
+
+export async function deleteEdges(supabase: SupabaseClient, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('kg_edges')
+    .delete()
+    .in('id', ids)
+    .select('id')
+
+  if (error) throw translateError(error, 'Edge')
+  return (data || []).map(row => row.id)
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Resolve a node id or label, throwing instead of returning a result union
+export async function resolveNodeRef(supabase: SupabaseClient, ref: string): Promise<NodeCandidate> {
+  const result = await resolveNode(supabase, ref)
+  if (result.status === 'resolved') return result.node
+
+  const candidates = result.candidates.map(({ id, label, type, matchType, confidence }) => ({
+    id, label, type, matchType, confidence,
+  }))
+  throw result.status === 'ambiguous'
+    ? new GraphStoreError(`"${ref}" matches several nodes`, 'ambiguous', { query: ref, candidates })
+    : new GraphStoreError(`No node matches "${ref}"`, 'not_found', { query: ref, candidates })
+}
+
+// Throw if a node doesn't fit the ontology; returns its canonical type
+export function assertNodeFits(ontology: Ontology, node: { label: string; type?: string | null; properties?: Record<string, any> | null }) {
+  const { type, problems } = checkNode(ontology, node)
+  if (problems.length > 0) {
+    throw new GraphStoreError(`Node "${node.label}" doesn't fit the ontology: ${problems.join('; ')}`, 'invalid', { problems })
+  }
+  return type
+}
+
+// Throw if an edge doesn't fit the ontology; returns its canonical relationship
+export function assertEdgeFits(
+  ontology: Ontology,
+  edge: { relationship: string; source: { label: string; type: string | null }; target: { label: string; type: string | null } }
+) {
+  const { relationship, problems } = checkEdge(ontology, {
+    relationship: edge.relationship,
+    sourceType: edge.source.type,
+    targetType: edge.target.type,
+  })
+  if (problems.length > 0) {
+    throw new GraphStoreError(
+      `${edge.source.label} → [${edge.relationship}] → ${edge.target.label} doesn't fit the ontology: ${problems.join('; ')}`,
+      'invalid',
+      { problems }
+    )
+  }
+  return relationship
+}
+
+// Throw if giving a node a new type would break the domain or range of
+// edges it already has. Edges that didn't fit before aren't held against it.
+async function assertRetypeKeepsEdges(
+  supabase: SupabaseClient,
+  ontology: Ontology,
+  existing: NodeRow,
+  next: { label: string; type: string | null }
+) {
+  if (ontology.relationshipTypes.length === 0) return
+  const { data: edges, error } = await supabase
+    .from('kg_edges')
+    .select('source_id, target_id, relationship')
+    .or(`source_id.eq.${existing.id},target_id.eq.${existing.id}`)
+  if (error) throw translateError(error, 'Edge')
+  if (!edges || edges.length === 0) return
+
+  const otherIds = Array.from(new Set(edges.flatMap(edge => [edge.source_id, edge.target_id]))).filter(id => id !== existing.id)
+  const { data: others, error: othersError } = otherIds.length > 0
+    ? await supabase.from('kg_nodes').select('id, label, type').in('id', otherIds)
+    : { data: [], error: null }
+  if (othersError) throw translateError(othersError, 'Node')
+  const byId = new Map((others || []).map(node => [node.id as string, node as { label: string; type: string | null }]))
+
+  const problems = edges.flatMap(edge => {
+    const endpoint = (id: string, self: { label: string; type: string | null }) =>
+      id === existing.id ? self : byId.get(id) ?? { label: id, type: null }
+    const check = (self: { label: string; type: string | null }) => checkEdge(ontology, {
+      relationship: edge.relationship,
+      sourceType: endpoint(edge.source_id, self).type,
+      targetType: endpoint(edge.target_id, self).type,
+    }).problems
+    if (check(existing).length > 0) return []
+    const source = endpoint(edge.source_id, next).label
+    const target = endpoint(edge.target_id, next).label
+    return check(next).map(problem => `${source} → [${edge.relationship}] → ${target}: ${problem}`)
+  })
+
+  if (problems.length > 0) {
+    throw new GraphStoreError(
+      `Node "${next.label}" can't become ${next.type ?? 'untyped'} without breaking its edges: ${problems.join('; ')}`,
+      'invalid',
+      { problems }
+    )
+  }
+}
+
+// Edges that would break a relationship's cardinality, checked against the
+// stored edges and earlier rows in the same batch. Re-adding an edge that
+// already exists isn't a conflict here; the unique constraint handles it.
+// Stored edges in excludeEdgeIds, e.g. the ones being rewritten, don't count.
+export async function cardinalityConflicts(
+  supabase: SupabaseClient,
+  ontology: Ontology,
+  rows: Array<{ source_id: string; target_id: string; relationship: string }>,
+  excludeEdgeIds: string[] = []
+): Promise<Array<{ index: number; message: string; existingEdgeId: string | null }>> {
+  const conflicts: Array<{ index: number; message: string; existingEdgeId: string | null }> = []
+  const claimed = new Map<string, string>()
+
+  for (const [index, row] of rows.entries()) {
+    const definition = ontology.relationshipTypes.find(rel => rel.name === row.relationship)
+    if (!definition) continue
+    const { onePerSource, onePerTarget } = cardinalityLimits(definition.cardinality)
+
+    const ends = [
+      onePerSource && { column: 'source_id', id: row.source_id, other: 'target_id', otherId: row.target_id, limit: 'source' },
+      onePerTarget && { column: 'target_id', id: row.target_id, other: 'source_id', otherId: row.source_id, limit: 'target' },
+    ].filter(end => !!end)
+
+    for (const end of ends) {
+      const key = `${end.column}|${end.id}|${row.relationship}`
+      const batchEdge = claimed.get(key)
+      if (batchEdge !== undefined && batchEdge !== end.otherId) {
+        conflicts.push({ index, message: `"${row.relationship}" allows one edge per ${end.limit}, and this batch has two`, existingEdgeId: null })
+        break
+      }
+      claimed.set(key, end.otherId)
+      // A dry-run import's placeholder ids have no stored edges
+      if (!UUID_PATTERN.test(end.id)) continue
+
+      let query = supabase
+        .from('kg_edges')
+        .select('id')
+        .eq(end.column, end.id)
+        .eq('relationship', row.relationship)
+        .neq(end.other, end.otherId)
+        .limit(1)
+      if (excludeEdgeIds.length > 0) query = query.not('id', 'in', `(${excludeEdgeIds.join(',')})`)
+
+      const { data, error } = await query
+      if (error) throw translateError(error, 'Edge')
+      if (data?.[0]) {
+        conflicts.push({
+          index,
+          message: `"${row.relationship}" allows one edge per ${end.limit}, and that ${end.limit} already has one`,
+          existingEdgeId: data[0].id,
+        })
+        break
+      }
+    }
+  }
+  return conflicts
+}
+
+function mergeProperties(current: Record<string, any>, patch: Record<string, any>) {
+  const merged = { ...current, ...patch }
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key]
+  }
+  return merged
+}
+
+async function edgeConflict(
+  supabase: SupabaseClient,
+  edge: { source_id: string; target_id: string; relationship: string }
+) {
+  const { data } = await supabase
+    .from('kg_edges')
+    .select('id')
+    .eq('source_id', edge.source_id)
+    .eq('target_id', edge.target_id)
+    .eq('relationship', edge.relationship)
+    .maybeSingle()
+
+  return new GraphStoreError(
+    `A "${edge.relationship}" edge between these nodes already exists`,
+    'conflict',
+    { existingEdgeId: data?.id ?? null }
+  )
+}
+
+// Map constraint violations to store errors; anything else is rethrown as is
+function translateError(error: { code?: string; message: string }, entity: 'Node' | 'Edge') {
+  switch (error.code) {
+    case UNIQUE_VIOLATION:
+      return new GraphStoreError(`${entity} already exists`, 'conflict')
+    case FOREIGN_KEY_VIOLATION:
+      return new GraphStoreError('Referenced node not found', 'not_found')
+    case INVALID_TEXT_REPRESENTATION:
+      return new GraphStoreError(`${entity} not found`, 'not_found')
+    case CHECK_VIOLATION:
+      return new GraphStoreError(INTERVAL_ORDER_MESSAGE, 'invalid')
+    default:
+      return error
+  }
+}
@@ -0,0 +1,331 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { fetchSubgraphRows, type SubgraphFilter } from './graph-query'
+import { cardinalityConflicts, createNodes, edgeFields, nodeInputSchema } from './graph-store'
+import { resolveNode, type MatchType } from './entity-resolution'
+import type { PortableEdge, PortableGraph, PortableNode } from './interchange'
+import { checkEdge, checkNode, loadOntology } from './ontology'
+import { INTERVAL_ORDER_MESSAGE, isOrderedInterval } from './temporal'
+
+// Moves whole graphs (or filtered subgraphs) between the database and the
+// portable shape in interchange.ts.
+
+const EXPORT_PAGE_SIZE = 1000
+const NODE_BATCH_SIZE = 100
+const EDGE_BATCH_SIZE = 500
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const edgeValiditySchema = z
+  .object({ valid_from: edgeFields.valid_from, valid_to: edgeFields.valid_to })
+  .refine(isOrderedInterval, { message: INTERVAL_ORDER_MESSAGE, path: ['valid_to'] })
+
+export type ExportFilter = Partial<Omit<SubgraphFilter, 'cursor' | 'limit'>>
+
+export interface ImportOptions {
+  // Report what would happen without writing anything
+  dryRun?: boolean
+  // merge: reuse existing nodes with the same id, label or alias
+  // create: always create new nodes
+  mode?: 'merge' | 'create'
+}
+
+export interface ImportProblem {
+  kind: 'node' | 'edge'
+  index: number
+  message: string
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  mode: 'merge' | 'create'
+  nodes: { total: number; created: number; matched: number; skipped: number }
+  edges: { total: number; created: number; existing: number; duplicates: number; skipped: number }
+  // Imported id -> database id; null for nodes a dry run would create
+  idMap: Record<string, string | null>
+  matches: Array<{ importId: string; id: string; label: string; matchType: MatchType }>
+  problems: ImportProblem[]
+}
+
+// Collect every node matching the filter, and the edges between them
+export async function exportGraph(supabase: SupabaseClient, filter: ExportFilter = {}): Promise<PortableGraph> {
+  const query: SubgraphFilter = { ...filter, depth: filter.depth ?? (filter.centerId ? 2 : 0), limit: EXPORT_PAGE_SIZE }
+  const nodes = new Map<string, PortableNode>()
+  const edges = new Map<string, PortableEdge>()
+
+  let cursor: SubgraphFilter['cursor']
+  do {
+    const page = await fetchSubgraphRows(supabase, { ...query, cursor })
+    for (const node of page.nodes) {
+      nodes.set(node.id, {
+        id: node.id,
+        label: node.label,
+        type: node.type,
+        properties: node.properties || {},
+        aliases: node.aliases || [],
+        validFrom: node.valid_from ?? null,
+        validTo: node.valid_to ?? null,
+      })
+    }
+    for (const edge of page.edges) {
+      edges.set(edge.id, {
+        id: edge.id,
+        source: edge.source_id,
+        target: edge.target_id,
+        relationship: edge.relationship,
+        properties: edge.properties || {},
+        weight: edge.weight ?? 1,
+        validFrom: edge.valid_from ?? null,
+        validTo: edge.valid_to ?? null,
+      })
+    }
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()).filter(edge => nodes.has(edge.source) && nodes.has(edge.target)),
+  }
+}
+
+// Import ids are remapped to database ids: in merge mode nodes are matched
+// by id, then by exact label or alias, and only unmatched nodes are created.
+// Edges whose relationship already exists between the same nodes are left
+// alone. New nodes and edges that don't fit the ontology are skipped and
+// reported. Writes happen in batches, so a failure part way through leaves
+// the earlier batches in place.
+export async function importGraph(
+  supabase: SupabaseClient,
+  graph: PortableGraph,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const { dryRun = false, mode = 'merge' } = options
+  const report: ImportReport = {
+    dryRun,
+    mode,
+    nodes: { total: graph.nodes.length, created: 0, matched: 0, skipped: 0 },
+    edges: { total: graph.edges.length, created: 0, existing: 0, duplicates: 0, skipped: 0 },
+    idMap: {},
+    matches: [],
+    problems: [],
+  }
+
+  // Validate nodes and map each import id to an existing node or a new one.
+  // Until they're created, new nodes are keyed by the first import id that
+  // introduced them.
+  const idMap = new Map<string, string>()
+  // Node type for each mapped id, so edges can be checked against the ontology
+  const typeById = new Map<string, string | null>()
+  const ontology = await loadOntology(supabase)
+  const toCreate: Array<{ importIds: string[]; input: ReturnType<typeof nodeInputSchema.parse> }> = []
+  const pendingByLabel = new Map<string, (typeof toCreate)[number]>()
+  const existingById = mode === 'merge' ? await fetchExistingIds(supabase, graph.nodes.map(node => node.id)) : new Map()
+
+  for (const [index, node] of graph.nodes.entries()) {
+    if (!node.id || idMap.has(node.id)) {
+      report.problems.push({ kind: 'node', index, message: node.id ? `Duplicate node id "${node.id}"` : 'Node has no id' })
+      report.nodes.skipped++
+      continue
+    }
+
+    const parsed = nodeInputSchema.safeParse({
+      label: node.label,
+      type: node.type ?? undefined,
+      properties: node.properties,
+      aliases: node.aliases,
+      valid_from: node.validFrom ?? undefined,
+      valid_to: node.validTo ?? undefined,
+    })
+    if (!parsed.success) {
+      report.problems.push({ kind: 'node', index, message: parsed.error.issues.map(issue => issue.message).join('; ') })
+      report.nodes.skipped++
+      continue
+    }
+
+    if (mode === 'merge') {
+      const match = existingById.get(node.id) ?? await matchByLabel(supabase, parsed.data.label)
+      if (match) {
+        const { type, ...matched } = match
+        idMap.set(node.id, match.id)
+        typeById.set(match.id, type)
+        report.matches.push({ importId: node.id, ...matched })
+        report.nodes.matched++
+        continue
+      }
+
+      // Two import nodes with the same label become one new node
+      const pending = pendingByLabel.get(parsed.data.label.toLowerCase())
+      if (pending) {
+        pending.importIds.push(node.id)
+        idMap.set(node.id, `new:${pending.importIds[0]}`)
+        continue
+      }
+    }
+
+    // Only nodes that would be created have to fit the ontology
+    const { type, problems } = checkNode(ontology, parsed.data)
+    if (problems.length > 0) {
+      report.problems.push({ kind: 'node', index, message: problems.join('; ') })
+      report.nodes.skipped++
+      continue
+    }
+
+    const entry = { importIds: [node.id], input: { ...parsed.data, type: type ?? undefined } }
+    toCreate.push(entry)
+    pendingByLabel.set(parsed.data.label.toLowerCase(), entry)
+    idMap.set(node.id, `new:${node.id}`)
+    typeById.set(`new:${node.id}`, entry.input.type ?? null)
+  }
+
+  report.nodes.created = toCreate.length
+  if (!dryRun) {
+    for (const batch of chunk(toCreate, NODE_BATCH_SIZE)) {
+      const created = await createNodes(supabase, batch.map(entry => entry.input))
+      created.forEach((row, i) => batch[i].importIds.forEach(importId => {
+        typeById.set(row.id, row.type)
+        idMap.set(importId, row.id)
+      }))
+    }
+  }
+
+  // Map edge endpoints and drop duplicates, both within the file and
+  // against what's already stored between matched nodes
+  const existingEdges = await fetchExistingEdgeKeys(supabase, report.matches.map(match => match.id))
+  const seen = new Set<string>()
+  const rows: Array<{
+    source_id: string
+    target_id: string
+    relationship: string
+    properties: Record<string, any>
+    weight: number
+    valid_from: string | null
+    valid_to: string | null
+  }> = []
+  const rowIndexes: number[] = []
+
+  for (const [index, edge] of graph.edges.entries()) {
+    const missing = [edge.source, edge.target].filter(id => !idMap.has(id))
+    if (missing.length > 0 || !edge.relationship?.trim()) {
+      report.problems.push({
+        kind: 'edge',
+        index,
+        message: missing.length > 0 ? `Unknown node id(s): ${missing.join(', ')}` : 'Edge has no relationship',
+      })
+      report.edges.skipped++
+      continue
+    }
+
+    const validity = edgeValiditySchema.safeParse({ valid_from: edge.validFrom ?? null, valid_to: edge.validTo ?? null })
+    if (!validity.success) {
+      report.problems.push({ kind: 'edge', index, message: validity.error.issues.map(issue => issue.message).join('; ') })
+      report.edges.skipped++
+      continue
+    }
+
+    const source = idMap.get(edge.source)!
+    const target = idMap.get(edge.target)!
+    const fit = checkEdge(ontology, {
+      relationship: edge.relationship.trim(),
+      sourceType: typeById.get(source) ?? null,
+      targetType: typeById.get(target) ?? null,
+    })
+    if (fit.problems.length > 0) {
+      report.problems.push({ kind: 'edge', index, message: fit.problems.join('; ') })
+      report.edges.skipped++
+      continue
+    }
+
+    const relationship = fit.relationship
+    const key = edgeKey(source, target, relationship)
+
+    if (seen.has(key)) {
+      report.edges.duplicates++
+      continue
+    }
+    seen.add(key)
+
+    if (existingEdges.has(key)) {
+      report.edges.existing++
+      continue
+    }
+
+    rowIndexes.push(index)
+    rows.push({
+      source_id: source,
+      target_id: target,
+      relationship,
+      properties: edge.properties || {},
+      weight: edge.weight ?? 1,
+      ...validity.data,
+    })
+  }
+
+  // Rows between nodes a dry run would create can't clash with stored edges,
+  // but can still clash with each other
+  const conflicts = await cardinalityConflicts(supabase, ontology, rows)
+  const rejected = new Set(conflicts.map(conflict => conflict.index))
+  conflicts.forEach(conflict => {
+    report.problems.push({ kind: 'edge', index: rowIndexes[conflict.index], message: conflict.message })
+    report.edges.skipped++
+  })
+  const accepted = rows.filter((_, i) => !rejected.has(i))
+  report.edges.created = accepted.length
+
+  report.idMap = Object.fromEntries(
+    Array.from(idMap, ([importId, id]) => [importId, id.startsWith('new:') ? null : id])
+  )
+
+  if (!dryRun) {
+    for (const batch of chunk(accepted, EDGE_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from('kg_edges')
+        .upsert(batch, { onConflict: 'source_id,target_id,relationship', ignoreDuplicates: true })
+      if (error) throw error
+    }
+  }
+
+  return report
+}
+
+async function fetchExistingIds(supabase: SupabaseClient, ids: string[]) {
+  const matches = new Map<string, { id: string; label: string; type: string | null; matchType: MatchType }>()
+  const uuids = ids.filter(id => UUID_PATTERN.test(id))
+
+  for (const batch of chunk(uuids, 200)) {
+    const { data, error } = await supabase.from('kg_nodes').select('id, label, type').in('id', batch)
+    if (error) throw error
+    data?.forEach(row => matches.set(row.id, { id: row.id, label: row.label, type: row.type, matchType: 'id' }))
+  }
+  return matches
+}
+
+// Only direct label or alias hits; fuzzy matches are too loose to merge on
+async function matchByLabel(supabase: SupabaseClient, label: string) {
+  const result = await resolveNode(supabase, label, {
+    semantic: false,
+    allowedMatchTypes: ['exact', 'case_insensitive', 'alias'],
+  })
+  if (result.status !== 'resolved') return null
+  return { id: result.node.id, label: result.node.label, type: result.node.type, matchType: result.node.matchType }
+}
+
+async function fetchExistingEdgeKeys(supabase: SupabaseClient, nodeIds: string[]) {
+  const keys = new Set<string>()
+  for (const batch of chunk(Array.from(new Set(nodeIds)), 500)) {
+    const { data, error } = await supabase.rpc('get_edges_for_nodes', { node_ids: batch })
+    if (error) throw error
+    for (const edge of (data || []) as Array<{ source_id: string; target_id: string; relationship: string }>) {
+      keys.add(edgeKey(edge.source_id, edge.target_id, edge.relationship))
+    }
+  }
+  return keys
+}
+
+function edgeKey(source: string, target: string, relationship: string) {
+  return `${source}|${relationship}|${target}`
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size))
+  return batches
+}
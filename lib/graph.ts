@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Shared shapes for knowledge graph rows and the lighter-weight format the
+// graph visualization consumes.
+
+const WHOLE_GRAPH_PAGE_SIZE = 1000
+
+export interface GraphNodeRow {
+  id: string
+  label: string
+  type: string | null
+  properties: Record<string, any> | null
+  valid_from?: string | null
+  valid_to?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface GraphEdgeRow {
+  id: string
+  source_id: string
+  target_id: string
+  relationship: string
+  properties?: Record<string, any> | null
+  weight?: number | null
+  valid_from?: string | null
+  valid_to?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface GraphViewNode {
+  id: string
+  label: string
+  type?: string
+  description?: string
+  validFrom?: string
+  validTo?: string
+  // Pending proposal, drawn as a ghost until it's approved
+  ghost?: boolean
+  // Where to put the node when it first appears, e.g. where it was created
+  // on the canvas; later moves are kept by the canvas itself
+  position?: { x: number; y: number }
+}
+
+export interface GraphViewEdge {
+  id?: string
+  source: string
+  target: string
+  label?: string
+  validFrom?: string
+  validTo?: string
+  ghost?: boolean
+}
+
+export interface GraphViewData {
+  nodes: GraphViewNode[]
+  edges: GraphViewEdge[]
+}
+
+export function toViewNode(node: GraphNodeRow): GraphViewNode {
+  return {
+    id: node.id,
+    label: node.label,
+    type: node.type || undefined,
+    description: node.properties?.description,
+    validFrom: node.valid_from || undefined,
+    validTo: node.valid_to || undefined,
+  }
+}
+
+export function toViewEdge(edge: GraphEdgeRow): GraphViewEdge {
+  return {
+    id: edge.id,
+    source: edge.source_id,
+    target: edge.target_id,
+    label: edge.relationship,
+    validFrom: edge.valid_from || undefined,
+    validTo: edge.valid_to || undefined,
+  }
+}
+
+// All edges whose endpoints are both in the given node set
+export async function fetchEdgesBetween(supabase: SupabaseClient, nodeIds: string[]): Promise<GraphEdgeRow[]> {
+  if (nodeIds.length < 2) return []
+
+  const { data, error } = await supabase
+    .from('kg_edges')
+    .select('id, source_id, target_id, relationship, valid_from, valid_to')
+    .in('source_id', nodeIds)
+    .in('target_id', nodeIds)
+  if (error) throw error
+
+  return data || []
+}
+
+// Every node and edge, paged past PostgREST's row limit, for whole-graph
+// algorithms (communities, analytics). Embeddings and properties are left out.
+export async function fetchWholeGraph(supabase: SupabaseClient): Promise<{ nodes: GraphNodeRow[]; edges: GraphEdgeRow[] }> {
+  const nodes: GraphNodeRow[] = []
+  for (let from = 0; ; from += WHOLE_GRAPH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('kg_nodes')
+      .select('id, label, type, valid_from, valid_to')
+      .order('id')
+      .range(from, from + WHOLE_GRAPH_PAGE_SIZE - 1)
+    if (error) throw error
+    nodes.push(...(data || []).map(row => ({ ...row, properties: null })))
+    if (!data || data.length < WHOLE_GRAPH_PAGE_SIZE) break
+  }
+
+  const edges: GraphEdgeRow[] = []
+  for (let from = 0; ; from += WHOLE_GRAPH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('kg_edges')
+      .select('id, source_id, target_id, relationship, weight, valid_from, valid_to')
+      .order('id')
+      .range(from, from + WHOLE_GRAPH_PAGE_SIZE - 1)
+    if (error) throw error
+    edges.push(...(data || []))
+    if (!data || data.length < WHOLE_GRAPH_PAGE_SIZE) break
+  }
+
+  return { nodes, edges }
+}
+
+// Add incoming nodes and edges that aren't already present, keeping the
+// existing objects (and their order) for everything else
+export function mergeGraphData(current: GraphViewData, incoming: GraphViewData): GraphViewData {
+  const nodeIds = new Set(current.nodes.map(node => node.id))
+  const edgeKeys = new Set(current.edges.map(edgeKey))
+  const newNodes = incoming.nodes.filter(node => !nodeIds.has(node.id))
+  const newEdges = incoming.edges.filter(edge => !edgeKeys.has(edgeKey(edge)))
+  if (newNodes.length === 0 && newEdges.length === 0) return current
+  return { nodes: [...current.nodes, ...newNodes], edges: [...current.edges, ...newEdges] }
+}
+
+function edgeKey(edge: GraphViewEdge) {
+  return edge.id || `${edge.source}:${edge.label}:${edge.target}`
+}
@@ -0,0 +1,207 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { GraphStoreError, nodeEmbeddingText, reembedNodes } from './graph-store'
+
+// Change history for the graph. Triggers append every insert, update and
+// delete on kg_nodes/kg_edges to kg_changes; this module tags writes with
+// who made them, reads the log back, and undoes changes through the
+// revert_change and revert_turn SQL functions.
+
+export interface ChangeContext {
+  // Who made the change, e.g. "assistant", "api" or "script:extract"
+  actor?: string
+  conversationId?: string
+  // Id of the chat message whose answer made the change
+  turnId?: string
+  toolName?: string
+  // What the client making a REST request calls itself (X-Change-Client).
+  // Nothing checks it, so it's logged apart from the actor.
+  clientLabel?: string
+}
+
+export interface ChangeRow {
+  id: number
+  table_name: 'kg_nodes' | 'kg_edges'
+  record_id: string
+  operation: 'insert' | 'update' | 'delete'
+  // Row images without the embedding; old_row is null for inserts and
+  // new_row for deletes
+  old_row: Record<string, any> | null
+  new_row: Record<string, any> | null
+  node_ids: string[]
+  actor: string | null
+  conversation_id: string | null
+  turn_id: string | null
+  tool_name: string | null
+  client_label: string | null
+  reverts: number | null
+  transaction_id: number
+  created_at: string
+}
+
+export interface ChangeEntry extends ChangeRow {
+  // The change that undid this one, if any
+  revertedBy: number | null
+}
+
+// The log trigger reads these from PostgREST's request.headers setting
+const CHANGE_HEADERS: Record<keyof ChangeContext, string> = {
+  actor: 'x-change-actor',
+  conversationId: 'x-change-conversation',
+  turnId: 'x-change-turn',
+  toolName: 'x-change-tool',
+  clientLabel: 'x-change-client',
+}
+
+// Postgres error codes raised by revert_change/revert_turn
+const CHANGE_NOT_FOUND = 'KG404'
+const REVERT_CONFLICT = 'KG409'
+const UNIQUE_VIOLATION = '23505'
+const FOREIGN_KEY_VIOLATION = '23503'
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+// Header values must be printable ASCII
+export function changeHeaders(context: ChangeContext = {}): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const [key, header] of Object.entries(CHANGE_HEADERS) as Array<[keyof ChangeContext, string]>) {
+    const value = context[key]?.replace(/[^\x20-\x7e]/g, '').trim().slice(0, 200)
+    if (value) headers[header] = value
+  }
+  return headers
+}
+
+// REST writes are always logged under the "api" actor; the caller's own
+// X-Change-Client header only becomes the unverified client label
+export function requestChangeContext(req: Request): ChangeContext {
+  return { actor: 'api', clientLabel: req.headers.get('x-change-client') || undefined }
+}
+
+export const changeQuerySchema = z.object({
+  conversationId: z.string().min(1).optional(),
+  turnId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  // Change id to page backwards from; pass the last id of the previous page
+  before: z.coerce.number().int().optional(),
+})
+
+export type ChangeQuery = z.input<typeof changeQuerySchema>
+
+export const revertSchema = z.union([
+  z.object({
+    changeId: z.number().int(),
+    force: z.boolean().optional().default(false),
+  }),
+  z.object({
+    conversationId: z.string().min(1),
+    turnId: z.string().min(1),
+    force: z.boolean().optional().default(false),
+  }),
+])
+
+// Newest first. With nodeId, includes changes to edges touching the node,
+// and works for nodes that have since been deleted.
+export async function listChanges(
+  supabase: SupabaseClient,
+  query: ChangeQuery & { nodeId?: string } = {}
+): Promise<ChangeEntry[]> {
+  const { conversationId, turnId, limit, before } = changeQuerySchema.parse(query)
+  let request = supabase
+    .from('kg_changes')
+    .select('*')
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (query.nodeId) request = request.contains('node_ids', [query.nodeId])
+  if (conversationId) request = request.eq('conversation_id', conversationId)
+  if (turnId) request = request.eq('turn_id', turnId)
+  if (before !== undefined) request = request.lt('id', before)
+
+  const { data, error } = await request
+  if (error) throw translateError(error)
+  const changes: ChangeRow[] = data || []
+
+  const revertedBy = new Map<number, number>()
+  if (changes.length > 0) {
+    const { data: reverts, error: revertsError } = await supabase
+      .from('kg_changes')
+      .select('id, reverts')
+      .in('reverts', changes.map(change => change.id))
+    if (revertsError) throw translateError(revertsError)
+    reverts?.forEach(row => revertedBy.set(row.reverts, row.id))
+  }
+
+  return changes.map(change => ({ ...change, revertedBy: revertedBy.get(change.id) ?? null }))
+}
+
+export function getNodeHistory(supabase: SupabaseClient, nodeId: string, query: ChangeQuery = {}) {
+  return listChanges(supabase, { ...query, nodeId })
+}
+
+// Undo one change. Fails with a conflict if the row has changed since,
+// unless forced. Returns every change the undo made.
+export async function revertChange(
+  supabase: SupabaseClient,
+  changeId: number,
+  options: { force?: boolean } = {}
+): Promise<ChangeRow[]> {
+  const { data, error } = await supabase.rpc('revert_change', { change_id: changeId, force: options.force ?? false })
+  if (error) throw translateError(error)
+  return reembedRestoredNodes(supabase, data || [])
+}
+
+// Undo everything one chat turn changed, or nothing if any of it conflicts
+export async function revertTurn(
+  supabase: SupabaseClient,
+  conversationId: string,
+  turnId: string,
+  options: { force?: boolean } = {}
+): Promise<ChangeRow[]> {
+  const { data, error } = await supabase.rpc('revert_turn', {
+    conversation: conversationId,
+    turn: turnId,
+    force: options.force ?? false,
+  })
+  if (error) throw translateError(error)
+  return reembedRestoredNodes(supabase, data || [])
+}
+
+// The log doesn't keep embeddings, so nodes an undo brought back (or
+// relabeled) need new ones. Embedding-only updates aren't logged.
+async function reembedRestoredNodes(supabase: SupabaseClient, changes: ChangeRow[]) {
+  const latest = new Map<string, ChangeRow>()
+  changes
+    .filter(change => change.table_name === 'kg_nodes')
+    .forEach(change => latest.set(change.record_id, change))
+
+  const embeddingText = (row: Record<string, any>) =>
+    nodeEmbeddingText({ label: row.label, type: row.type, properties: row.properties })
+  const stale = Array.from(latest.values()).filter(change =>
+    change.new_row && (!change.old_row || embeddingText(change.old_row) !== embeddingText(change.new_row))
+  )
+  if (stale.length === 0) return changes
+
+  await reembedNodes(supabase, stale.map(change => ({
+    id: change.record_id,
+    label: change.new_row!.label,
+    type: change.new_row!.type,
+    properties: change.new_row!.properties,
+  })))
+  return changes
+}
+
+function translateError(error: { code?: string; message: string }) {
+  switch (error.code) {
+    case CHANGE_NOT_FOUND:
+      return new GraphStoreError(error.message, 'not_found')
+    case REVERT_CONFLICT:
+      return new GraphStoreError(error.message, 'conflict')
+    case UNIQUE_VIOLATION:
+      return new GraphStoreError('Undoing this would duplicate an edge that exists now', 'conflict')
+    case FOREIGN_KEY_VIOLATION:
+      return new GraphStoreError('Undoing this needs a node that has since been deleted; undo that deletion first', 'conflict')
+    case INVALID_TEXT_REPRESENTATION:
+      return new GraphStoreError('Invalid node id', 'invalid')
+    default:
+      return error
+  }
+}
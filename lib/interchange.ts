@@ -0,0 +1,748 @@
+// Conversion between the knowledge graph and common interchange formats:
+// JSON Graph Format, GraphML, CSV node/edge lists, JSON-LD and Cypher.
+// Everything here is pure string <-> object conversion; loading from and
+// writing to the database lives in graph-transfer.ts.
+
+export const INTERCHANGE_FORMATS = ['jgf', 'graphml', 'csv', 'jsonld', 'cypher'] as const
+export type InterchangeFormat = typeof INTERCHANGE_FORMATS[number]
+
+export interface PortableNode {
+  id: string
+  label: string
+  type: string | null
+  properties: Record<string, any>
+  aliases: string[]
+  // Validity interval as ISO dates, see temporal.ts
+  validFrom?: string | null
+  validTo?: string | null
+}
+
+export interface PortableEdge {
+  id?: string
+  source: string
+  target: string
+  relationship: string
+  properties: Record<string, any>
+  weight: number
+  validFrom?: string | null
+  validTo?: string | null
+}
+
+export interface PortableGraph {
+  nodes: PortableNode[]
+  edges: PortableEdge[]
+}
+
+// CSV is the one format that needs two files
+export type SerializedGraph = string | { nodes: string; edges: string }
+
+export interface FormatInfo {
+  extension: string
+  contentType: string
+}
+
+export const FORMAT_INFO: Record<InterchangeFormat, FormatInfo> = {
+  jgf: { extension: 'json', contentType: 'application/vnd.jgf+json' },
+  graphml: { extension: 'graphml', contentType: 'application/graphml+xml' },
+  csv: { extension: 'csv', contentType: 'text/csv' },
+  jsonld: { extension: 'jsonld', contentType: 'application/ld+json' },
+  cypher: { extension: 'cypher', contentType: 'text/plain' },
+}
+
+export function serializeGraph(graph: PortableGraph, format: InterchangeFormat): SerializedGraph {
+  switch (format) {
+    case 'jgf': return toJGF(graph)
+    case 'graphml': return toGraphML(graph)
+    case 'csv': return toCSV(graph)
+    case 'jsonld': return toJSONLD(graph)
+    case 'cypher': return toCypher(graph)
+  }
+}
+
+export function parseGraph(input: SerializedGraph, format: InterchangeFormat): PortableGraph {
+  if (format === 'csv') {
+    if (typeof input === 'string') return fromCSV({ nodes: input, edges: '' })
+    return fromCSV(input)
+  }
+  if (typeof input !== 'string') {
+    throw new Error(`${format} imports take a single file`)
+  }
+
+  switch (format) {
+    case 'jgf': return fromJGF(input)
+    case 'graphml': return fromGraphML(input)
+    case 'jsonld': return fromJSONLD(input)
+    case 'cypher': return fromCypher(input)
+  }
+}
+
+// Guess the format from a file name, for the CLI
+export function formatFromFilename(filename: string): InterchangeFormat | null {
+  const lower = filename.toLowerCase()
+  if (lower.endsWith('.graphml') || lower.endsWith('.xml')) return 'graphml'
+  if (lower.endsWith('.csv')) return 'csv'
+  if (lower.endsWith('.jsonld')) return 'jsonld'
+  if (lower.endsWith('.cypher') || lower.endsWith('.cql')) return 'cypher'
+  if (lower.endsWith('.json')) return 'jgf'
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// JSON Graph Format (v2): https://jsongraphformat.info
+// ---------------------------------------------------------------------------
+
+function toJGF(graph: PortableGraph): string {
+  const nodes: Record<string, unknown> = {}
+  for (const node of graph.nodes) {
+    nodes[node.id] = {
+      label: node.label,
+      metadata: { type: node.type, aliases: node.aliases, properties: node.properties, ...validityOf(node) },
+    }
+  }
+
+  return JSON.stringify({
+    graph: {
+      directed: true,
+      type: 'knowledge-graph',
+      metadata: { exportedAt: new Date().toISOString() },
+      nodes,
+      edges: graph.edges.map(edge => ({
+        ...(edge.id ? { id: edge.id } : {}),
+        source: edge.source,
+        target: edge.target,
+        relation: edge.relationship,
+        metadata: { weight: edge.weight, properties: edge.properties, ...validityOf(edge) },
+      })),
+    },
+  }, null, 2)
+}
+
+function fromJGF(input: string): PortableGraph {
+  const parsed = JSON.parse(input)
+  // Accept a single graph or the { graphs: [...] } form
+  const graph = parsed.graph ?? parsed.graphs?.[0]
+  if (!graph) throw new Error('JGF document has no graph')
+
+  // v2 keys nodes by id; v1 uses an array with an id field
+  const nodeEntries: Array<[string, any]> = Array.isArray(graph.nodes)
+    ? graph.nodes.map((node: any) => [String(node.id), node])
+    : Object.entries(graph.nodes || {})
+
+  return {
+    nodes: nodeEntries.map(([id, node]) => ({
+      id,
+      label: String(node.label ?? id),
+      type: node.metadata?.type ?? null,
+      properties: node.metadata?.properties ?? omit(node.metadata || {}, ['type', 'aliases', ...VALIDITY_KEYS]),
+      aliases: toStringArray(node.metadata?.aliases),
+      ...readValidity(node.metadata),
+    })),
+    edges: (graph.edges || []).map((edge: any) => ({
+      id: edge.id,
+      source: String(edge.source),
+      target: String(edge.target),
+      relationship: String(edge.relation ?? edge.label ?? 'related_to'),
+      properties: edge.metadata?.properties ?? omit(edge.metadata || {}, ['weight', ...VALIDITY_KEYS]),
+      weight: toWeight(edge.metadata?.weight),
+      ...readValidity(edge.metadata),
+    })),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GraphML: http://graphml.graphdrawing.org
+// ---------------------------------------------------------------------------
+
+// Nested properties don't fit GraphML's scalar attributes, so they travel as
+// a JSON string in the "properties" key
+function toGraphML(graph: PortableGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="aliases" for="node" attr.name="aliases" attr.type="string"/>',
+    '  <key id="node_properties" for="node" attr.name="properties" attr.type="string"/>',
+    '  <key id="node_valid_from" for="node" attr.name="validFrom" attr.type="string"/>',
+    '  <key id="node_valid_to" for="node" attr.name="validTo" attr.type="string"/>',
+    '  <key id="relationship" for="edge" attr.name="relationship" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="edge_properties" for="edge" attr.name="properties" attr.type="string"/>',
+    '  <key id="edge_valid_from" for="edge" attr.name="validFrom" attr.type="string"/>',
+    '  <key id="edge_valid_to" for="edge" attr.name="validTo" attr.type="string"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ]
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`)
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`)
+    if (node.type) lines.push(`      <data key="type">${escapeXml(node.type)}</data>`)
+    if (node.aliases.length > 0) lines.push(`      <data key="aliases">${escapeXml(JSON.stringify(node.aliases))}</data>`)
+    lines.push(`      <data key="node_properties">${escapeXml(JSON.stringify(node.properties))}</data>`)
+    if (node.validFrom) lines.push(`      <data key="node_valid_from">${escapeXml(node.validFrom)}</data>`)
+    if (node.validTo) lines.push(`      <data key="node_valid_to">${escapeXml(node.validTo)}</data>`)
+    lines.push('    </node>')
+  }
+
+  for (const edge of graph.edges) {
+    const id = edge.id ? ` id="${escapeXml(edge.id)}"` : ''
+    lines.push(`    <edge${id} source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`)
+    lines.push(`      <data key="relationship">${escapeXml(edge.relationship)}</data>`)
+    lines.push(`      <data key="weight">${edge.weight}</data>`)
+    lines.push(`      <data key="edge_properties">${escapeXml(JSON.stringify(edge.properties))}</data>`)
+    if (edge.validFrom) lines.push(`      <data key="edge_valid_from">${escapeXml(edge.validFrom)}</data>`)
+    if (edge.validTo) lines.push(`      <data key="edge_valid_to">${escapeXml(edge.validTo)}</data>`)
+    lines.push('    </edge>')
+  }
+
+  lines.push('  </graph>', '</graphml>')
+  return lines.join('\n')
+}
+
+// Reads GraphML written by this module and by tools like Gephi or yEd. Data
+// keys are matched by attr.name; unknown keys become node/edge properties.
+function fromGraphML(input: string): PortableGraph {
+  const keyNames = new Map<string, string>()
+  for (const match of input.matchAll(/<key\b([^>]*?)\/?>/g)) {
+    const attrs = parseXmlAttributes(match[1])
+    if (attrs.id) keyNames.set(attrs.id, attrs['attr.name'] || attrs.id)
+  }
+
+  const readData = (body: string) => {
+    const data: Record<string, string> = {}
+    for (const match of body.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+      const key = parseXmlAttributes(match[1]).key
+      if (key) data[keyNames.get(key) || key] = unescapeXml(match[2].trim())
+    }
+    return data
+  }
+
+  const nodes: PortableNode[] = []
+  for (const match of input.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+    const attrs = parseXmlAttributes(match[1])
+    const { label, type, aliases, properties, validFrom, validTo, ...rest } = readData(match[2] || '')
+    nodes.push({
+      id: attrs.id,
+      label: label || attrs.id,
+      type: type || null,
+      properties: { ...rest, ...parseJsonObject(properties) },
+      aliases: aliases ? toStringArray(safeJsonParse(aliases)) : [],
+      ...readValidity({ validFrom, validTo }),
+    })
+  }
+
+  const edges: PortableEdge[] = []
+  for (const match of input.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const attrs = parseXmlAttributes(match[1])
+    const { relationship, label, weight, properties, validFrom, validTo, ...rest } = readData(match[2] || '')
+    edges.push({
+      id: attrs.id,
+      source: attrs.source,
+      target: attrs.target,
+      relationship: relationship || label || 'related_to',
+      properties: { ...rest, ...parseJsonObject(properties) },
+      weight: toWeight(weight),
+      ...readValidity({ validFrom, validTo }),
+    })
+  }
+
+  return { nodes, edges }
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+function parseXmlAttributes(source: string) {
+  const attrs: Record<string, string> = {}
+  for (const match of source.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = unescapeXml(match[2] ?? match[3])
+  }
+  return attrs
+}
+
+// ---------------------------------------------------------------------------
+// CSV node and edge lists
+// ---------------------------------------------------------------------------
+
+const NODE_COLUMNS = ['id', 'label', 'type', 'aliases', 'properties', 'valid_from', 'valid_to']
+const EDGE_COLUMNS = ['id', 'source', 'target', 'relationship', 'weight', 'properties', 'valid_from', 'valid_to']
+
+// Aliases are ;-separated and properties are a JSON object per row
+function toCSV(graph: PortableGraph) {
+  const nodes = [
+    NODE_COLUMNS,
+    ...graph.nodes.map(node => [
+      node.id, node.label, node.type || '', node.aliases.join(';'), JSON.stringify(node.properties),
+      node.validFrom || '', node.validTo || '',
+    ]),
+  ]
+  const edges = [
+    EDGE_COLUMNS,
+    ...graph.edges.map(edge => [
+      edge.id || '', edge.source, edge.target, edge.relationship, String(edge.weight), JSON.stringify(edge.properties),
+      edge.validFrom || '', edge.validTo || '',
+    ]),
+  ]
+
+  return { nodes: formatCSV(nodes), edges: formatCSV(edges) }
+}
+
+// Columns are found by header name, so spreadsheets with extra or reordered
+// columns import fine; extra columns become properties.
+function fromCSV(input: { nodes: string; edges: string }): PortableGraph {
+  const nodes = csvRecords(input.nodes).map(({ id, label, type, aliases, properties, valid_from, valid_to, ...rest }) => ({
+    id: id || label,
+    label: label || id,
+    type: type || null,
+    properties: { ...rest, ...parseJsonObject(properties) },
+    aliases: aliases ? aliases.split(';').map(alias => alias.trim()).filter(Boolean) : [],
+    ...readValidity({ validFrom: valid_from, validTo: valid_to }),
+  }))
+
+  const edges = csvRecords(input.edges).map(({ id, source, target, relationship, weight, properties, valid_from, valid_to, ...rest }) => ({
+    id: id || undefined,
+    source,
+    target,
+    relationship: relationship || 'related_to',
+    properties: { ...rest, ...parseJsonObject(properties) },
+    weight: toWeight(weight),
+    ...readValidity({ validFrom: valid_from, validTo: valid_to }),
+  }))
+
+  return { nodes, edges }
+}
+
+function formatCSV(rows: string[][]) {
+  return rows
+    .map(row => row.map(value => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(','))
+    .join('\n')
+}
+
+function csvRecords(input: string): Array<Record<string, string>> {
+  const rows = parseCSV(input)
+  if (rows.length === 0) return []
+
+  const header = rows[0].map(name => name.trim())
+  return rows.slice(1)
+    .filter(row => row.some(value => value !== ''))
+    .map(row => Object.fromEntries(header.map((name, i) => [name, row[i] ?? ''])))
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCSV(input: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+const KG_VOCAB = 'urn:kg:vocab:'
+const NODE_IRI = 'urn:kg:node:'
+const EDGE_IRI = 'urn:kg:edge:'
+
+// Edges are reified as Relationship resources so their weight and
+// properties survive the round trip
+const JSONLD_CONTEXT = {
+  '@vocab': KG_VOCAB,
+  label: 'http://www.w3.org/2000/01/rdf-schema#label',
+  aliases: { '@id': `${KG_VOCAB}alias`, '@container': '@set' },
+  properties: { '@id': `${KG_VOCAB}properties`, '@type': '@json' },
+  source: { '@id': `${KG_VOCAB}source`, '@type': '@id' },
+  target: { '@id': `${KG_VOCAB}target`, '@type': '@id' },
+  relationship: `${KG_VOCAB}relationship`,
+  weight: `${KG_VOCAB}weight`,
+  validFrom: { '@id': `${KG_VOCAB}validFrom`, '@type': 'http://www.w3.org/2001/XMLSchema#date' },
+  validTo: { '@id': `${KG_VOCAB}validTo`, '@type': 'http://www.w3.org/2001/XMLSchema#date' },
+}
+
+function toJSONLD(graph: PortableGraph): string {
+  return JSON.stringify({
+    '@context': JSONLD_CONTEXT,
+    '@graph': [
+      ...graph.nodes.map(node => ({
+        '@id': `${NODE_IRI}${node.id}`,
+        ...(node.type ? { '@type': node.type } : {}),
+        label: node.label,
+        aliases: node.aliases,
+        properties: node.properties,
+        ...validityOf(node),
+      })),
+      ...graph.edges.map((edge, i) => ({
+        '@id': `${EDGE_IRI}${edge.id || i}`,
+        '@type': 'Relationship',
+        source: `${NODE_IRI}${edge.source}`,
+        target: `${NODE_IRI}${edge.target}`,
+        relationship: edge.relationship,
+        weight: edge.weight,
+        properties: edge.properties,
+        ...validityOf(edge),
+      })),
+    ],
+  }, null, 2)
+}
+
+// Reads documents in the compacted shape written above; arbitrary JSON-LD
+// would need a full processor to expand first.
+function fromJSONLD(input: string): PortableGraph {
+  const parsed = JSON.parse(input)
+  const items: any[] = Array.isArray(parsed) ? parsed : parsed['@graph'] || [parsed]
+  const stripIri = (iri: string) => (iri.startsWith(NODE_IRI) ? iri.slice(NODE_IRI.length) : iri)
+  const idOf = (value: any) => stripIri(typeof value === 'string' ? value : value?.['@id'])
+
+  const nodes: PortableNode[] = []
+  const edges: PortableEdge[] = []
+  for (const item of items) {
+    if (item['@type'] === 'Relationship') {
+      edges.push({
+        id: item['@id']?.startsWith(EDGE_IRI) ? item['@id'].slice(EDGE_IRI.length) : undefined,
+        source: idOf(item.source),
+        target: idOf(item.target),
+        relationship: String(item.relationship ?? 'related_to'),
+        properties: parseJsonObject(item.properties),
+        weight: toWeight(item.weight),
+        ...readValidity(item),
+      })
+    } else if (item['@id']) {
+      nodes.push({
+        id: stripIri(item['@id']),
+        label: String(item.label ?? item['@id']),
+        type: typeof item['@type'] === 'string' ? item['@type'] : null,
+        properties: parseJsonObject(item.properties),
+        aliases: toStringArray(item.aliases),
+        ...readValidity(item),
+      })
+    }
+  }
+
+  return { nodes, edges }
+}
+
+// ---------------------------------------------------------------------------
+// Cypher
+// ---------------------------------------------------------------------------
+
+// Every node gets a :KGNode label plus its type, and keeps our id as a
+// property so the edge statements can MATCH their endpoints. Neo4j only
+// stores scalars and lists, so nested property values are JSON strings.
+function toCypher(graph: PortableGraph): string {
+  const lines = ['CREATE CONSTRAINT kg_node_id IF NOT EXISTS FOR (n:KGNode) REQUIRE n.id IS UNIQUE;', '']
+
+  for (const node of graph.nodes) {
+    const labels = [':KGNode', ...(node.type ? [`:${cypherName(node.type)}`] : [])].join('')
+    const props = {
+      ...cypherProperties(node.properties), id: node.id, label: node.label, type: node.type, aliases: node.aliases,
+      ...validityOf(node),
+    }
+    lines.push(`CREATE (n${labels} ${cypherMap(props)});`)
+  }
+
+  if (graph.edges.length > 0) lines.push('')
+  for (const edge of graph.edges) {
+    const props = {
+      ...cypherProperties(edge.properties), ...(edge.id ? { id: edge.id } : {}), weight: edge.weight,
+      ...validityOf(edge),
+    }
+    lines.push(
+      `MATCH (a:KGNode {id: ${cypherValue(edge.source)}}), (b:KGNode {id: ${cypherValue(edge.target)}}) ` +
+      `CREATE (a)-[:${cypherName(edge.relationship)} ${cypherMap(props)}]->(b);`
+    )
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// Parses scripts in the shape written above (or hand-written ones that use
+// the same CREATE node / MATCH ... CREATE edge statements)
+function fromCypher(input: string): PortableGraph {
+  const nodes: PortableNode[] = []
+  const edges: PortableEdge[] = []
+
+  for (const statement of splitCypherStatements(input)) {
+    const edgeMatch = statement.match(
+      /^MATCH\s+\(a:KGNode\s+(\{[\s\S]*?\})\)\s*,\s*\(b:KGNode\s+(\{[\s\S]*?\})\)\s+CREATE\s+\(a\)-\[:(`(?:[^`]|``)+`|\w+)\s*(\{[\s\S]*\})?\]->\(b\)$/i
+    )
+    if (edgeMatch) {
+      const { id, weight, validFrom, validTo, ...properties } = parseCypherMap(edgeMatch[4] || '{}')
+      edges.push({
+        id: id === undefined ? undefined : String(id),
+        source: String(parseCypherMap(edgeMatch[1]).id),
+        target: String(parseCypherMap(edgeMatch[2]).id),
+        relationship: unquoteCypherName(edgeMatch[3]),
+        properties: restoreJsonProperties(properties),
+        weight: toWeight(weight),
+        ...readValidity({ validFrom, validTo }),
+      })
+      continue
+    }
+
+    const nodeMatch = statement.match(/^CREATE\s+\(\w*((?::(?:`(?:[^`]|``)+`|\w+))*)\s*(\{[\s\S]*\})?\)$/i)
+    if (nodeMatch) {
+      const { id, label, type, aliases, validFrom, validTo, ...properties } = parseCypherMap(nodeMatch[2] || '{}')
+      const labels = (nodeMatch[1].match(/:(`(?:[^`]|``)+`|\w+)/g) || [])
+        .map(name => unquoteCypherName(name.slice(1)))
+        .filter(name => name !== 'KGNode')
+      nodes.push({
+        id: String(id ?? label),
+        label: String(label ?? id),
+        type: typeof type === 'string' ? type : labels[0] ?? null,
+        properties: restoreJsonProperties(properties),
+        aliases: toStringArray(aliases),
+        ...readValidity({ validFrom, validTo }),
+      })
+    }
+  }
+
+  return { nodes, edges }
+}
+
+function cypherName(name: string) {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, '``')}\``
+}
+
+function unquoteCypherName(name: string) {
+  return name.startsWith('`') ? name.slice(1, -1).replace(/``/g, '`') : name
+}
+
+function cypherProperties(properties: Record<string, any>) {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined) continue
+    const storable = typeof value !== 'object' || (Array.isArray(value) && value.every(item => typeof item !== 'object'))
+    result[key] = storable ? value : JSON.stringify(value)
+  }
+  return result
+}
+
+// Undo cypherProperties: strings that look like JSON objects or arrays
+function restoreJsonProperties(properties: Record<string, unknown>) {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(properties)) {
+    result[key] = typeof value === 'string' && /^[[{]/.test(value) ? safeJsonParse(value) ?? value : value
+  }
+  return result
+}
+
+function cypherMap(props: Record<string, unknown>) {
+  const entries = Object.entries(props)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${cypherName(key)}: ${cypherValue(value)}`)
+  return `{${entries.join(', ')}}`
+}
+
+// JSON string/number/boolean/array literals are valid Cypher literals
+function cypherValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(cypherValue).join(', ')}]`
+  return JSON.stringify(value)
+}
+
+function splitCypherStatements(input: string) {
+  const statements: string[] = []
+  let current = ''
+  let quote: string | null = null
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quote) {
+      current += char
+      if (char === '\\') current += input[++i] ?? ''
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char
+      current += char
+    } else if (char === '/' && input[i + 1] === '/') {
+      while (i < input.length && input[i] !== '\n') i++
+    } else if (char === ';') {
+      statements.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) statements.push(current.trim())
+  return statements.filter(Boolean)
+}
+
+// Minimal Cypher map literal reader: {key: value, `quoted key`: [..], ...}
+// with string, number, boolean, null and list values
+function parseCypherMap(source: string): Record<string, unknown> {
+  let pos = 0
+  const skip = () => { while (/\s/.test(source[pos] || '')) pos++ }
+  const fail = (): never => { throw new Error(`Unsupported Cypher literal near: ${source.slice(pos, pos + 30)}`) }
+
+  const readName = () => {
+    skip()
+    if (source[pos] === '`') {
+      const end = source.indexOf('`', pos + 1)
+      const name = source.slice(pos + 1, end)
+      pos = end + 1
+      return name
+    }
+    const match = source.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_]*/) || fail()
+    pos += match[0].length
+    return match[0]
+  }
+
+  const readValue = (): unknown => {
+    skip()
+    const char = source[pos]
+    if (char === '"' || char === "'") {
+      let value = ''
+      pos++
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\') {
+          const escaped = source[++pos]
+          if (escaped === 'u') {
+            value += String.fromCharCode(parseInt(source.slice(pos + 1, pos + 5), 16))
+            pos += 4
+          } else {
+            value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped
+          }
+        } else {
+          value += source[pos]
+        }
+        pos++
+      }
+      pos++
+      return value
+    }
+    if (char === '[') {
+      pos++
+      const items: unknown[] = []
+      skip()
+      while (source[pos] !== ']') {
+        items.push(readValue())
+        skip()
+        if (source[pos] === ',') pos++
+        else if (source[pos] !== ']') fail()
+      }
+      pos++
+      return items
+    }
+    const match = source.slice(pos).match(/^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/i) || fail()
+    pos += match[0].length
+    const literal = match[0].toLowerCase()
+    if (literal === 'true') return true
+    if (literal === 'false') return false
+    if (literal === 'null') return null
+    return Number(match[0])
+  }
+
+  const result: Record<string, unknown> = {}
+  skip()
+  if (source[pos++] !== '{') fail()
+  skip()
+  while (source[pos] !== '}') {
+    const key = readName()
+    skip()
+    if (source[pos++] !== ':') fail()
+    result[key] = readValue()
+    skip()
+    if (source[pos] === ',') pos++
+    else if (source[pos] !== '}') fail()
+    skip()
+  }
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function safeJsonParse(value: string): any {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return undefined
+  }
+}
+
+function parseJsonObject(value: unknown): Record<string, any> {
+  const parsed = typeof value === 'string' ? safeJsonParse(value) : value
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).filter(Boolean) : []
+}
+
+function toWeight(value: unknown): number {
+  const weight = Number(value)
+  return value === undefined || value === null || value === '' || Number.isNaN(weight) ? 1 : weight
+}
+
+const VALIDITY_KEYS = ['validFrom', 'validTo']
+
+// Validity dates are only written when set, so undated graphs export
+// exactly as before
+function validityOf(item: { validFrom?: string | null; validTo?: string | null }) {
+  return {
+    ...(item.validFrom ? { validFrom: item.validFrom } : {}),
+    ...(item.validTo ? { validTo: item.validTo } : {}),
+  }
+}
+
+// Dates are passed through as strings; importGraph validates them
+function readValidity(value: any): { validFrom?: string; validTo?: string } {
+  const read = (date: unknown) => (typeof date === 'string' && date.trim() ? date.trim() : undefined)
+  const validFrom = read(value?.validFrom)
+  const validTo = read(value?.validTo)
+  return { ...(validFrom ? { validFrom } : {}), ...(validTo ? { validTo } : {}) }
+}
+
+function omit(value: Record<string, any>, keys: string[]) {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)))
+}
@@ -0,0 +1,56 @@
+import { computeLayout, type LayoutRequest, type XYPosition } from './graph-layout'
+
+// Runs layouts in a web worker so laying out thousands of nodes doesn't
+// freeze the page. Where a worker can't be started the layout runs inline.
+
+export interface LayoutJob {
+  id: number
+  request: LayoutRequest
+}
+
+export type LayoutResult =
+  | { id: number; positions: Array<[string, XYPosition]>; error?: undefined }
+  | { id: number; error: string }
+
+export interface LayoutRunner {
+  run(request: LayoutRequest): Promise<Map<string, XYPosition>>
+  dispose(): void
+}
+
+export function createLayoutRunner(): LayoutRunner {
+  let worker: Worker
+  try {
+    worker = new Worker(new URL('./layout.worker.ts', import.meta.url))
+  } catch {
+    return { run: async request => computeLayout(request), dispose: () => {} }
+  }
+
+  let nextId = 0
+  const pending = new Map<number, { resolve: (positions: Map<string, XYPosition>) => void; reject: (error: Error) => void }>()
+
+  const rejectAll = (error: Error) => {
+    for (const job of pending.values()) job.reject(error)
+    pending.clear()
+  }
+
+  worker.onmessage = (event: MessageEvent<LayoutResult>) => {
+    const job = pending.get(event.data.id)
+    pending.delete(event.data.id)
+    if (!job) return
+    if (event.data.error !== undefined) job.reject(new Error(event.data.error))
+    else job.resolve(new Map(event.data.positions))
+  }
+  worker.onerror = event => rejectAll(new Error(event.message || 'Layout worker failed'))
+
+  return {
+    run: request => new Promise((resolve, reject) => {
+      const id = nextId++
+      pending.set(id, { resolve, reject })
+      worker.postMessage({ id, request } satisfies LayoutJob)
+    }),
+    dispose: () => {
+      worker.terminate()
+      rejectAll(new Error('Layout runner disposed'))
+    },
+  }
+}
@@ -0,0 +1,15 @@
+import { computeLayout } from './graph-layout'
+import type { LayoutJob, LayoutResult } from './layout-runner'
+
+// Runs computeLayout off the main thread; see layout-runner.ts
+
+self.onmessage = (event: MessageEvent<LayoutJob>) => {
+  const { id, request } = event.data
+  let result: LayoutResult
+  try {
+    result = { id, positions: [...computeLayout(request)] }
+  } catch (error) {
+    result = { id, error: error instanceof Error ? error.message : 'Layout failed' }
+  }
+  self.postMessage(result)
+}
@@ -0,0 +1,179 @@
+// Louvain community detection (Blondel et al. 2008) over an undirected,
+// weighted graph. Each pass moves nodes between communities while modularity
+// improves, then collapses every community into a single node; the partition
+// after each pass is one level of the hierarchy, finest first.
+//
+// Nodes are visited in input order rather than randomly, so the same graph
+// always produces the same communities.
+
+export interface LouvainEdge {
+  source: string
+  target: string
+  weight?: number
+}
+
+export interface LouvainOptions {
+  // Higher values favour more, smaller communities; 1 is standard modularity
+  resolution?: number
+  maxLevels?: number
+  // Safety cap on local-moving sweeps per level
+  maxSweeps?: number
+}
+
+// levels[l].get(nodeId) is the community index of that node at level l.
+// Indices are dense from 0 within a level.
+export interface LouvainResult {
+  levels: Array<Map<string, number>>
+  modularity: number[]
+}
+
+interface WorkingGraph {
+  size: number
+  // Symmetric neighbour weights, excluding self loops
+  adjacency: Array<Map<number, number>>
+  selfLoops: number[]
+  degrees: number[]
+}
+
+const MIN_GAIN = 1e-10
+
+export function louvain(nodeIds: string[], edges: LouvainEdge[], options: LouvainOptions = {}): LouvainResult {
+  const { resolution = 1, maxLevels = 5, maxSweeps = 50 } = options
+  const index = new Map(nodeIds.map((id, i) => [id, i]))
+
+  let graph = buildGraph(nodeIds.length, edges.flatMap(edge => {
+    const source = index.get(edge.source)
+    const target = index.get(edge.target)
+    if (source === undefined || target === undefined) return []
+    return [{ source, target, weight: edge.weight ?? 1 }]
+  }))
+
+  const result: LouvainResult = { levels: [], modularity: [] }
+  // Community of each original node in the current working graph
+  let membership = nodeIds.map((_, i) => i)
+
+  while (result.levels.length < maxLevels) {
+    const partition = moveNodes(graph, resolution, maxSweeps)
+    const communityCount = partition.reduce((max, c) => Math.max(max, c + 1), 0)
+    if (communityCount === graph.size) break
+
+    membership = membership.map(node => partition[node])
+    result.levels.push(new Map(nodeIds.map((id, i) => [id, membership[i]])))
+    result.modularity.push(modularity(graph, partition, resolution))
+    graph = aggregate(graph, partition, communityCount)
+  }
+
+  return result
+}
+
+function buildGraph(size: number, edges: Array<{ source: number; target: number; weight: number }>): WorkingGraph {
+  const graph: WorkingGraph = {
+    size,
+    adjacency: Array.from({ length: size }, () => new Map()),
+    selfLoops: new Array(size).fill(0),
+    degrees: new Array(size).fill(0),
+  }
+
+  // Directed and parallel edges collapse into one undirected weight
+  for (const { source, target, weight } of edges) {
+    if (source === target) {
+      graph.selfLoops[source] += weight
+      graph.degrees[source] += 2 * weight
+    } else {
+      graph.adjacency[source].set(target, (graph.adjacency[source].get(target) || 0) + weight)
+      graph.adjacency[target].set(source, (graph.adjacency[target].get(source) || 0) + weight)
+      graph.degrees[source] += weight
+      graph.degrees[target] += weight
+    }
+  }
+  return graph
+}
+
+// Phase one: greedily move each node to the neighbouring community with the
+// best modularity gain until a full sweep moves nothing. Returns dense
+// community indices.
+function moveNodes(graph: WorkingGraph, resolution: number, maxSweeps: number): number[] {
+  const community = Array.from({ length: graph.size }, (_, i) => i)
+  const totals = [...graph.degrees]
+  const totalDegree = graph.degrees.reduce((sum, degree) => sum + degree, 0)
+  if (totalDegree === 0) return community
+
+  for (let sweep = 0, moved = true; moved && sweep < maxSweeps; sweep++) {
+    moved = false
+
+    for (let node = 0; node < graph.size; node++) {
+      const degree = graph.degrees[node]
+      const current = community[node]
+
+      const linkWeights = new Map<number, number>()
+      graph.adjacency[node].forEach((weight, neighbour) => {
+        const target = community[neighbour]
+        linkWeights.set(target, (linkWeights.get(target) || 0) + weight)
+      })
+
+      totals[current] -= degree
+      const gain = (target: number) =>
+        (linkWeights.get(target) || 0) - (resolution * totals[target] * degree) / totalDegree
+
+      let best = current
+      let bestGain = gain(current)
+      linkWeights.forEach((_, target) => {
+        const candidate = gain(target)
+        if (candidate > bestGain + MIN_GAIN) {
+          best = target
+          bestGain = candidate
+        }
+      })
+
+      totals[best] += degree
+      if (best !== current) {
+        community[node] = best
+        moved = true
+      }
+    }
+  }
+
+  const dense = new Map<number, number>()
+  return community.map(c => {
+    if (!dense.has(c)) dense.set(c, dense.size)
+    return dense.get(c)!
+  })
+}
+
+// Phase two: one node per community, with edge weights summed and internal
+// edges kept as self loops so degrees are preserved
+function aggregate(graph: WorkingGraph, partition: number[], size: number): WorkingGraph {
+  const edges: Array<{ source: number; target: number; weight: number }> = []
+  for (let node = 0; node < graph.size; node++) {
+    if (graph.selfLoops[node] > 0) {
+      edges.push({ source: partition[node], target: partition[node], weight: graph.selfLoops[node] })
+    }
+    graph.adjacency[node].forEach((weight, neighbour) => {
+      if (node < neighbour) edges.push({ source: partition[node], target: partition[neighbour], weight })
+    })
+  }
+  return buildGraph(size, edges)
+}
+
+function modularity(graph: WorkingGraph, partition: number[], resolution: number): number {
+  const totalDegree = graph.degrees.reduce((sum, degree) => sum + degree, 0)
+  if (totalDegree === 0) return 0
+
+  const internal = new Map<number, number>()
+  const totals = new Map<number, number>()
+  for (let node = 0; node < graph.size; node++) {
+    const c = partition[node]
+    totals.set(c, (totals.get(c) || 0) + graph.degrees[node])
+    let weight = 2 * graph.selfLoops[node]
+    graph.adjacency[node].forEach((w, neighbour) => {
+      if (partition[neighbour] === c) weight += w
+    })
+    internal.set(c, (internal.get(c) || 0) + weight)
+  }
+
+  let q = 0
+  totals.forEach((total, c) => {
+    q += (internal.get(c) || 0) / totalDegree - resolution * (total / totalDegree) ** 2
+  })
+  return q
+}
@@ -0,0 +1,149 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { fetchDocumentTitles } from './documents'
+import { getNodeWithEdges, type NodeRow } from './graph-store'
+
+// Everything the node detail panel shows: the node itself, its neighbors
+// grouped by relationship, and the text behind it - chunks it was extracted
+// from plus chunks close to its stored embedding.
+
+export interface NeighborGroup {
+  relationship: string
+  // out: node → [relationship] → neighbor; in: neighbor → [relationship] → node
+  direction: 'out' | 'in'
+  neighbors: Array<{
+    edgeId: string
+    nodeId: string
+    label: string
+    type: string | null
+    validFrom: string | null
+    validTo: string | null
+  }>
+}
+
+export interface RelatedChunk {
+  id: string
+  documentId: string | null
+  documentTitle: string | null
+  content: string
+  // Null for chunks the node was extracted from but that aren't close matches
+  similarity: number | null
+  extracted: boolean
+}
+
+export interface NodeDetails {
+  node: NodeRow
+  relationships: NeighborGroup[]
+  chunks: RelatedChunk[]
+  // Set when the chunks couldn't be loaded; the rest is still there
+  chunksError: string | null
+}
+
+export const nodeDetailsQuerySchema = z.object({
+  chunks: z.coerce.number().int().min(0).max(20).default(5),
+  threshold: z.coerce.number().min(0).max(1).default(0.3),
+})
+
+export async function getNodeDetails(
+  supabase: SupabaseClient,
+  id: string,
+  query: z.input<typeof nodeDetailsQuerySchema> = {}
+): Promise<NodeDetails> {
+  const { chunks: chunkCount, threshold } = nodeDetailsQuerySchema.parse(query)
+  const { node, outgoing, incoming } = await getNodeWithEdges(supabase, id)
+
+  // Labels for the other end of each edge
+  const neighborIds = [...new Set([...outgoing.map(edge => edge.target_id), ...incoming.map(edge => edge.source_id)])]
+  const { data: neighbors, error } = neighborIds.length > 0
+    ? await supabase.from('kg_nodes').select('id, label, type').in('id', neighborIds)
+    : { data: [], error: null }
+  if (error) throw error
+  const byId = new Map((neighbors || []).map(neighbor => [neighbor.id, neighbor]))
+
+  const groups = new Map<string, NeighborGroup>()
+  const edges = [
+    ...outgoing.map(edge => ({ edge, direction: 'out' as const, neighborId: edge.target_id })),
+    ...incoming.map(edge => ({ edge, direction: 'in' as const, neighborId: edge.source_id })),
+  ]
+  for (const { edge, direction, neighborId } of edges) {
+    const key = `${direction}:${edge.relationship}`
+    const group = groups.get(key) ?? { relationship: edge.relationship, direction, neighbors: [] }
+    groups.set(key, group)
+    group.neighbors.push({
+      edgeId: edge.id,
+      nodeId: neighborId,
+      label: byId.get(neighborId)?.label ?? neighborId,
+      type: byId.get(neighborId)?.type ?? null,
+      validFrom: edge.valid_from ?? null,
+      validTo: edge.valid_to ?? null,
+    })
+  }
+
+  let chunks: RelatedChunk[] = []
+  let chunksError: string | null = null
+  if (chunkCount > 0) {
+    try {
+      chunks = await relatedChunks(supabase, node, chunkCount, threshold)
+    } catch (error) {
+      console.error(`Failed to load chunks for node ${id}:`, error)
+      chunksError = (error as { message?: string })?.message || 'Failed to load supporting documents'
+    }
+  }
+
+  return {
+    node,
+    // Outgoing first, then by relationship
+    relationships: [...groups.values()].sort((a, b) =>
+      b.direction.localeCompare(a.direction) || a.relationship.localeCompare(b.relationship)
+    ),
+    chunks,
+    chunksError,
+  }
+}
+
+// Chunks the node was extracted from first, then the closest other chunks
+// to the node's stored embedding
+async function relatedChunks(
+  supabase: SupabaseClient,
+  node: NodeRow,
+  limit: number,
+  threshold: number
+): Promise<RelatedChunk[]> {
+  const [{ data: links, error: linksError }, { data: similar, error: similarError }] = await Promise.all([
+    supabase.from('kg_node_chunks').select('chunk_id').eq('node_id', node.id),
+    supabase.rpc('search_chunks_near_node', {
+      node_id: node.id,
+      match_threshold: threshold,
+      match_count: limit,
+    }),
+  ])
+  if (linksError) throw linksError
+  if (similarError) throw similarError
+
+  const matches: Array<{ id: string; document_id: string | null; content: string; similarity: number }> = similar || []
+  const similarity = new Map(matches.map(match => [match.id, match.similarity]))
+  const extractedIds = (links || []).map(link => link.chunk_id as string)
+
+  const { data: extracted, error } = extractedIds.length > 0
+    ? await supabase
+        .from('document_chunks')
+        .select('id, document_id, content')
+        .in('id', extractedIds.slice(0, limit))
+    : { data: [], error: null }
+  if (error) throw error
+
+  const chunks = [
+    ...(extracted || []).map(chunk => ({ ...chunk, extracted: true })),
+    ...matches.filter(match => !extractedIds.includes(match.id)).map(match => ({ ...match, extracted: false })),
+  ].slice(0, limit)
+  const titles = await fetchDocumentTitles(supabase, chunks.map(chunk => chunk.document_id))
+
+  return chunks.map(chunk => ({
+    id: chunk.id,
+    documentId: chunk.document_id,
+    documentTitle: (chunk.document_id && titles.get(chunk.document_id)) || null,
+    content: chunk.content,
+    similarity: similarity.get(chunk.id) ?? null,
+    extracted: chunk.extracted,
+  }))
+}
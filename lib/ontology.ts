@@ -0,0 +1,336 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { fetchWholeGraph } from './graph'
+import { expandDate } from './temporal'
+
+// The graph's ontology: which node types exist and what properties they
+// take, and which relationships may connect which types. Stored in
+// kg_node_types/kg_relationship_types and enforced on every write that goes
+// through graph-store. An empty table means anything goes, so node types
+// are only checked once at least one is defined, and likewise for
+// relationships.
+
+export const PROPERTY_TYPES = ['string', 'number', 'boolean', 'date', 'string[]'] as const
+export type PropertyType = (typeof PROPERTY_TYPES)[number]
+
+// many_to_one: each source has at most one target for this relationship
+// (e.g. headquartered_in); one_to_many: each target has at most one source
+export const CARDINALITIES = ['many_to_many', 'many_to_one', 'one_to_many', 'one_to_one'] as const
+export type Cardinality = (typeof CARDINALITIES)[number]
+
+const ontologyName = z.string().trim().min(1).max(100)
+
+export const propertyDefinitionSchema = z.object({
+  type: z.enum(PROPERTY_TYPES),
+  required: z.boolean().optional().default(false),
+  description: z.string().optional(),
+})
+
+export const nodeTypeSchema = z.object({
+  name: ontologyName,
+  description: z.string().nullable().optional().default(null),
+  // Declared properties are type-checked; others are allowed as they are
+  properties: z.record(propertyDefinitionSchema).optional().default({}),
+})
+
+export const relationshipTypeSchema = z.object({
+  name: ontologyName,
+  description: z.string().nullable().optional().default(null),
+  // Allowed source and target node types (domain and range); empty allows any
+  sourceTypes: z.array(ontologyName).optional().default([]),
+  targetTypes: z.array(ontologyName).optional().default([]),
+  cardinality: z.enum(CARDINALITIES).optional().default('many_to_many'),
+})
+
+export const ontologyUpdateSchema = z.object({
+  nodeTypes: z.array(nodeTypeSchema).optional().default([]),
+  relationshipTypes: z.array(relationshipTypeSchema).optional().default([]),
+})
+
+export const ontologyRemovalSchema = z.object({
+  nodeTypes: z.array(ontologyName).optional().default([]),
+  relationshipTypes: z.array(ontologyName).optional().default([]),
+})
+
+export type PropertyDefinition = z.infer<typeof propertyDefinitionSchema>
+export type NodeTypeDefinition = z.infer<typeof nodeTypeSchema>
+export type RelationshipTypeDefinition = z.infer<typeof relationshipTypeSchema>
+export type OntologyUpdate = z.input<typeof ontologyUpdateSchema>
+
+export interface Ontology {
+  nodeTypes: NodeTypeDefinition[]
+  relationshipTypes: RelationshipTypeDefinition[]
+}
+
+export interface NodeCheck {
+  // The ontology's spelling of the type, or the input if types aren't enforced
+  type: string | null
+  problems: string[]
+}
+
+export interface EdgeCheck {
+  relationship: string
+  cardinality: Cardinality
+  problems: string[]
+}
+
+export interface OntologyViolation {
+  kind: 'node' | 'edge'
+  id: string
+  label: string
+  problems: string[]
+}
+
+// Names match case-insensitively and ignore spaces vs underscores, so
+// "Organization" is organization and "Landed On" is landed_on
+export function ontologyKey(name: string) {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export async function loadOntology(supabase: SupabaseClient): Promise<Ontology> {
+  const [nodeTypes, relationshipTypes] = await Promise.all([
+    supabase.from('kg_node_types').select('name, description, properties').order('name'),
+    supabase.from('kg_relationship_types').select('name, description, source_types, target_types, cardinality').order('name'),
+  ])
+  if (nodeTypes.error) throw nodeTypes.error
+  if (relationshipTypes.error) throw relationshipTypes.error
+
+  return {
+    nodeTypes: (nodeTypes.data || []).map(row => ({
+      name: row.name,
+      description: row.description,
+      properties: row.properties || {},
+    })),
+    relationshipTypes: (relationshipTypes.data || []).map(row => ({
+      name: row.name,
+      description: row.description,
+      sourceTypes: row.source_types || [],
+      targetTypes: row.target_types || [],
+      cardinality: row.cardinality,
+    })),
+  }
+}
+
+// Add or replace definitions. Relationship domains and ranges must name
+// node types that exist after the update. Returns the whole ontology.
+export async function saveOntology(supabase: SupabaseClient, update: OntologyUpdate): Promise<Ontology> {
+  const parsed = ontologyUpdateSchema.parse(update)
+  const current = await loadOntology(supabase)
+
+  // Redefining "Organization" replaces organization rather than adding a
+  // second spelling of it
+  const renamed = <T extends { name: string }>(definitions: T[], existing: T[]) => definitions.map(definition => ({
+    ...definition,
+    name: existing.find(other => ontologyKey(other.name) === ontologyKey(definition.name))?.name ?? definition.name,
+  }))
+  const nodeTypes = renamed(parsed.nodeTypes, current.nodeTypes)
+  const relationshipTypes = renamed(parsed.relationshipTypes, current.relationshipTypes)
+
+  const known = new Map([...current.nodeTypes, ...nodeTypes].map(type => [ontologyKey(type.name), type.name]))
+  const unknown = relationshipTypes.flatMap(rel =>
+    [...rel.sourceTypes, ...rel.targetTypes].filter(type => !known.has(ontologyKey(type)))
+  )
+  if (unknown.length > 0) {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ['relationshipTypes'],
+      message: `Unknown node type(s): ${Array.from(new Set(unknown)).join(', ')}`,
+    }])
+  }
+
+  // Store the node types' spelling so the arrays match kg_node_types
+  const canonical = (types: string[]) => types.map(type => known.get(ontologyKey(type))!)
+
+  if (nodeTypes.length > 0) {
+    const { error } = await supabase.from('kg_node_types').upsert(nodeTypes.map(type => ({
+      name: type.name,
+      description: type.description,
+      properties: type.properties,
+    })))
+    if (error) throw error
+  }
+
+  if (relationshipTypes.length > 0) {
+    const { error } = await supabase.from('kg_relationship_types').upsert(relationshipTypes.map(rel => ({
+      name: rel.name,
+      description: rel.description,
+      source_types: canonical(rel.sourceTypes),
+      target_types: canonical(rel.targetTypes),
+      cardinality: rel.cardinality,
+    })))
+    if (error) throw error
+  }
+
+  return loadOntology(supabase)
+}
+
+// Existing nodes and edges keep their types; audit them afterwards
+export async function removeFromOntology(
+  supabase: SupabaseClient,
+  removal: z.input<typeof ontologyRemovalSchema>
+): Promise<Ontology> {
+  const parsed = ontologyRemovalSchema.parse(removal)
+  const current = await loadOntology(supabase)
+  const nodeTypes = parsed.nodeTypes.flatMap(name => findNodeType(current, name)?.name ?? [])
+  const relationshipTypes = parsed.relationshipTypes.flatMap(name => findRelationshipType(current, name)?.name ?? [])
+
+  if (nodeTypes.length > 0) {
+    const { error } = await supabase.from('kg_node_types').delete().in('name', nodeTypes)
+    if (error) throw error
+  }
+  if (relationshipTypes.length > 0) {
+    const { error } = await supabase.from('kg_relationship_types').delete().in('name', relationshipTypes)
+    if (error) throw error
+  }
+
+  return loadOntology(supabase)
+}
+
+export function findNodeType(ontology: Ontology, type: string | null | undefined) {
+  return type ? ontology.nodeTypes.find(definition => ontologyKey(definition.name) === ontologyKey(type)) : undefined
+}
+
+export function findRelationshipType(ontology: Ontology, relationship: string) {
+  return ontology.relationshipTypes.find(definition => ontologyKey(definition.name) === ontologyKey(relationship))
+}
+
+export function checkNode(
+  ontology: Ontology,
+  node: { type?: string | null; properties?: Record<string, any> | null }
+): NodeCheck {
+  if (ontology.nodeTypes.length === 0) return { type: node.type ?? null, problems: [] }
+  const allowed = ontology.nodeTypes.map(type => type.name).join(', ')
+
+  if (!node.type) return { type: null, problems: [`A type is required; use one of: ${allowed}`] }
+  const definition = findNodeType(ontology, node.type)
+  if (!definition) return { type: node.type, problems: [`Unknown node type "${node.type}"; use one of: ${allowed}`] }
+
+  const properties = node.properties || {}
+  const problems = Object.entries(definition.properties).flatMap(([key, property]) => {
+    const value = properties[key]
+    if (value === undefined || value === null) {
+      return property.required ? [`"${definition.name}" nodes need a "${key}" property`] : []
+    }
+    return matchesPropertyType(value, property.type) ? [] : [`Property "${key}" must be a ${property.type}`]
+  })
+
+  return { type: definition.name, problems }
+}
+
+// Endpoint types are those of the nodes being connected
+export function checkEdge(
+  ontology: Ontology,
+  edge: { relationship: string; sourceType: string | null; targetType: string | null }
+): EdgeCheck {
+  if (ontology.relationshipTypes.length === 0) {
+    return { relationship: edge.relationship, cardinality: 'many_to_many', problems: [] }
+  }
+
+  const definition = findRelationshipType(ontology, edge.relationship)
+  if (!definition) {
+    const allowed = ontology.relationshipTypes.map(rel => rel.name).join(', ')
+    return {
+      relationship: edge.relationship,
+      cardinality: 'many_to_many',
+      problems: [`Unknown relationship "${edge.relationship}"; use one of: ${allowed}`],
+    }
+  }
+
+  const problems: string[] = []
+  const fits = (type: string | null, allowed: string[]) =>
+    allowed.length === 0 || (type !== null && allowed.some(name => ontologyKey(name) === ontologyKey(type)))
+  if (!fits(edge.sourceType, definition.sourceTypes)) {
+    problems.push(`"${definition.name}" sources must be ${definition.sourceTypes.join(' or ')}, not ${edge.sourceType ?? 'an untyped node'}`)
+  }
+  if (!fits(edge.targetType, definition.targetTypes)) {
+    problems.push(`"${definition.name}" targets must be ${definition.targetTypes.join(' or ')}, not ${edge.targetType ?? 'an untyped node'}`)
+  }
+
+  return { relationship: definition.name, cardinality: definition.cardinality, problems }
+}
+
+// Which ends of a relationship may only have one edge of its kind
+export function cardinalityLimits(cardinality: Cardinality) {
+  return {
+    onePerSource: cardinality === 'many_to_one' || cardinality === 'one_to_one',
+    onePerTarget: cardinality === 'one_to_many' || cardinality === 'one_to_one',
+  }
+}
+
+// Everything already in the graph that the current ontology wouldn't
+// accept, e.g. after tightening it. Cardinality isn't audited.
+export async function auditGraph(supabase: SupabaseClient, ontology?: Ontology): Promise<OntologyViolation[]> {
+  const rules = ontology ?? await loadOntology(supabase)
+  const graph = await fetchWholeGraph(supabase)
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]))
+
+  const violations: OntologyViolation[] = []
+  for (const node of graph.nodes) {
+    const { problems } = checkNode(rules, node)
+    if (problems.length > 0) violations.push({ kind: 'node', id: node.id, label: node.label, problems })
+  }
+  for (const edge of graph.edges) {
+    const source = nodes.get(edge.source_id)
+    const target = nodes.get(edge.target_id)
+    const { problems } = checkEdge(rules, {
+      relationship: edge.relationship,
+      sourceType: source?.type ?? null,
+      targetType: target?.type ?? null,
+    })
+    if (problems.length > 0) {
+      violations.push({
+        kind: 'edge',
+        id: edge.id,
+        label: `${source?.label ?? edge.source_id} → [${edge.relationship}] → ${target?.label ?? edge.target_id}`,
+        problems,
+      })
+    }
+  }
+  return violations
+}
+
+// Plain-text summary for tool descriptions and prompts; empty when there's
+// nothing to enforce
+export function describeOntology(ontology: Ontology) {
+  const nodeTypes = ontology.nodeTypes.map(type => {
+    const properties = Object.entries(type.properties)
+      .map(([key, property]) => `${key}${property.required ? '' : '?'}: ${property.type}`)
+    return [
+      `- ${type.name}`,
+      type.description ? `: ${type.description}` : '',
+      properties.length > 0 ? ` (properties: ${properties.join(', ')})` : '',
+    ].join('')
+  })
+
+  const relationships = ontology.relationshipTypes.map(rel => {
+    const source = rel.sourceTypes.length > 0 ? rel.sourceTypes.join('|') : 'any'
+    const target = rel.targetTypes.length > 0 ? rel.targetTypes.join('|') : 'any'
+    const { onePerSource, onePerTarget } = cardinalityLimits(rel.cardinality)
+    const limits = [onePerSource && 'one per source', onePerTarget && 'one per target'].filter(Boolean)
+    return [
+      `- ${rel.name}: ${source} → ${target}`,
+      limits.length > 0 ? ` (${limits.join(', ')})` : '',
+      rel.description ? ` - ${rel.description}` : '',
+    ].join('')
+  })
+
+  return {
+    nodeTypes: nodeTypes.length > 0 ? `Allowed node types:\n${nodeTypes.join('\n')}` : '',
+    relationships: relationships.length > 0 ? `Allowed relationships (source type → target type):\n${relationships.join('\n')}` : '',
+  }
+}
+
+function matchesPropertyType(value: unknown, type: PropertyType) {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'date':
+      return typeof value === 'string' && expandDate(value, 'start') !== null
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+  }
+}
@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  fetchEdgesBetween,
+  toViewEdge,
+  toViewNode,
+  type GraphEdgeRow,
+  type GraphViewData,
+} from './graph'
+import { isValidDuring, timeRangeParams, type TimeRange } from './temporal'
+
+export interface PathNode {
+  id: string
+  label: string
+  type: string | null
+}
+
+export interface PathHop {
+  edgeId: string
+  relationship: string
+  from: PathNode
+  to: PathNode
+  // forward: the edge was followed source -> target; backward: against its direction
+  direction: 'forward' | 'backward'
+}
+
+export interface GraphPath {
+  nodes: PathNode[]
+  hops: PathHop[]
+  totalWeight: number
+  description: string
+}
+
+export interface FindPathOptions {
+  // Number of alternative shortest paths to return; alternatives are at
+  // most two hops longer than the shortest
+  k?: number
+  // Only follow edges from source to target
+  directed?: boolean
+  maxDepth?: number
+  // Only follow nodes and edges valid during this range
+  during?: TimeRange | null
+}
+
+export interface ConnectedNode {
+  node_id: string
+  label: string
+  type: string | null
+  properties: Record<string, any> | null
+  depth: number
+  path: string[]
+}
+
+export interface Traversal {
+  connectedNodes: ConnectedNode[]
+  // Only the edges actually walked to reach each node, not every edge between them
+  edges: GraphEdgeRow[]
+}
+
+interface PathRow {
+  path: string[]
+  edge_ids: string[]
+  forward: boolean[]
+  total_weight: number
+  hops: number
+}
+
+export async function findPaths(
+  supabase: SupabaseClient,
+  fromId: string,
+  toId: string,
+  options: FindPathOptions = {}
+): Promise<GraphPath[]> {
+  const { data, error } = await supabase.rpc('find_paths', {
+    start_id: fromId,
+    end_id: toId,
+    max_depth: options.maxDepth ?? 6,
+    max_paths: options.k ?? 1,
+    directed: options.directed ?? false,
+    ...timeRangeParams(options.during),
+  })
+  if (error) throw error
+
+  const rows: PathRow[] = data || []
+  if (rows.length === 0) return []
+
+  const nodeIds = Array.from(new Set(rows.flatMap(row => row.path)))
+  const edgeIds = Array.from(new Set(rows.flatMap(row => row.edge_ids)))
+
+  const [{ data: nodes, error: nodesError }, { data: edges, error: edgesError }] = await Promise.all([
+    supabase.from('kg_nodes').select('id, label, type').in('id', nodeIds),
+    supabase.from('kg_edges').select('id, relationship').in('id', edgeIds),
+  ])
+  if (nodesError) throw nodesError
+  if (edgesError) throw edgesError
+
+  const nodeById = new Map<string, PathNode>((nodes || []).map(n => [n.id, n]))
+  const relationshipById = new Map<string, string>((edges || []).map(e => [e.id, e.relationship]))
+
+  return rows.map(row => {
+    const pathNodes = row.path.map(id => nodeById.get(id) || { id, label: id, type: null })
+    const hops = row.edge_ids.map((edgeId, i): PathHop => ({
+      edgeId,
+      relationship: relationshipById.get(edgeId) || 'related_to',
+      from: pathNodes[i],
+      to: pathNodes[i + 1],
+      direction: row.forward[i] ? 'forward' : 'backward',
+    }))
+
+    return {
+      nodes: pathNodes,
+      hops,
+      totalWeight: row.total_weight,
+      description: describePath(pathNodes[0], hops),
+    }
+  })
+}
+
+// "Elon Musk → [founded] → SpaceX ← [supplies] ← ..." style rendering, with
+// arrows pointing the way the underlying edge points.
+export function describePath(start: PathNode, hops: PathHop[]): string {
+  return hops.reduce((text, hop) => {
+    return hop.direction === 'forward'
+      ? `${text} → [${hop.relationship}] → ${hop.to.label}`
+      : `${text} ← [${hop.relationship}] ← ${hop.to.label}`
+  }, start.label)
+}
+
+// Flatten paths into nodes/edges the graph visualization can merge and highlight
+export function pathsToGraphData(paths: GraphPath[]): GraphViewData {
+  const nodes = new Map<string, GraphViewData['nodes'][number]>()
+  const edges = new Map<string, GraphViewData['edges'][number]>()
+
+  for (const path of paths) {
+    path.nodes.forEach(node => nodes.set(node.id, toViewNode({ ...node, properties: null })))
+    path.hops.forEach(hop => {
+      const [source, target] = hop.direction === 'forward' ? [hop.from, hop.to] : [hop.to, hop.from]
+      edges.set(hop.edgeId, toViewEdge({
+        id: hop.edgeId,
+        source_id: source.id,
+        target_id: target.id,
+        relationship: hop.relationship,
+      }))
+    })
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) }
+}
+
+export async function traverseFrom(
+  supabase: SupabaseClient,
+  nodeId: string,
+  maxDepth: number,
+  during?: TimeRange | null
+): Promise<Traversal> {
+  const { data, error } = await supabase.rpc('get_connected_nodes', {
+    node_id: nodeId,
+    max_depth: maxDepth,
+    ...timeRangeParams(during),
+  })
+  if (error) throw error
+
+  const connectedNodes: ConnectedNode[] = data || []
+  const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`)
+  const walked = new Set(connectedNodes.flatMap(node =>
+    node.path.slice(1).map((id, i) => pairKey(node.path[i], id))
+  ))
+
+  const edges = await fetchEdgesBetween(supabase, connectedNodes.map(node => node.node_id))
+  return {
+    connectedNodes,
+    edges: edges.filter(edge => walked.has(pairKey(edge.source_id, edge.target_id)) && isValidDuring(edge, during)),
+  }
+}
+
+export function traversalToGraphData(traversal: Traversal): GraphViewData {
+  return {
+    nodes: traversal.connectedNodes.map(node => toViewNode({ ...node, id: node.node_id })),
+    edges: traversal.edges.map(toViewEdge),
+  }
+}
@@ -0,0 +1,542 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { resolveNode } from './entity-resolution'
+import { toViewEdge, toViewNode, type GraphViewData, type GraphViewNode } from './graph'
+import {
+  assertEdgeFits,
+  assertNodeFits,
+  cardinalityConflicts,
+  createEdge,
+  createNode,
+  edgeFields,
+  getNode,
+  GraphStoreError,
+  nodeFields,
+  nodeInputSchema,
+  resolveNodeRef,
+  type NodeRow,
+} from './graph-store'
+import type { ChangeContext } from './history'
+import { loadOntology } from './ontology'
+import { INTERVAL_ORDER_MESSAGE, isOrderedInterval } from './temporal'
+
+// Review queue for graph writes the assistant proposes. Unless a workspace
+// auto-approves, createNode/createEdge calls from chat are stored here and
+// only reach kg_nodes/kg_edges once someone approves them.
+
+export const DEFAULT_WORKSPACE = 'default'
+export const PROPOSAL_STATUSES = ['pending', 'approved', 'rejected'] as const
+export type ProposalStatus = (typeof PROPOSAL_STATUSES)[number]
+
+export interface ProposalRow {
+  id: string
+  workspace_id: string
+  kind: 'node' | 'edge'
+  payload: Record<string, any>
+  source_proposal_id: string | null
+  target_proposal_id: string | null
+  status: ProposalStatus
+  result_id: string | null
+  conversation_id: string | null
+  turn_id: string | null
+  tool_name: string | null
+  reviewed_by: string | null
+  review_note: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+export interface WorkspaceSettings {
+  id: string
+  autoApprove: boolean
+}
+
+// Where a proposal came from; copied onto the change log when it's applied
+export interface ProposalOrigin {
+  workspaceId?: string
+  conversationId?: string
+  turnId?: string
+  toolName?: string
+}
+
+// Edge payloads point at existing nodes by id; an endpoint that is still a
+// pending node proposal is null here and set in source/target_proposal_id.
+// The labels are kept for display.
+const edgePayloadSchema = z.object({
+  source_id: z.string().uuid().nullable(),
+  target_id: z.string().uuid().nullable(),
+  source_label: z.string(),
+  target_label: z.string(),
+  relationship: edgeFields.relationship,
+  properties: edgeFields.properties.optional().default({}),
+  weight: edgeFields.weight.optional().default(1),
+  valid_from: edgeFields.valid_from.optional(),
+  valid_to: edgeFields.valid_to.optional(),
+}).refine(isOrderedInterval, { message: INTERVAL_ORDER_MESSAGE, path: ['valid_to'] })
+
+// Reviewers can change a proposal's content but not its endpoints
+export const proposalEditSchema = z.object({
+  label: nodeFields.label,
+  type: nodeFields.type,
+  properties: nodeFields.properties,
+  aliases: nodeFields.aliases,
+  relationship: edgeFields.relationship,
+  weight: edgeFields.weight,
+  valid_from: edgeFields.valid_from,
+  valid_to: edgeFields.valid_to,
+}).partial().refine(edit => Object.keys(edit).length > 0, 'Provide at least one field to change')
+
+export type ProposalEdit = z.input<typeof proposalEditSchema>
+
+export const proposalQuerySchema = z.object({
+  workspace: z.string().min(1).default(DEFAULT_WORKSPACE),
+  status: z.enum(PROPOSAL_STATUSES).default('pending'),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+// Ghost elements in the graph view use these ids so they can't collide
+// with real nodes
+export const ghostId = (proposalId: string) => `proposal:${proposalId}`
+
+// ---------------------------------------------------------------------------
+// Workspaces
+// ---------------------------------------------------------------------------
+
+// Unknown workspaces get the defaults (review everything) until saved
+export async function getWorkspace(supabase: SupabaseClient, id: string): Promise<WorkspaceSettings> {
+  const { data, error } = await supabase
+    .from('kg_workspaces')
+    .select('id, auto_approve')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return { id, autoApprove: data?.auto_approve ?? false }
+}
+
+export async function updateWorkspace(
+  supabase: SupabaseClient,
+  id: string,
+  settings: { autoApprove: boolean }
+): Promise<WorkspaceSettings> {
+  const { data, error } = await supabase
+    .from('kg_workspaces')
+    .upsert({ id, auto_approve: settings.autoApprove })
+    .select('id, auto_approve')
+    .single()
+
+  if (error) throw error
+  return { id: data.id, autoApprove: data.auto_approve }
+}
+
+// ---------------------------------------------------------------------------
+// Proposing
+// ---------------------------------------------------------------------------
+
+export async function proposeNode(
+  supabase: SupabaseClient,
+  input: z.input<typeof nodeInputSchema>,
+  origin: ProposalOrigin = {}
+): Promise<ProposalRow> {
+  return insertProposal(supabase, { kind: 'node', payload: await checkedNodePayload(supabase, input) }, origin)
+}
+
+// Endpoints are node ids or labels. Labels that don't match a node can
+// match a pending node proposal in the same workspace, so "add X and
+// connect it to Y" works before X is approved.
+export async function proposeEdge(
+  supabase: SupabaseClient,
+  input: { source: string; target: string; relationship: string; valid_from?: string | null; valid_to?: string | null },
+  origin: ProposalOrigin = {}
+): Promise<ProposalRow> {
+  const workspaceId = origin.workspaceId ?? DEFAULT_WORKSPACE
+  const [source, target] = await Promise.all([
+    resolveEndpoint(supabase, workspaceId, input.source),
+    resolveEndpoint(supabase, workspaceId, input.target),
+  ])
+
+  const relationship = assertEdgeFits(await loadOntology(supabase), { relationship: input.relationship, source, target })
+
+  const payload = edgePayloadSchema.parse({
+    source_id: source.nodeId,
+    target_id: target.nodeId,
+    source_label: source.label,
+    target_label: target.label,
+    relationship,
+    valid_from: input.valid_from,
+    valid_to: input.valid_to,
+  })
+
+  return insertProposal(supabase, {
+    kind: 'edge',
+    payload,
+    source_proposal_id: source.proposalId,
+    target_proposal_id: target.proposalId,
+  }, origin)
+}
+
+async function resolveEndpoint(supabase: SupabaseClient, workspaceId: string, ref: string) {
+  const result = await resolveNode(supabase, ref)
+  if (result.status === 'resolved') {
+    return { nodeId: result.node.id, proposalId: null, label: result.node.label, type: result.node.type }
+  }
+
+  const { data, error } = await supabase
+    .from('kg_proposals')
+    .select('id, payload')
+    .eq('workspace_id', workspaceId)
+    .eq('kind', 'node')
+    .eq('status', 'pending')
+    .ilike('payload->>label', ref.trim().replace(/[%_\\]/g, '\\$&'))
+    .order('created_at', { ascending: false })
+    .limit(1)
+  if (error) throw error
+  if (data?.[0]) {
+    const payload = data[0].payload
+    return { nodeId: null, proposalId: data[0].id as string, label: payload.label as string, type: (payload.type ?? null) as string | null }
+  }
+
+  // Neither a node nor a proposal; report it the way direct writes do
+  const node = await resolveNodeRef(supabase, ref)
+  return { nodeId: node.id, proposalId: null, label: node.label, type: node.type }
+}
+
+async function insertProposal(
+  supabase: SupabaseClient,
+  proposal: Pick<ProposalRow, 'kind' | 'payload'> & Partial<Pick<ProposalRow, 'source_proposal_id' | 'target_proposal_id'>>,
+  origin: ProposalOrigin
+): Promise<ProposalRow> {
+  const { data, error } = await supabase
+    .from('kg_proposals')
+    .insert({
+      ...proposal,
+      workspace_id: origin.workspaceId ?? DEFAULT_WORKSPACE,
+      conversation_id: origin.conversationId ?? null,
+      turn_id: origin.turnId ?? null,
+      tool_name: origin.toolName ?? null,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// ---------------------------------------------------------------------------
+// Reviewing
+// ---------------------------------------------------------------------------
+
+export async function listProposals(
+  supabase: SupabaseClient,
+  query: z.input<typeof proposalQuerySchema> = {}
+): Promise<ProposalRow[]> {
+  const { workspace, status, limit } = proposalQuerySchema.parse(query)
+  const { data, error } = await supabase
+    .from('kg_proposals')
+    .select('*')
+    .eq('workspace_id', workspace)
+    .eq('status', status)
+    .order('created_at')
+    .limit(limit)
+
+  if (error) throw error
+  return data || []
+}
+
+export async function getProposal(supabase: SupabaseClient, id: string): Promise<ProposalRow> {
+  const { data, error } = await supabase.from('kg_proposals').select('*').eq('id', id).maybeSingle()
+  if (error) throw translateError(error)
+  if (!data) throw new GraphStoreError(`Proposal ${id} not found`, 'not_found')
+  return data
+}
+
+// Change log context for applying a proposal: the reviewer is the actor,
+// and the conversation and tool come from the proposal, so undoing the
+// chat turn also undoes what was approved from it
+export function approvalChangeContext(proposal: ProposalRow, reviewer?: string): ChangeContext {
+  return {
+    actor: reviewer,
+    conversationId: proposal.conversation_id ?? undefined,
+    turnId: proposal.turn_id ?? undefined,
+    toolName: proposal.tool_name ?? undefined,
+  }
+}
+
+export async function editProposal(supabase: SupabaseClient, id: string, edit: ProposalEdit): Promise<ProposalRow> {
+  const changes = proposalEditSchema.parse(edit)
+  const proposal = await getProposal(supabase, id)
+  assertPending(proposal)
+
+  // Edited edges are checked against the ontology when they're approved
+  const payload = proposal.kind === 'node'
+    ? await checkedNodePayload(supabase, {
+      ...proposal.payload,
+      ...pick(changes, ['label', 'type', 'properties', 'aliases', 'valid_from', 'valid_to']),
+    })
+    : edgePayloadSchema.parse({
+      ...proposal.payload,
+      ...pick(changes, ['relationship', 'properties', 'weight', 'valid_from', 'valid_to']),
+    })
+
+  const { data, error } = await supabase
+    .from('kg_proposals')
+    .update({ payload })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw translateError(error)
+  if (!data) throw new GraphStoreError(`Proposal ${id} was reviewed in the meantime`, 'conflict')
+  return data
+}
+
+export interface ApprovalResult {
+  proposal: ProposalRow
+  // What was written, ready to merge into the graph view
+  graph: GraphViewData
+}
+
+// Write the proposal to the graph. Approving an edge also approves pending
+// node proposals it connects. `supabase` should carry the change context
+// from approvalChangeContext.
+export async function approveProposal(
+  supabase: SupabaseClient,
+  id: string,
+  options: { reviewer?: string } = {}
+): Promise<ApprovalResult> {
+  const graph: GraphViewData = { nodes: [], edges: [] }
+  const proposal = await applyProposal(supabase, id, options.reviewer ?? null, graph)
+  return { proposal, graph }
+}
+
+async function applyProposal(
+  supabase: SupabaseClient,
+  id: string,
+  reviewer: string | null,
+  graph: GraphViewData
+): Promise<ProposalRow> {
+  const proposal = await getProposal(supabase, id)
+  assertPending(proposal)
+
+  // Claim the proposal before writing so two reviewers can't both apply it
+  await markReviewed(supabase, proposal, { status: 'approved', reviewed_by: reviewer })
+  try {
+    const resultId = proposal.kind === 'node'
+      ? await writeNode(supabase, proposal, graph)
+      : await writeEdge(supabase, proposal, reviewer, graph)
+
+    const { data, error } = await supabase
+      .from('kg_proposals')
+      .update({ result_id: resultId })
+      .eq('id', proposal.id)
+      .select('*')
+      .single()
+    if (error) throw error
+    return data
+  } catch (error) {
+    await supabase
+      .from('kg_proposals')
+      .update({ status: 'pending', reviewed_by: null, reviewed_at: null })
+      .eq('id', proposal.id)
+    throw error
+  }
+}
+
+async function writeNode(supabase: SupabaseClient, proposal: ProposalRow, graph: GraphViewData) {
+  const node = await createNode(supabase, proposal.payload as z.input<typeof nodeInputSchema>)
+  graph.nodes.push(toViewNode(node))
+  return node.id
+}
+
+async function writeEdge(supabase: SupabaseClient, proposal: ProposalRow, reviewer: string | null, graph: GraphViewData) {
+  const payload = edgePayloadSchema.parse(proposal.payload)
+  await assertEdgeApprovable(supabase, proposal, payload)
+
+  const endpoint = async (nodeId: string | null, proposalId: string | null) => {
+    if (nodeId) return nodeId
+    const endpointProposal = await getProposal(supabase, proposalId!)
+    if (endpointProposal.status === 'approved') return endpointProposal.result_id!
+    if (endpointProposal.status === 'rejected') {
+      throw new GraphStoreError(`"${endpointProposal.payload.label}" was rejected, so this edge can't be added`, 'conflict')
+    }
+    return (await applyProposal(supabase, endpointProposal.id, reviewer, graph)).result_id!
+  }
+
+  const edge = await createEdge(supabase, {
+    source: await endpoint(payload.source_id, proposal.source_proposal_id),
+    target: await endpoint(payload.target_id, proposal.target_proposal_id),
+    relationship: payload.relationship,
+    properties: payload.properties,
+    weight: payload.weight,
+    valid_from: payload.valid_from,
+    valid_to: payload.valid_to,
+  })
+  graph.edges.push(toViewEdge(edge))
+  return edge.id
+}
+
+// Run the checks createEdge would fail on before any endpoint proposal is
+// approved, so a rejected edge doesn't leave its new nodes behind
+async function assertEdgeApprovable(
+  supabase: SupabaseClient,
+  proposal: ProposalRow,
+  payload: z.output<typeof edgePayloadSchema>
+) {
+  const ontology = await loadOntology(supabase)
+  const endpoint = async (nodeId: string | null, proposalId: string | null) => {
+    if (nodeId) return getNode(supabase, nodeId)
+    const endpointProposal = await getProposal(supabase, proposalId!)
+    if (endpointProposal.status === 'approved') return getNode(supabase, endpointProposal.result_id!)
+    if (endpointProposal.status === 'rejected') {
+      throw new GraphStoreError(`"${endpointProposal.payload.label}" was rejected, so this edge can't be added`, 'conflict')
+    }
+    const node = nodeInputSchema.parse(endpointProposal.payload)
+    return { id: ghostId(endpointProposal.id), label: node.label, type: assertNodeFits(ontology, node) }
+  }
+
+  const [source, target] = await Promise.all([
+    endpoint(payload.source_id, proposal.source_proposal_id),
+    endpoint(payload.target_id, proposal.target_proposal_id),
+  ])
+  const relationship = assertEdgeFits(ontology, { relationship: payload.relationship, source, target })
+
+  const [conflict] = await cardinalityConflicts(supabase, ontology, [{ source_id: source.id, target_id: target.id, relationship }])
+  if (conflict) throw new GraphStoreError(conflict.message, 'conflict', { existingEdgeId: conflict.existingEdgeId })
+
+  // Endpoints that are still proposals can't have a stored edge yet
+  const stored = (id: string) => !id.startsWith(ghostId(''))
+  if (stored(source.id) && stored(target.id)) {
+    const { data, error } = await supabase
+      .from('kg_edges')
+      .select('id')
+      .eq('source_id', source.id)
+      .eq('target_id', target.id)
+      .eq('relationship', relationship)
+      .maybeSingle()
+    if (error) throw error
+    if (data) {
+      throw new GraphStoreError(`A "${relationship}" edge between these nodes already exists`, 'conflict', { existingEdgeId: data.id })
+    }
+  }
+}
+
+// Rejecting a node proposal also rejects pending edges that depend on it
+export async function rejectProposal(
+  supabase: SupabaseClient,
+  id: string,
+  options: { reviewer?: string; note?: string } = {}
+): Promise<ProposalRow> {
+  const proposal = await getProposal(supabase, id)
+  assertPending(proposal)
+
+  const rejected = await markReviewed(supabase, proposal, {
+    status: 'rejected',
+    reviewed_by: options.reviewer ?? null,
+    review_note: options.note ?? null,
+  })
+
+  if (proposal.kind === 'node') {
+    const { error } = await supabase
+      .from('kg_proposals')
+      .update({
+        status: 'rejected',
+        reviewed_by: options.reviewer ?? null,
+        review_note: `Endpoint "${proposal.payload.label}" was rejected`,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('status', 'pending')
+      .or(`source_proposal_id.eq.${id},target_proposal_id.eq.${id}`)
+    if (error) throw error
+  }
+  return rejected
+}
+
+// Only the first reviewer wins; a proposal reviewed in the meantime is a
+// conflict
+async function markReviewed(
+  supabase: SupabaseClient,
+  proposal: ProposalRow,
+  review: Partial<Pick<ProposalRow, 'status' | 'result_id' | 'reviewed_by' | 'review_note'>>
+): Promise<ProposalRow> {
+  const { data, error } = await supabase
+    .from('kg_proposals')
+    .update({ ...review, reviewed_at: new Date().toISOString() })
+    .eq('id', proposal.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw translateError(error)
+  if (!data) throw new GraphStoreError(`Proposal ${proposal.id} was reviewed in the meantime`, 'conflict')
+  return data
+}
+
+function assertPending(proposal: ProposalRow) {
+  if (proposal.status !== 'pending') {
+    throw new GraphStoreError(`Proposal ${proposal.id} is already ${proposal.status}`, 'conflict')
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Graph view
+// ---------------------------------------------------------------------------
+
+// Pending proposals as ghost nodes and edges, plus the existing nodes that
+// proposed edges attach to so the ghosts have something to connect to
+export async function proposalsToGraphData(supabase: SupabaseClient, proposals: ProposalRow[]): Promise<GraphViewData> {
+  const nodes: GraphViewNode[] = proposals
+    .filter(proposal => proposal.kind === 'node')
+    .map(proposal => ({
+      id: ghostId(proposal.id),
+      label: proposal.payload.label,
+      type: proposal.payload.type || undefined,
+      description: proposal.payload.properties?.description,
+      ghost: true,
+    }))
+
+  const edgeProposals = proposals.filter(proposal => proposal.kind === 'edge')
+  const edges = edgeProposals.map(proposal => ({
+    id: ghostId(proposal.id),
+    source: proposal.payload.source_id ?? ghostId(proposal.source_proposal_id!),
+    target: proposal.payload.target_id ?? ghostId(proposal.target_proposal_id!),
+    label: proposal.payload.relationship,
+    ghost: true,
+  }))
+
+  const endpointIds = Array.from(new Set(
+    edgeProposals.flatMap(proposal => [proposal.payload.source_id, proposal.payload.target_id]).filter(Boolean)
+  ))
+  if (endpointIds.length > 0) {
+    const { data, error } = await supabase
+      .from('kg_nodes')
+      .select('id, label, type, properties, valid_from, valid_to')
+      .in('id', endpointIds)
+    if (error) throw error
+    nodes.push(...(data || []).map(row => toViewNode(row as NodeRow)))
+  }
+
+  return { nodes, edges }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Check node fields against the ontology up front so reviewers only see
+// changes that can be approved
+async function checkedNodePayload(supabase: SupabaseClient, input: unknown) {
+  const node = nodeInputSchema.parse(input)
+  const type = assertNodeFits(await loadOntology(supabase), node)
+  return { ...node, type: type ?? undefined }
+}
+
+function pick<T extends Record<string, unknown>>(value: T, keys: Array<keyof T>) {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => keys.includes(key as keyof T)))
+}
+
+function translateError(error: { code?: string; message: string }) {
+  // Malformed UUIDs
+  if (error.code === '22P02') return new GraphStoreError('Proposal not found', 'not_found')
+  return error
+}
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { generateStoredEmbeddings, getEmbeddingProvider } from './embeddings'
+import { embedNodes } from './graph-store'
+
+// Finds and refreshes vectors that no longer match what they embed: rows
+// with no embedding, rows whose text changed after they were embedded
+// (embedded_at is cleared by the track_embedding_freshness trigger), and
+// rows embedded by a different model than the one configured now. Run it
+// after changing EMBEDDING_MODEL or EMBEDDING_PROVIDER, since vectors from
+// different models can't be compared.
+
+const BATCH_SIZE = 100
+
+export const EMBEDDED_TABLES = ['kg_nodes', 'document_chunks'] as const
+
+export type EmbeddedTable = (typeof EMBEDDED_TABLES)[number]
+
+export interface EmbeddingTableStatus {
+  total: number
+  missing: number
+  // Text changed since the vector was made
+  outdated: number
+  // Embedded by another model, or before models were recorded
+  otherModel: number
+}
+
+export interface EmbeddingStatus {
+  model: string
+  tables: Record<EmbeddedTable, EmbeddingTableStatus>
+}
+
+export const reembedSchema = z.object({
+  tables: z.array(z.enum(EMBEDDED_TABLES)).min(1).default([...EMBEDDED_TABLES]),
+  // Re-embed every row, not just stale ones
+  force: z.boolean().default(false),
+  // Rows per table; the rest are picked up by the next run
+  limit: z.number().int().min(1).optional(),
+  // Only count what would be re-embedded
+  dryRun: z.boolean().default(false),
+})
+
+export type ReembedOptions = z.input<typeof reembedSchema> & {
+  onBatch?: (table: EmbeddedTable, done: number) => void
+}
+
+const TEXT_COLUMNS: Record<EmbeddedTable, string> = {
+  kg_nodes: 'id, label, type, properties',
+  document_chunks: 'id, content',
+}
+
+export async function embeddingStatus(supabase: SupabaseClient): Promise<EmbeddingStatus> {
+  const model = getEmbeddingProvider().model
+  const rows = (table: EmbeddedTable) => supabase.from(table).select('id', { count: 'exact', head: true })
+  const count = async (query: PromiseLike<{ count: number | null; error: unknown }>) => {
+    const { count, error } = await query
+    if (error) throw error
+    return count ?? 0
+  }
+
+  const tables = {} as Record<EmbeddedTable, EmbeddingTableStatus>
+  for (const table of EMBEDDED_TABLES) {
+    tables[table] = {
+      total: await count(rows(table)),
+      missing: await count(rows(table).is('embedding', null)),
+      outdated: await count(rows(table).not('embedding', 'is', null).is('embedded_at', null)),
+      otherModel: await count(
+        rows(table).not('embedding', 'is', null).not('embedded_at', 'is', null).or(otherModelFilter(model))
+      ),
+    }
+  }
+  return { model, tables }
+}
+
+// Re-embed stale rows (or all rows with force), in batches. Returns how many
+// rows each table had re-embedded, or would have with dryRun.
+export async function reembed(
+  supabase: SupabaseClient,
+  options: ReembedOptions = {}
+): Promise<Record<EmbeddedTable, number>> {
+  const { tables, force, limit, dryRun } = reembedSchema.parse(options)
+  const model = getEmbeddingProvider().model
+  const done = { kg_nodes: 0, document_chunks: 0 }
+
+  for (const table of tables) {
+    // Walk by id so rows that fail to update can't be fetched forever
+    let after: string | null = null
+    while (limit === undefined || done[table] < limit) {
+      const size: number = Math.min(BATCH_SIZE, limit === undefined ? BATCH_SIZE : limit - done[table])
+      let query = supabase.from(table).select(TEXT_COLUMNS[table]).order('id').limit(size)
+      if (!force) query = query.or(`embedding.is.null,embedded_at.is.null,${otherModelFilter(model)}`)
+      if (after) query = query.gt('id', after)
+
+      const { data, error } = await query
+      if (error) throw error
+      const rows = (data || []) as unknown as Array<Record<string, any>>
+      if (rows.length === 0) break
+
+      if (!dryRun) {
+        const embeddings = table === 'kg_nodes'
+          ? await embedNodes(rows as Array<{ label: string; type: string | null; properties: Record<string, any> | null }>)
+          : await generateStoredEmbeddings(rows.map(row => row.content))
+        for (const [i, row] of rows.entries()) {
+          const { error: updateError } = await supabase.from(table).update(embeddings[i]).eq('id', row.id)
+          if (updateError) throw updateError
+        }
+      }
+
+      done[table] += rows.length
+      after = rows[rows.length - 1].id
+      options.onBatch?.(table, done[table])
+      if (rows.length < size) break
+    }
+  }
+  return done
+}
+
+// PostgREST filter for vectors made by a model other than this one. Quoted
+// because model names can contain reserved characters.
+function otherModelFilter(model: string) {
+  return `embedding_model.is.null,embedding_model.neq."${model.replace(/"/g, '\\"')}"`
+}
@@ -0,0 +1,286 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateEmbedding } from './embeddings'
+import { fetchEdgesBetween } from './graph'
+import { fetchDocumentTitles } from './documents'
+
+// Hybrid retrieval: vector search over chunks and nodes, graph expansion
+// around the matched nodes, and the chunks those nodes were extracted from,
+// merged into one ranked list with reciprocal rank fusion (RRF).
+
+export type RetrievalSource = 'chunk_vector' | 'node_vector' | 'graph_expansion' | 'node_chunks'
+
+export interface Provenance {
+  source: RetrievalSource
+  rank: number
+  similarity?: number
+  // For graph_expansion / node_chunks: the node that led here and how far away it was
+  viaNodeId?: string
+  depth?: number
+}
+
+export interface ChunkResult {
+  kind: 'chunk'
+  id: string
+  documentId: string | null
+  documentTitle: string | null
+  content: string
+  metadata: Record<string, any> | null
+  score: number
+  provenance: Provenance[]
+}
+
+export interface NodeResult {
+  kind: 'node'
+  id: string
+  label: string
+  type: string | null
+  description: string | null
+  score: number
+  provenance: Provenance[]
+}
+
+export type RetrievalResult = ChunkResult | NodeResult
+
+export interface HybridSearchOptions {
+  limit?: number
+  chunkThreshold?: number
+  nodeThreshold?: number
+  // Candidates fetched from each vector index before fusion
+  candidateCount?: number
+  // How many of the top node matches to expand, and how far
+  expandTopNodes?: number
+  expansionDepth?: number
+  // RRF damping constant; 60 is the value from the original paper
+  rrfK?: number
+}
+
+export interface HybridSearchResult {
+  query: string
+  results: RetrievalResult[]
+  // Edges between the returned nodes, for explaining how they relate
+  relationships: Array<{ id: string; source: string; target: string; relationship: string }>
+}
+
+export interface RankedList {
+  source: RetrievalSource
+  items: Array<{ key: string; provenance: Omit<Provenance, 'source' | 'rank'> }>
+}
+
+export async function hybridSearch(
+  supabase: SupabaseClient,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResult> {
+  const {
+    limit = 10,
+    chunkThreshold = 0.3,
+    nodeThreshold = 0.3,
+    candidateCount = 20,
+    expandTopNodes = 3,
+    expansionDepth = 1,
+    rrfK = 60,
+  } = options
+
+  const embedding = await generateEmbedding(query)
+
+  const [chunkSearch, nodeSearch] = await Promise.all([
+    supabase.rpc('search_chunks_semantic', {
+      query_embedding: embedding,
+      match_threshold: chunkThreshold,
+      match_count: candidateCount,
+    }),
+    supabase.rpc('search_nodes_semantic', {
+      query_embedding: embedding,
+      match_threshold: nodeThreshold,
+      match_count: candidateCount,
+    }),
+  ])
+  if (chunkSearch.error) throw chunkSearch.error
+  if (nodeSearch.error) throw nodeSearch.error
+
+  const chunkMatches: Array<{ id: string; document_id: string | null; content: string; metadata: any; similarity: number }> = chunkSearch.data || []
+  const nodeMatches: Array<{ id: string; label: string; type: string | null; properties: any; similarity: number }> = nodeSearch.data || []
+
+  // Expand the best node matches through the graph
+  const seeds = nodeMatches.slice(0, expandTopNodes)
+  const expansions = await Promise.all(seeds.map(async seed => {
+    const { data, error } = await supabase.rpc('get_connected_nodes', {
+      node_id: seed.id,
+      max_depth: expansionDepth,
+    })
+    if (error) throw error
+    return { seed, neighbors: ((data || []) as Array<{ node_id: string; depth: number }>).filter(n => n.depth > 0) }
+  }))
+
+  const expanded = expansions
+    .flatMap(({ seed, neighbors }) => neighbors.map(n => ({ nodeId: n.node_id, viaNodeId: seed.id, depth: n.depth })))
+    .sort((a, b) => a.depth - b.depth)
+
+  // Chunks that matched or neighboring nodes were extracted from
+  const relatedNodeIds = unique([...nodeMatches.map(n => n.id), ...expanded.map(n => n.nodeId)])
+  const nodeRank = new Map(relatedNodeIds.map((id, i) => [id, i]))
+  const { data: links, error: linksError } = relatedNodeIds.length > 0
+    ? await supabase.from('kg_node_chunks').select('node_id, chunk_id').in('node_id', relatedNodeIds)
+    : { data: [], error: null }
+  if (linksError) throw linksError
+
+  const linkedChunks = ((links || []) as Array<{ node_id: string; chunk_id: string }>)
+    .sort((a, b) => (nodeRank.get(a.node_id) ?? 0) - (nodeRank.get(b.node_id) ?? 0))
+
+  const lists: RankedList[] = [
+    {
+      source: 'chunk_vector',
+      items: chunkMatches.map(c => ({ key: `chunk:${c.id}`, provenance: { similarity: c.similarity } })),
+    },
+    {
+      source: 'node_vector',
+      items: nodeMatches.map(n => ({ key: `node:${n.id}`, provenance: { similarity: n.similarity } })),
+    },
+    {
+      source: 'graph_expansion',
+      items: expanded.map(n => ({ key: `node:${n.nodeId}`, provenance: { viaNodeId: n.viaNodeId, depth: n.depth } })),
+    },
+    {
+      source: 'node_chunks',
+      items: linkedChunks.map(l => ({ key: `chunk:${l.chunk_id}`, provenance: { viaNodeId: l.node_id } })),
+    },
+  ]
+
+  const fused = reciprocalRankFusion(lists, rrfK).slice(0, limit)
+  const results = await hydrate(supabase, fused, chunkMatches, nodeMatches)
+
+  const nodeIds = results.filter(r => r.kind === 'node').map(r => r.id)
+  const relationships = await loadRelationships(supabase, nodeIds)
+
+  return { query, results, relationships }
+}
+
+// Score every item by summing 1 / (k + rank) over each list it appears in.
+// Items only keep their best (first) position within a single list.
+export function reciprocalRankFusion(lists: RankedList[], k = 60) {
+  const scores = new Map<string, { key: string; score: number; provenance: Provenance[] }>()
+
+  for (const list of lists) {
+    const seen = new Set<string>()
+    let rank = 0
+    for (const item of list.items) {
+      if (seen.has(item.key)) continue
+      seen.add(item.key)
+      rank++
+
+      const entry = scores.get(item.key) || { key: item.key, score: 0, provenance: [] }
+      entry.score += 1 / (k + rank)
+      entry.provenance.push({ source: list.source, rank, ...item.provenance })
+      scores.set(item.key, entry)
+    }
+  }
+
+  return Array.from(scores.values()).sort((a, b) => b.score - a.score)
+}
+
+async function hydrate(
+  supabase: SupabaseClient,
+  fused: ReturnType<typeof reciprocalRankFusion>,
+  chunkMatches: Array<{ id: string; document_id: string | null; content: string; metadata: any }>,
+  nodeMatches: Array<{ id: string; label: string; type: string | null; properties: any }>
+): Promise<RetrievalResult[]> {
+  const chunkIds = fused.filter(f => f.key.startsWith('chunk:')).map(f => f.key.slice(6))
+  const nodeIds = fused.filter(f => f.key.startsWith('node:')).map(f => f.key.slice(5))
+
+  // Vector hits already carry their rows; only fetch what came from the graph
+  const chunkRows = new Map<string, { id: string; document_id: string | null; content: string; metadata: any }>(chunkMatches.map(c => [c.id, c]))
+  const nodeRows = new Map<string, { id: string; label: string; type: string | null; properties: any }>(nodeMatches.map(n => [n.id, n]))
+
+  const missingChunks = chunkIds.filter(id => !chunkRows.has(id))
+  const missingNodes = nodeIds.filter(id => !nodeRows.has(id))
+
+  const [chunkFetch, nodeFetch] = await Promise.all([
+    missingChunks.length > 0
+      ? supabase.from('document_chunks').select('id, document_id, content, metadata').in('id', missingChunks)
+      : Promise.resolve({ data: [], error: null }),
+    missingNodes.length > 0
+      ? supabase.from('kg_nodes').select('id, label, type, properties').in('id', missingNodes)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+  if (chunkFetch.error) throw chunkFetch.error
+  if (nodeFetch.error) throw nodeFetch.error
+
+  chunkFetch.data?.forEach(row => chunkRows.set(row.id, row))
+  nodeFetch.data?.forEach(row => nodeRows.set(row.id, row))
+
+  const titles = await fetchDocumentTitles(supabase, chunkIds.map(id => chunkRows.get(id)?.document_id))
+
+  const results: RetrievalResult[] = []
+  for (const item of fused) {
+    const score = Math.round(item.score * 10000) / 10000
+    if (item.key.startsWith('chunk:')) {
+      const row = chunkRows.get(item.key.slice(6))
+      if (!row) continue
+      results.push({
+        kind: 'chunk',
+        id: row.id,
+        documentId: row.document_id,
+        documentTitle: row.document_id ? titles.get(row.document_id) || null : null,
+        content: row.content,
+        metadata: row.metadata,
+        score,
+        provenance: item.provenance,
+      })
+    } else {
+      const row = nodeRows.get(item.key.slice(5))
+      if (!row) continue
+      results.push({
+        kind: 'node',
+        id: row.id,
+        label: row.label,
+        type: row.type,
+        description: row.properties?.description || null,
+        score,
+        provenance: item.provenance,
+      })
+    }
+  }
+
+  return results
+}
+
+async function loadRelationships(supabase: SupabaseClient, nodeIds: string[]) {
+  const edges = await fetchEdgesBetween(supabase, nodeIds)
+  return edges.map(edge => ({
+    id: edge.id,
+    source: edge.source_id,
+    target: edge.target_id,
+    relationship: edge.relationship,
+  }))
+}
+
+// Compact text rendering of the fused results for a model prompt
+// Items are numbered [1], [2], ... unless explicit citation numbers are given
+export function formatRetrievalContext(search: HybridSearchResult, citationIds?: number[]): string {
+  if (search.results.length === 0) {
+    return 'No documents or graph nodes matched this query.'
+  }
+
+  const labels = new Map(search.results.filter(r => r.kind === 'node').map(r => [r.id, (r as NodeResult).label]))
+  const lines = search.results.map((result, i) => {
+    const n = citationIds?.[i] ?? i + 1
+    const via = result.provenance.map(p => p.source).join(', ')
+    if (result.kind === 'chunk') {
+      return `[${n}] Document "${result.documentTitle || 'Unknown Document'}" (chunk ${result.id}, score ${result.score}, via ${via}):\n${result.content}`
+    }
+    return `[${n}] Node "${result.label}"${result.type ? ` (${result.type})` : ''} (score ${result.score}, via ${via})${result.description ? `: ${result.description}` : ''}`
+  })
+
+  const relationships = search.relationships.map(rel =>
+    `${labels.get(rel.source)} → [${rel.relationship}] → ${labels.get(rel.target)}`
+  )
+
+  return [
+    ...lines,
+    ...(relationships.length > 0 ? ['', 'Relationships between these nodes:', ...relationships] : []),
+  ].join('\n')
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
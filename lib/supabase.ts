@@ -1,5 +1,6 @@
 import { createBrowserClient, createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { changeHeaders, type ChangeContext } from './history'
 
 export function createClient() {
   return createBrowserClient(
@@ -8,13 +9,16 @@ export function createClient() {
   )
 }
 
-export async function createServerSideClient() {
+// Writes made through a client created with a change context are logged
+// under that actor, conversation and tool in kg_changes
+export async function createServerSideClient(change?: ChangeContext) {
   const cookieStore = await cookies()
   
   return createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
+      global: { headers: changeHeaders(change) },
       cookies: {
         getAll() {
           return cookieStore.getAll()
@@ -0,0 +1,93 @@
+import { z } from 'zod'
+
+// Optional validity intervals on nodes and edges (valid_from/valid_to).
+// Dates may be partial: a partial valid_from starts at the beginning of its
+// period and a partial valid_to runs to the end, so 1969 to 1972 covers all
+// four years. Intervals are inclusive and a missing bound is open-ended;
+// rows without dates are valid at all times.
+
+export interface TimeRange {
+  // ISO dates (YYYY-MM-DD); null for an open bound
+  start: string | null
+  end: string | null
+}
+
+const PARTIAL_DATE = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/
+const DATE_MESSAGE = 'Use a date like 1969, 1969-07 or 1969-07-20'
+
+// Expand YYYY, YYYY-MM or YYYY-MM-DD to a full date at the start or end of
+// the period; null if the value isn't a real date
+export function expandDate(value: string, bound: 'start' | 'end'): string | null {
+  const match = PARTIAL_DATE.exec(value.trim())
+  if (!match) return null
+
+  const year = Number(match[1])
+  const month = match[2] ? Number(match[2]) : bound === 'start' ? 1 : 12
+  if (month < 1 || month > 12) return null
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const day = match[3] ? Number(match[3]) : bound === 'start' ? 1 : lastDay
+  if (day < 1 || day > lastDay) return null
+
+  return `${match[1]}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+const dateBound = (bound: 'start' | 'end') =>
+  z.string().transform((value, ctx) => {
+    const date = expandDate(value, bound)
+    if (date) return date
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: DATE_MESSAGE })
+    return z.NEVER
+  })
+
+// Write fields for nodes and edges; null clears a bound
+export const temporalFields = {
+  valid_from: dateBound('start').nullable().describe('When this became true, e.g. "2002" or "1969-07-20"'),
+  valid_to: dateBound('end').nullable().describe('When this stopped being true; leave empty if it still holds'),
+}
+
+export function isOrderedInterval(value: { valid_from?: string | null; valid_to?: string | null }) {
+  return !value.valid_from || !value.valid_to || value.valid_from <= value.valid_to
+}
+
+export const INTERVAL_ORDER_MESSAGE = 'valid_from must not be after valid_to'
+
+const queryDate = z.string().refine(value => expandDate(value, 'start') !== null, DATE_MESSAGE)
+
+// Read parameters: asOf for a point in time (a partial date means any time in
+// that period), or a since/until range. Not from/to, which path queries
+// already use for their endpoints.
+export const temporalQueryFields = {
+  asOf: queryDate.optional().describe('Only include facts valid at this date, e.g. "1969" or "2024-01-01"'),
+  since: queryDate.optional().describe('Start of a date range; facts valid at any point in the range are included'),
+  until: queryDate.optional().describe('End of a date range'),
+}
+
+export type TemporalQuery = { asOf?: string; since?: string; until?: string }
+
+// Turn validated asOf/since/until into a range; null when no time filter was given
+export function toTimeRange(query: TemporalQuery): TimeRange | null {
+  const start = query.asOf ?? query.since
+  const end = query.asOf ?? query.until
+  const range = {
+    start: start ? expandDate(start, 'start') : null,
+    end: end ? expandDate(end, 'end') : null,
+  }
+  return range.start || range.end ? range : null
+}
+
+// Parameters for the SQL functions that take a validity range
+export function timeRangeParams(range: TimeRange | null | undefined) {
+  return { valid_start: range?.start ?? null, valid_end: range?.end ?? null }
+}
+
+// Same test as the is_valid_during SQL function. ISO dates compare correctly
+// as strings.
+export function isValidDuring(
+  item: { valid_from?: string | null; valid_to?: string | null },
+  range: TimeRange | null | undefined
+): boolean {
+  if (!range) return true
+  return (!range.end || !item.valid_from || item.valid_from <= range.end)
+    && (!range.start || !item.valid_to || item.valid_to >= range.start)
+}
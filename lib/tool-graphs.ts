@@ -0,0 +1,77 @@
+import type { Message } from 'ai'
+import { getCitations, type Citation } from './citations'
+import { mergeGraphData, toViewEdge, toViewNode, type GraphViewData } from './graph'
+
+// The part of the graph each tool call in an assistant reply touched, so the
+// canvas can show what a reply looked at: traversals and paths with their
+// edges, search hits, analysis results and nodes or edges the reply wrote.
+// Built from the streamed citations plus the few results that carry graph
+// rows of their own.
+
+export interface ToolGraph {
+  toolName: string
+  graph: GraphViewData
+}
+
+// One entry per finished tool call that touched the graph, in call order
+export function getToolGraphs(message: Pick<Message, 'toolInvocations' | 'annotations'>): ToolGraph[] {
+  const citations = new Map(getCitations(message.annotations).map(citation => [citation.id, citation]))
+
+  return (message.toolInvocations || []).flatMap(invocation => {
+    if (invocation.state !== 'result' || !invocation.result || invocation.result.error) return []
+
+    let graph: GraphViewData = { nodes: [], edges: [] }
+    for (const id of citationIds(invocation.result)) {
+      const citation = citations.get(id)
+      if (citation) graph = mergeGraphData(graph, citationGraph(citation))
+    }
+    graph = mergeGraphData(graph, resultGraph(invocation.toolName, invocation.result))
+
+    return graph.nodes.length > 0 || graph.edges.length > 0 ? [{ toolName: invocation.toolName, graph }] : []
+  })
+}
+
+// Citation numbers anywhere in a tool result
+function citationIds(value: unknown): number[] {
+  if (Array.isArray(value)) return value.flatMap(citationIds)
+  if (typeof value !== 'object' || value === null) return []
+  return Object.entries(value).flatMap(([key, entry]) =>
+    key === 'citation' && typeof entry === 'number' ? [entry] : citationIds(entry)
+  )
+}
+
+function citationGraph(citation: Citation): GraphViewData {
+  switch (citation.kind) {
+    case 'node':
+      return {
+        nodes: [{ id: citation.nodeId, label: citation.label, type: citation.type ?? undefined, description: citation.description ?? undefined }],
+        edges: [],
+      }
+    case 'path':
+    case 'community':
+      return citation.graph
+    case 'chunk':
+      return { nodes: [], edges: [] }
+  }
+}
+
+// Graph rows in results that citations don't cover: the edges between
+// hybrid search hits, and what createNode/createEdge wrote. Proposals are
+// left to the ghost overlay.
+function resultGraph(toolName: string, result: any): GraphViewData {
+  switch (toolName) {
+    case 'hybridSearch':
+      return {
+        nodes: [],
+        edges: (result.relationships || []).map((rel: { id: string; source: string; target: string; relationship: string }) =>
+          ({ id: rel.id, source: rel.source, target: rel.target, label: rel.relationship })
+        ),
+      }
+    case 'createNode':
+      return result.proposed || !result.id ? { nodes: [], edges: [] } : { nodes: [toViewNode(result)], edges: [] }
+    case 'createEdge':
+      return result.proposed || !result.id ? { nodes: [], edges: [] } : { nodes: [], edges: [toViewEdge(result)] }
+    default:
+      return { nodes: [], edges: [] }
+  }
+}
@@ -0,0 +1,62 @@
+import { createClient } from '@supabase/supabase-js'
+import { detectCommunities, summarizeCommunities } from '../lib/communities'
+
+// Clusters the knowledge graph into communities and writes a summary for
+// each one, for the globalSearch chat tool. Re-running keeps summaries of
+// communities whose members didn't change.
+//
+// Usage:
+//   npm run communities -- [--resolution 1] [--min-size 2] [--max-levels 3]
+//                          [--skip-detect] [--skip-summaries] [--force] [--limit 50]
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+async function buildCommunities(argv: string[]) {
+  let resolution: number | undefined
+  let minSize: number | undefined
+  let maxLevels: number | undefined
+  let limit: number | undefined
+  let detect = true
+  let summarize = true
+  let force = false
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--resolution': resolution = Number(argv[++i]); break
+      case '--min-size': minSize = Number(argv[++i]); break
+      case '--max-levels': maxLevels = Number(argv[++i]); break
+      case '--limit': limit = Number(argv[++i]); break
+      case '--skip-detect': detect = false; break
+      case '--skip-summaries': summarize = false; break
+      case '--force': force = true; break
+      default: throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  if (detect) {
+    console.log('🧩 Detecting communities...')
+    const result = await detectCommunities(supabase, { resolution, minSize, maxLevels })
+    console.log(`  ${result.nodes} nodes, ${result.edges} edges`)
+    result.levels.forEach(level => {
+      console.log(`  level ${level.level}: ${level.communities} communities (modularity ${level.modularity.toFixed(3)})`)
+    })
+    if (result.reused > 0) console.log(`  ${result.reused} unchanged communities kept their summaries`)
+  }
+
+  if (summarize) {
+    console.log(`\n📝 Summarizing ${force ? 'all' : 'stale'} communities...`)
+    const results = await summarizeCommunities(supabase, {
+      force,
+      limit,
+      onCommunity: (community, report) => {
+        console.log(`  ✅ level ${community.level}, ${community.size} members: ${report.title}`)
+      },
+    })
+    console.log(`\n✨ Summarized ${results.length} communit${results.length === 1 ? 'y' : 'ies'}`)
+  }
+}
+
+export { buildCommunities }
@@ -0,0 +1,100 @@
+import { createClient } from '@supabase/supabase-js'
+import { dismissDuplicate, findDuplicates, mergeNodes } from '../lib/dedup'
+import { changeHeaders } from '../lib/history'
+
+// Finds likely duplicate nodes and merges or dismisses them. Without a
+// command it only lists pairs. --merge-labels merges every pair whose labels
+// normalize to the same text into the suggested survivor.
+//
+// Usage:
+//   npm run dedup -- [--threshold 0.9] [--limit 50]
+//   npm run dedup -- --merge-labels [--force]
+//   npm run dedup -- --merge <survivor id> <duplicate id>... [--force]
+//   npm run dedup -- --dismiss <node id> <node id>
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { global: { headers: changeHeaders({ actor: 'script:dedup', toolName: 'mergeNodes' }) } }
+)
+
+async function dedupNodes(argv: string[]) {
+  let threshold: number | undefined
+  let limit: number | undefined
+  let mergeIds: string[] | undefined
+  let dismissIds: string[] | undefined
+  let mergeLabels = false
+  let force = false
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--threshold': threshold = Number(argv[++i]); break
+      case '--limit': limit = Number(argv[++i]); break
+      case '--merge': mergeIds = takeIds(argv, i); i += mergeIds.length; break
+      case '--dismiss': dismissIds = takeIds(argv, i); i += dismissIds.length; break
+      case '--merge-labels': mergeLabels = true; break
+      case '--force': force = true; break
+      default: throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  if (mergeIds) {
+    if (mergeIds.length < 2) throw new Error('--merge needs a survivor id and at least one duplicate id')
+    const [survivorId, ...duplicateIds] = mergeIds
+    await merge(survivorId, duplicateIds, force)
+    return
+  }
+
+  if (dismissIds) {
+    if (dismissIds.length !== 2) throw new Error('--dismiss needs exactly two node ids')
+    await dismissDuplicate(supabase, dismissIds[0], dismissIds[1], 'script:dedup')
+    console.log('✅ Marked as distinct')
+    return
+  }
+
+  console.log('🔎 Scanning for duplicate nodes...')
+  const pairs = await findDuplicates(supabase, { threshold, limit })
+  if (pairs.length === 0) {
+    console.log('✨ No likely duplicates found')
+    return
+  }
+
+  pairs.forEach(pair => {
+    const similarity = pair.similarity === null ? '' : ` ${pair.similarity}`
+    console.log(`  ${pair.a.label} (${pair.a.id}) ~ ${pair.b.label} (${pair.b.id}) [${pair.reasons.join(', ')}${similarity}]`)
+  })
+  console.log(`\n${pairs.length} likely duplicate pair(s)`)
+  if (!mergeLabels) return
+
+  console.log('\n🔗 Merging label matches...')
+  const merged = new Set<string>()
+  for (const pair of pairs.filter(pair => pair.reasons.includes('label'))) {
+    // An earlier merge in this run may have absorbed one side already
+    if (merged.has(pair.a.id) || merged.has(pair.b.id)) continue
+    const duplicateId = pair.suggestedSurvivorId === pair.a.id ? pair.b.id : pair.a.id
+    try {
+      await merge(pair.suggestedSurvivorId, [duplicateId], force)
+      merged.add(duplicateId)
+    } catch (error) {
+      console.log(`  ⚠️  ${pair.a.label} / ${pair.b.label}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  console.log(`\n✨ Merged ${merged.size} node(s)`)
+}
+
+async function merge(survivorId: string, duplicateIds: string[], force: boolean) {
+  const { merge, node } = await mergeNodes(supabase, survivorId, duplicateIds, { force })
+  console.log(
+    `  ✅ ${merge.merged_ids.length} node(s) merged into ${node.label}: ` +
+    `${merge.edges_moved} edges moved, ${merge.edges_merged} combined, ${merge.edges_dropped} dropped`
+  )
+}
+
+// The ids following an option, up to the next option
+function takeIds(argv: string[], i: number) {
+  const ids: string[] = []
+  while (argv[i + 1 + ids.length] && !argv[i + 1 + ids.length].startsWith('--')) ids.push(argv[i + 1 + ids.length])
+  return ids
+}
+
+export { dedupNodes }
@@ -0,0 +1,112 @@
+import { createClient } from '@supabase/supabase-js'
+import { openai } from '@ai-sdk/openai'
+import fs from 'fs/promises'
+import path from 'path'
+import { CHAT_MODES, type ChatMode } from '../lib/conversations'
+import {
+  goldenSetSchema,
+  recordingModel,
+  replayModel,
+  runEvaluation,
+  scriptedModel,
+  toReportJson,
+  toReportMarkdown,
+  type EvaluationModel,
+  type Recording,
+} from '../lib/evaluation'
+
+// Asks the golden questions in each RAG mode and writes report.json and
+// report.md, ready to commit and diff against an earlier run. Expects the
+// seeded demo data (npm run seed).
+//
+// Models:
+//   scripted  (default) calls the likely tool for each mode; no chat API calls
+//   live      gpt-4o-mini, like the chat route; --recording saves its responses
+//   replay    replays a --recording, so only retrieval changes move the scores
+//
+// Usage:
+//   npm run eval -- [--questions eval/golden-questions.json] [--mode vector]...
+//     [--k 5] [--model scripted|live|replay] [--recording eval/recording.json]
+//     [--out eval/reports]
+
+const MODELS = ['scripted', 'live', 'replay'] as const
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+async function evaluateRag(argv: string[]) {
+  let questionsPath = path.join('eval', 'golden-questions.json')
+  let outDir = path.join('eval', 'reports')
+  let recordingPath: string | undefined
+  let modelName: (typeof MODELS)[number] = 'scripted'
+  let k: number | undefined
+  const modes: ChatMode[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--questions': questionsPath = argv[++i]; break
+      case '--mode': modes.push(parseOption(argv[++i], CHAT_MODES, '--mode')); break
+      case '--k': k = Number(argv[++i]); break
+      case '--model': modelName = parseOption(argv[++i], MODELS, '--model'); break
+      case '--recording': recordingPath = argv[++i]; break
+      case '--out': outDir = argv[++i]; break
+      default: throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  const { questions } = goldenSetSchema.parse(JSON.parse(await fs.readFile(questionsPath, 'utf-8')))
+  const recording: Recording = modelName === 'replay'
+    ? await readRecording(recordingPath)
+    : {}
+  const model: EvaluationModel = modelName === 'live'
+    ? recordingModel(openai('gpt-4o-mini'), recording)
+    : modelName === 'replay' ? replayModel(recording) : scriptedModel
+
+  console.log(`🧪 Evaluating ${questions.length} question(s) with the ${modelName} model...`)
+  const report = await runEvaluation(supabase, questions, {
+    model,
+    modelName: modelName === 'live' ? 'gpt-4o-mini' : modelName,
+    k,
+    modes: modes.length > 0 ? modes : undefined,
+    onResult: result => {
+      const status = result.error ? `❌ ${result.error}` : `recall ${formatMetric(result.metrics.recallAtK)}`
+      console.log(`  ${result.mode.padEnd(6)} ${result.id}: ${status}`)
+    },
+  })
+
+  await fs.mkdir(outDir, { recursive: true })
+  await fs.writeFile(path.join(outDir, 'report.json'), toReportJson(report))
+  await fs.writeFile(path.join(outDir, 'report.md'), toReportMarkdown(report))
+  if (modelName === 'live' && recordingPath) {
+    await fs.writeFile(recordingPath, JSON.stringify(recording, null, 2) + '\n')
+    console.log(`💾 Saved model responses to ${recordingPath}`)
+  }
+
+  console.log('\n✨ Results:')
+  for (const row of report.summary) {
+    console.log(
+      `  ${row.mode.padEnd(6)} recall@${report.k} ${formatMetric(row.recallAtK)}, MRR ${formatMetric(row.mrr)},` +
+      ` citations ${formatMetric(row.citationCorrectness)}, paths ${formatMetric(row.pathCorrectness)}` +
+      (row.errors > 0 ? `, ${row.errors} error(s)` : '')
+    )
+  }
+  console.log(`\n📄 Wrote ${path.join(outDir, 'report.json')} and ${path.join(outDir, 'report.md')}`)
+}
+
+function parseOption<T extends string>(value: string | undefined, options: readonly T[], flag: string): T {
+  if (!options.includes(value as T)) throw new Error(`${flag} must be one of: ${options.join(', ')}`)
+  return value as T
+}
+
+async function readRecording(recordingPath: string | undefined): Promise<Recording> {
+  if (!recordingPath) throw new Error('--model replay needs a --recording file')
+  return JSON.parse(await fs.readFile(recordingPath, 'utf-8'))
+}
+
+function formatMetric(value: number | null) {
+  return value === null ? '–' : value.toFixed(3)
+}
+
+export { evaluateRag }
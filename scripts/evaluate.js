@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' })
+
+// Check for required environment variables
+const required = ['NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY']
+// OpenAI is needed for embeddings with the default provider, and for the live model
+const liveModel = process.argv.slice(2).join(' ').includes('--model live')
+if (liveModel || !process.env.EMBEDDING_PROVIDER || process.env.EMBEDDING_PROVIDER === 'openai') {
+  required.push('OPENAI_API_KEY')
+}
+const missing = required.filter(key => !process.env[key])
+
+if (missing.length > 0) {
+  console.error('❌ Missing required environment variables:')
+  missing.forEach(key => console.error(`   - ${key}`))
+  console.error('\nPlease add these to your .env.local file')
+  process.exit(1)
+}
+
+// Register TypeScript with proper config
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: {
+    module: 'commonjs',
+    target: 'es2017',
+    moduleResolution: 'node',
+    allowJs: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    strict: false
+  }
+})
+
+// Run the evaluation CLI
+require('./evaluate-rag.ts').evaluateRag(process.argv.slice(2))
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error)
+    process.exit(1)
+  })
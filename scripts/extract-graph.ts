@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js'
+import { extractFromChunks } from '../lib/extraction'
+import { changeHeaders } from '../lib/history'
+
+// Builds the knowledge graph from ingested document chunks. Chunks that were
+// already processed are skipped unless --force is given.
+//
+// Usage:
+//   npm run extract -- [--document <id>] [--chunk <id>]... [--limit 20] [--force] [--dry-run]
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { global: { headers: changeHeaders({ actor: 'script:extract' }) } }
+)
+
+async function extractGraph(argv: string[]) {
+  const chunkIds: string[] = []
+  let documentId: string | undefined
+  let limit: number | undefined
+  let force = false
+  let dryRun = false
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--document': documentId = argv[++i]; break
+      case '--chunk': chunkIds.push(argv[++i]); break
+      case '--limit': limit = Number(argv[++i]); break
+      case '--force': force = true; break
+      case '--dry-run': dryRun = true; break
+      default: throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  console.log(`🔎 Extracting entities and relationships${dryRun ? ' (dry run)' : ''}...`)
+
+  const results = await extractFromChunks(supabase, {
+    documentId,
+    chunkIds,
+    limit,
+    force,
+    dryRun,
+    onChunk: (chunk, result) => {
+      const { entities, relationships } = result.extraction
+      console.log(`  ✅ chunk ${chunk.id}: ${entities.length} entities, ${relationships.length} relationships`)
+      if (dryRun) {
+        relationships.forEach(rel => console.log(`     ${rel.source} → [${rel.relationship}] → ${rel.target}`))
+      }
+    },
+  })
+
+  const totals = results.reduce(
+    (sum, r) => ({
+      created: sum.created + r.nodesCreated,
+      matched: sum.matched + r.nodesMatched,
+      edges: sum.edges + r.edgesUpserted,
+      skippedEntities: sum.skippedEntities + r.skippedEntities,
+      skippedRelationships: sum.skippedRelationships + r.skippedRelationships,
+    }),
+    { created: 0, matched: 0, edges: 0, skippedEntities: 0, skippedRelationships: 0 }
+  )
+
+  console.log(`\n✨ Processed ${results.length} chunk(s)`)
+  if (!dryRun) {
+    console.log(`- ${totals.created} new nodes, ${totals.matched} matched existing nodes`)
+    console.log(`- ${totals.edges} relationships upserted`)
+    if (totals.skippedEntities + totals.skippedRelationships > 0) {
+      console.log(`- ${totals.skippedEntities} entities and ${totals.skippedRelationships} relationships skipped as outside the ontology`)
+    }
+  }
+}
+
+export { extractGraph }
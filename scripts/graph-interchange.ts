@@ -0,0 +1,177 @@
+import { createClient } from '@supabase/supabase-js'
+import fs from 'fs/promises'
+import path from 'path'
+import { exportGraph, importGraph } from '../lib/graph-transfer'
+import { resolveNodeRef } from '../lib/graph-store'
+import { changeHeaders } from '../lib/history'
+import {
+  FORMAT_INFO,
+  INTERCHANGE_FORMATS,
+  formatFromFilename,
+  parseGraph,
+  serializeGraph,
+  type InterchangeFormat,
+} from '../lib/interchange'
+
+// Export the graph (or a filtered subgraph) to a file, or import one.
+//
+// Usage:
+//   npm run export -- [--format jgf|graphml|csv|jsonld|cypher] [--out graph.json]
+//     [--center NASA] [--depth 2] [--types person,organization] [--relationships founded]
+//     [--q mars] [--prop key=value]... [--as-of 1969 | --since 1960 --until 1975]
+//   npm run import -- <file> [<edges.csv>] [--format graphml] [--dry-run] [--mode merge|create]
+//     [--report report.json]
+//
+// CSV exports write <out>.nodes.csv and <out>.edges.csv; CSV imports take the
+// nodes file followed by the edges file.
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { global: { headers: changeHeaders({ actor: 'script:import' }) } }
+)
+
+function parseArgs(argv: string[]) {
+  const options = {
+    paths: [] as string[],
+    format: undefined as InterchangeFormat | undefined,
+    out: undefined as string | undefined,
+    center: undefined as string | undefined,
+    depth: undefined as number | undefined,
+    types: undefined as string[] | undefined,
+    relationships: undefined as string[] | undefined,
+    q: undefined as string | undefined,
+    properties: undefined as Record<string, unknown> | undefined,
+    asOf: undefined as string | undefined,
+    since: undefined as string | undefined,
+    until: undefined as string | undefined,
+    dryRun: false,
+    mode: 'merge' as 'merge' | 'create',
+    report: undefined as string | undefined,
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const next = () => {
+      const value = argv[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      return value
+    }
+    const list = () => next().split(',').map(item => item.trim()).filter(Boolean)
+
+    switch (arg) {
+      case '--format': options.format = parseFormat(next()); break
+      case '--out': options.out = next(); break
+      case '--center': options.center = next(); break
+      case '--depth': options.depth = Number(next()); break
+      case '--types': options.types = list(); break
+      case '--relationships': options.relationships = list(); break
+      case '--q': options.q = next(); break
+      case '--prop': {
+        const [key, ...rest] = next().split('=')
+        options.properties = { ...options.properties, [key]: parseValue(rest.join('=')) }
+        break
+      }
+      case '--as-of': options.asOf = next(); break
+      case '--since': options.since = next(); break
+      case '--until': options.until = next(); break
+      case '--dry-run': options.dryRun = true; break
+      case '--mode': options.mode = next() === 'create' ? 'create' : 'merge'; break
+      case '--report': options.report = next(); break
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`)
+        options.paths.push(arg)
+    }
+  }
+
+  return options
+}
+
+async function exportGraphFile(argv: string[]) {
+  const options = parseArgs(argv)
+  const format = options.format ?? (options.out ? formatFromFilename(options.out) : null) ?? 'jgf'
+  const { extension } = FORMAT_INFO[format]
+
+  const centerId = options.center ? (await resolveNodeRef(supabase, options.center)).id : undefined
+  console.log(`📤 Exporting ${centerId ? `${options.depth ?? 2} hops around "${options.center}"` : 'the graph'} as ${format}...`)
+
+  const graph = await exportGraph(supabase, {
+    centerId,
+    depth: options.depth,
+    types: options.types,
+    relationships: options.relationships,
+    q: options.q,
+    properties: options.properties,
+    asOf: options.asOf,
+    since: options.since,
+    until: options.until,
+  })
+  const serialized = serializeGraph(graph, format)
+
+  if (typeof serialized === 'string') {
+    const out = options.out || `graph.${extension}`
+    await fs.writeFile(out, serialized)
+    console.log(`  ✅ ${out}`)
+  } else {
+    const base = (options.out || 'graph').replace(/(\.nodes|\.edges)?\.csv$/i, '')
+    await fs.writeFile(`${base}.nodes.csv`, serialized.nodes)
+    await fs.writeFile(`${base}.edges.csv`, serialized.edges)
+    console.log(`  ✅ ${base}.nodes.csv`)
+    console.log(`  ✅ ${base}.edges.csv`)
+  }
+
+  console.log(`\n✨ Exported ${graph.nodes.length} nodes and ${graph.edges.length} edges`)
+}
+
+async function importGraphFile(argv: string[]) {
+  const options = parseArgs(argv)
+  const [file, edgesFile] = options.paths
+  if (!file) {
+    throw new Error('Usage: npm run import -- <file> [<edges.csv>] [--format graphml] [--dry-run] [--mode merge|create]')
+  }
+
+  const format = options.format ?? formatFromFilename(file)
+  if (!format) {
+    throw new Error(`Can't tell the format of ${file}; pass --format ${INTERCHANGE_FORMATS.join('|')}`)
+  }
+
+  const content = await fs.readFile(file, 'utf-8')
+  const graph = format === 'csv'
+    ? parseGraph({ nodes: content, edges: edgesFile ? await fs.readFile(edgesFile, 'utf-8') : '' }, 'csv')
+    : parseGraph(content, format)
+
+  console.log(`📥 Importing ${path.basename(file)} (${format}, ${options.mode} mode)${options.dryRun ? ' (dry run)' : ''}...`)
+
+  const report = await importGraph(supabase, graph, { dryRun: options.dryRun, mode: options.mode })
+  const verb = options.dryRun ? 'would be ' : ''
+
+  console.log(`- Nodes: ${report.nodes.created} ${verb}created, ${report.nodes.matched} matched existing, ${report.nodes.skipped} skipped`)
+  console.log(`- Edges: ${report.edges.created} ${verb}created, ${report.edges.existing} already existed, ${report.edges.duplicates} duplicates, ${report.edges.skipped} skipped`)
+  report.matches.slice(0, 20).forEach(match =>
+    console.log(`  ↪ ${match.importId} → ${match.label} (${match.matchType})`)
+  )
+  if (report.matches.length > 20) console.log(`  ... and ${report.matches.length - 20} more matches`)
+  report.problems.forEach(problem => console.log(`  ⚠️  ${problem.kind} #${problem.index}: ${problem.message}`))
+
+  if (options.report) {
+    await fs.writeFile(options.report, JSON.stringify(report, null, 2))
+    console.log(`\n📝 Full report written to ${options.report}`)
+  }
+}
+
+function parseFormat(value: string): InterchangeFormat {
+  if (!(INTERCHANGE_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown format "${value}"; use ${INTERCHANGE_FORMATS.join('|')}`)
+  }
+  return value as InterchangeFormat
+}
+
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+export { exportGraphFile, importGraphFile }
@@ -0,0 +1,128 @@
+import { createClient } from '@supabase/supabase-js'
+import fs from 'fs/promises'
+import path from 'path'
+import { ingestDocument } from '../lib/documents'
+import type { ChunkingStrategy } from '../lib/chunking'
+
+// Non-destructive document ingestion. Unlike the seed script this never
+// clears existing data; re-ingesting a file with --replace swaps out the
+// previous version of that same file.
+//
+// Usage:
+//   npm run ingest -- <file-or-dir>... [--strategy heading|fixed|sentence]
+//     [--max-tokens 200] [--overlap 40] [--min-chars 1] [--title "Title"] [--replace]
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt']
+
+interface CliOptions {
+  paths: string[]
+  strategy?: ChunkingStrategy
+  maxTokens?: number
+  overlap?: number
+  minChars?: number
+  title?: string
+  replace: boolean
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { paths: [], replace: false }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const next = () => {
+      const value = argv[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      return value
+    }
+
+    switch (arg) {
+      case '--strategy': options.strategy = next() as ChunkingStrategy; break
+      case '--max-tokens': options.maxTokens = Number(next()); break
+      case '--overlap': options.overlap = Number(next()); break
+      case '--min-chars': options.minChars = Number(next()); break
+      case '--title': options.title = next(); break
+      case '--replace': options.replace = true; break
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`)
+        options.paths.push(arg)
+    }
+  }
+
+  return options
+}
+
+async function collectFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target)
+  if (stat.isFile()) return [target]
+
+  const entries = await fs.readdir(target, { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries) {
+    const fullPath = path.join(target, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await collectFiles(fullPath))
+    } else if (SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath)
+    }
+  }
+  return files
+}
+
+// Prefer the first markdown H1, fall back to the file name
+function titleFor(file: string, content: string) {
+  const heading = content.match(/^#[ \t]+(.+)$/m)
+  return heading ? heading[1].trim() : path.basename(file, path.extname(file))
+}
+
+async function ingestFiles(argv: string[]) {
+  const options = parseArgs(argv)
+  if (options.paths.length === 0) {
+    throw new Error('Usage: npm run ingest -- <file-or-dir>... [--strategy heading|fixed|sentence] [--replace]')
+  }
+
+  const files = (await Promise.all(options.paths.map(collectFiles))).flat()
+  if (options.title && files.length > 1) {
+    throw new Error('--title can only be used with a single file')
+  }
+
+  console.log(`📄 Ingesting ${files.length} file(s)...`)
+
+  let failures = 0
+  for (const file of files) {
+    try {
+      const content = await fs.readFile(file, 'utf-8')
+      const ext = path.extname(file).toLowerCase()
+
+      const result = await ingestDocument(supabase, {
+        title: options.title || titleFor(file, content),
+        content,
+        format: ext === '.txt' ? 'text' : 'markdown',
+        source: path.relative(process.cwd(), file),
+        replace: options.replace,
+        chunking: {
+          strategy: options.strategy,
+          maxTokens: options.maxTokens,
+          overlap: options.overlap,
+          minChars: options.minChars,
+        },
+      })
+
+      const replacedNote = result.replaced > 0 ? `, replaced ${result.replaced} previous version(s)` : ''
+      console.log(`  ✅ ${file}: ${result.chunkCount} ${result.strategy} chunks${replacedNote}`)
+    } catch (error) {
+      failures++
+      console.error(`  ❌ ${file}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} file(s) failed to ingest`)
+  }
+}
+
+export { ingestFiles }
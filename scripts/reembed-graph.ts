@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js'
+import { embeddingStatus, reembed, type EmbeddedTable } from '../lib/reembed'
+
+// Backfills missing embeddings and re-embeds stale ones in kg_nodes and
+// document_chunks: rows whose text changed after they were embedded, and
+// rows made by a different model than EMBEDDING_MODEL. Run it after
+// switching embedding models.
+//
+// Usage:
+//   npm run reembed -- [--table kg_nodes|document_chunks]... [--limit 500] [--force] [--dry-run]
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+async function reembedGraph(argv: string[]) {
+  const tables: EmbeddedTable[] = []
+  let limit: number | undefined
+  let force = false
+  let dryRun = false
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--table': tables.push(argv[++i] as EmbeddedTable); break
+      case '--limit': limit = Number(argv[++i]); break
+      case '--force': force = true; break
+      case '--dry-run': dryRun = true; break
+      default: throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  const before = await embeddingStatus(supabase)
+  console.log(`🔎 Embedding model: ${before.model}`)
+  for (const [table, status] of Object.entries(before.tables)) {
+    console.log(`  ${table}: ${status.total} rows, ${status.missing} missing, ${status.outdated} outdated, ${status.otherModel} from another model`)
+  }
+
+  console.log(`\n🔁 Re-embedding ${force ? 'all' : 'stale'} rows${dryRun ? ' (dry run)' : ''}...`)
+  const done = await reembed(supabase, {
+    tables: tables.length > 0 ? tables : undefined,
+    limit,
+    force,
+    dryRun,
+    onBatch: (table, count) => console.log(`  ✅ ${table}: ${count}`),
+  })
+
+  const total = done.kg_nodes + done.document_chunks
+  console.log(`\n✨ ${dryRun ? 'Would re-embed' : 'Re-embedded'} ${done.kg_nodes} node(s) and ${done.document_chunks} chunk(s)`)
+  if (total === 0) console.log('- Every embedding is up to date')
+}
+
+export { reembedGraph }
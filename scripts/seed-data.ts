@@ -1,19 +1,18 @@
 import { createClient } from '@supabase/supabase-js'
-import OpenAI from 'openai'
 import fs from 'fs/promises'
 import path from 'path'
 import { randomUUID } from 'crypto'
+import { generateStoredEmbeddings } from '../lib/embeddings'
+import { embedNodes } from '../lib/graph-store'
+import { changeHeaders } from '../lib/history'
 
 // Initialize clients
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { global: { headers: changeHeaders({ actor: 'script:seed' }) } }
 )
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-})
-
 // Create UUID mappings for consistent relationships
 const nodeIdMap: Record<string, string> = {
   'nasa': randomUUID(),
@@ -31,47 +30,34 @@ const nodeIdMap: Record<string, string> = {
 // Demo data for immediate visual impact
 const DEMO_NODES = [
   // Space Exploration Theme
-  { id: nodeIdMap['nasa'], label: 'NASA', type: 'organization', properties: { description: 'National Aeronautics and Space Administration, leading space exploration' } },
-  { id: nodeIdMap['spacex'], label: 'SpaceX', type: 'organization', properties: { description: 'Private space company revolutionizing space travel' } },
-  { id: nodeIdMap['mars'], label: 'Mars', type: 'concept', properties: { description: 'The Red Planet, target for human colonization' } },
-  { id: nodeIdMap['artemis'], label: 'Artemis Program', type: 'technology', properties: { description: 'NASA\'s program to return humans to the Moon' } },
+  { id: nodeIdMap['nasa'], label: 'NASA', type: 'organization', aliases: ['National Aeronautics and Space Administration'], properties: { description: 'National Aeronautics and Space Administration, leading space exploration' } },
+  { id: nodeIdMap['spacex'], label: 'SpaceX', type: 'organization', aliases: ['Space X', 'Space Exploration Technologies'], properties: { description: 'Private space company revolutionizing space travel' } },
+  { id: nodeIdMap['mars'], label: 'Mars', type: 'concept', aliases: ['Red Planet'], properties: { description: 'The Red Planet, target for human colonization' } },
+  { id: nodeIdMap['artemis'], label: 'Artemis Program', type: 'technology', aliases: ['Artemis'], properties: { description: 'NASA\'s program to return humans to the Moon' } },
   { id: nodeIdMap['starship'], label: 'Starship', type: 'technology', properties: { description: 'SpaceX\'s fully reusable spacecraft' } },
   { id: nodeIdMap['moon'], label: 'Moon', type: 'concept', properties: { description: 'Earth\'s natural satellite' } },
-  { id: nodeIdMap['iss'], label: 'International Space Station', type: 'technology', properties: { description: 'Orbital laboratory and space habitat' } },
-  { id: nodeIdMap['elon-musk'], label: 'Elon Musk', type: 'person', properties: { description: 'CEO of SpaceX, visionary entrepreneur' } },
+  { id: nodeIdMap['iss'], label: 'International Space Station', type: 'technology', aliases: ['ISS', 'Space Station'], properties: { description: 'Orbital laboratory and space habitat' } },
+  { id: nodeIdMap['elon-musk'], label: 'Elon Musk', type: 'person', aliases: ['Musk'], properties: { description: 'CEO of SpaceX, visionary entrepreneur' } },
   { id: nodeIdMap['laika'], label: 'Laika', type: 'entity', properties: { description: 'First dog in space, Soviet space program' } },
-  { id: nodeIdMap['apollo'], label: 'Apollo Program', type: 'technology', properties: { description: 'Historic program that landed humans on the Moon' } },
+  { id: nodeIdMap['apollo'], label: 'Apollo Program', type: 'technology', aliases: ['Apollo'], properties: { description: 'Historic program that landed humans on the Moon' }, valid_from: '1961-01-01', valid_to: '1972-12-31' },
 ]
 
+// Dates say when a relationship held; edges without them are always valid
 const DEMO_EDGES = [
-  { source: nodeIdMap['nasa'], target: nodeIdMap['artemis'], relationship: 'operates' },
-  { source: nodeIdMap['nasa'], target: nodeIdMap['apollo'], relationship: 'conducted' },
+  { source: nodeIdMap['nasa'], target: nodeIdMap['artemis'], relationship: 'operates', valid_from: '2017-12-11' },
+  { source: nodeIdMap['nasa'], target: nodeIdMap['apollo'], relationship: 'conducted', valid_from: '1961-01-01', valid_to: '1972-12-31' },
   { source: nodeIdMap['spacex'], target: nodeIdMap['starship'], relationship: 'develops' },
   { source: nodeIdMap['spacex'], target: nodeIdMap['mars'], relationship: 'plans_mission_to' },
-  { source: nodeIdMap['elon-musk'], target: nodeIdMap['spacex'], relationship: 'founded' },
-  { source: nodeIdMap['artemis'], target: nodeIdMap['moon'], relationship: 'targets' },
+  { source: nodeIdMap['elon-musk'], target: nodeIdMap['spacex'], relationship: 'founded', valid_from: '2002-03-14' },
+  { source: nodeIdMap['artemis'], target: nodeIdMap['moon'], relationship: 'targets', valid_from: '2017-12-11' },
   { source: nodeIdMap['starship'], target: nodeIdMap['mars'], relationship: 'designed_for' },
-  { source: nodeIdMap['apollo'], target: nodeIdMap['moon'], relationship: 'landed_on' },
-  { source: nodeIdMap['nasa'], target: nodeIdMap['iss'], relationship: 'operates' },
-  { source: nodeIdMap['spacex'], target: nodeIdMap['iss'], relationship: 'supplies' },
+  { source: nodeIdMap['apollo'], target: nodeIdMap['moon'], relationship: 'landed_on', valid_from: '1969-07-20', valid_to: '1972-12-14' },
+  { source: nodeIdMap['nasa'], target: nodeIdMap['iss'], relationship: 'operates', valid_from: '1998-11-20' },
+  { source: nodeIdMap['spacex'], target: nodeIdMap['iss'], relationship: 'supplies', valid_from: '2012-05-25' },
   // Note: Laika is intentionally left unconnected as a teaching example
   // Users can practice creating connections in the demo
 ]
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text.slice(0, 8000),
-    })
-    return response.data[0].embedding
-  } catch (error) {
-    console.error('Embedding generation failed:', error)
-    // Fallback for demo
-    return Array(1536).fill(0).map(() => Math.random())
-  }
-}
-
 async function clearDatabase() {
   console.log('🧹 Clearing existing data...')
   
@@ -86,15 +72,8 @@ async function seedNodes() {
   console.log('🌱 Seeding knowledge graph nodes...')
   
   for (const node of DEMO_NODES) {
-    // Create text representation for embedding
-    const nodeText = [
-      node.label,
-      node.type,
-      node.properties?.description || '',
-    ].filter(Boolean).join(' - ')
-    
     // Generate embedding
-    const embedding = await generateEmbedding(nodeText)
+    const [embedding] = await embedNodes([node])
     
     const { error } = await supabase
       .from('kg_nodes')
@@ -103,7 +82,10 @@ async function seedNodes() {
         label: node.label,
         type: node.type,
         properties: node.properties,
-        embedding: embedding,
+        aliases: node.aliases || [],
+        valid_from: node.valid_from ?? null,
+        valid_to: node.valid_to ?? null,
+        ...embedding,
       })
     
     if (error) {
@@ -124,6 +106,8 @@ async function seedEdges() {
         source_id: edge.source,
         target_id: edge.target,
         relationship: edge.relationship,
+        valid_from: edge.valid_from ?? null,
+        valid_to: edge.valid_to ?? null,
       })
     
     if (error) {
@@ -170,7 +154,7 @@ async function seedDocuments() {
       console.log(`  Processing ${chunks.length} chunks for ${file.title}...`)
       
       for (let i = 0; i < chunks.length; i++) {
-        const embedding = await generateEmbedding(chunks[i])
+        const [embedding] = await generateStoredEmbeddings([chunks[i]])
         
         const { error: chunkError } = await supabase
           .from('document_chunks')
@@ -178,7 +162,7 @@ async function seedDocuments() {
             document_id: doc.id,
             content: chunks[i],
             chunk_index: i,
-            embedding: embedding,
+            ...embedding,
           })
         
         if (chunkError) {
@@ -242,14 +226,14 @@ The Moon will serve as our proving ground, where we'll test the technologies and
     const sections = spaceExplorationDoc.split('\n\n').filter(s => s.trim().length > 50)
     
     for (let i = 0; i < sections.length; i++) {
-      const embedding = await generateEmbedding(sections[i])
+      const [embedding] = await generateStoredEmbeddings([sections[i]])
       await supabase
         .from('document_chunks')
         .insert({
           document_id: doc.id,
           content: sections[i],
           chunk_index: i,
-          embedding: embedding,
+          ...embedding,
         })
     }
   }
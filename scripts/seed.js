@@ -4,7 +4,11 @@
 require('dotenv').config({ path: '.env.local' })
 
 // Check for required environment variables
-const required = ['OPENAI_API_KEY', 'NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY']
+const required = ['NEXT_PUBLIC_SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_ANON_KEY']
+// OpenAI is only needed for embeddings when using the default provider
+if (!process.env.EMBEDDING_PROVIDER || process.env.EMBEDDING_PROVIDER === 'openai') {
+  required.push('OPENAI_API_KEY')
+}
 const missing = required.filter(key => !process.env[key])
 
 if (missing.length > 0) {
@@ -4,6 +4,7 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "vector";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
 
 -- =================================================================
 -- CORE KNOWLEDGE GRAPH TABLES
@@ -15,9 +16,15 @@ CREATE TABLE IF NOT EXISTS kg_nodes (
     label VARCHAR(255) NOT NULL,
     type VARCHAR(100),
     properties JSONB DEFAULT '{}',
+    aliases TEXT[] DEFAULT '{}', -- Alternative names used for entity resolution
     embedding vector(1536), -- For semantic search (OpenAI embeddings)
+    embedding_model TEXT, -- Model that produced the embedding
+    embedded_at TIMESTAMPTZ, -- NULL when the embedded text changed since
+    valid_from DATE, -- When the entity existed; NULL bounds are open-ended
+    valid_to DATE,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    updated_at TIMESTAMPTZ DEFAULT NOW()
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from <= valid_to)
 );
 
 -- Edges represent relationships between nodes
@@ -28,9 +35,12 @@ CREATE TABLE IF NOT EXISTS kg_edges (
     relationship VARCHAR(255) NOT NULL,
     properties JSONB DEFAULT '{}',
     weight FLOAT DEFAULT 1.0,
+    valid_from DATE, -- When the relationship held, e.g. Apollo landed_on Moon 1969-1972
+    valid_to DATE,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    UNIQUE(source_id, target_id, relationship)
+    UNIQUE(source_id, target_id, relationship),
+    CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from <= valid_to)
 );
 
 -- =================================================================
@@ -53,10 +63,249 @@ CREATE TABLE IF NOT EXISTS document_chunks (
     chunk_index INTEGER NOT NULL,
     content TEXT NOT NULL,
     embedding vector(1536),
+    embedding_model TEXT,
+    embedded_at TIMESTAMPTZ,
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- =================================================================
+-- PROVENANCE TABLES
+-- =================================================================
+
+-- Which document chunks a node was extracted from
+CREATE TABLE IF NOT EXISTS kg_node_chunks (
+    node_id UUID NOT NULL REFERENCES kg_nodes(id) ON DELETE CASCADE,
+    chunk_id UUID NOT NULL REFERENCES document_chunks(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (node_id, chunk_id)
+);
+
+-- Which document chunks an edge was extracted from, with the supporting text
+CREATE TABLE IF NOT EXISTS kg_edge_chunks (
+    edge_id UUID NOT NULL REFERENCES kg_edges(id) ON DELETE CASCADE,
+    chunk_id UUID NOT NULL REFERENCES document_chunks(id) ON DELETE CASCADE,
+    evidence TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (edge_id, chunk_id)
+);
+
+-- =================================================================
+-- COMMUNITY TABLES (GraphRAG global search)
+-- =================================================================
+
+-- Communities found by Louvain clustering. Level 0 is the finest partition;
+-- each level above merges communities from the level below (parent_id).
+CREATE TABLE IF NOT EXISTS kg_communities (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    level INT NOT NULL,
+    parent_id UUID REFERENCES kg_communities(id) ON DELETE SET NULL,
+    size INT NOT NULL,
+    member_hash TEXT NOT NULL, -- Identifies the member set so summaries survive re-detection
+    title TEXT,
+    summary TEXT,
+    findings JSONB DEFAULT '[]',
+    importance FLOAT,
+    is_stale BOOLEAN DEFAULT TRUE, -- Set when members change, cleared when re-summarized
+    summarized_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every node in a community, at every level
+CREATE TABLE IF NOT EXISTS kg_community_members (
+    community_id UUID NOT NULL REFERENCES kg_communities(id) ON DELETE CASCADE,
+    node_id UUID NOT NULL REFERENCES kg_nodes(id) ON DELETE CASCADE,
+    PRIMARY KEY (community_id, node_id)
+);
+
+-- =================================================================
+-- CHANGE HISTORY
+-- =================================================================
+
+-- Append-only log of every insert, update and delete on kg_nodes and
+-- kg_edges, written by triggers. Who made a change comes from request
+-- headers the app's server sets (see lib/history.ts).
+CREATE TABLE IF NOT EXISTS kg_changes (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    table_name TEXT NOT NULL CHECK (table_name IN ('kg_nodes', 'kg_edges')),
+    record_id UUID NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+    old_row JSONB, -- Row before the change, without its embedding; NULL for inserts
+    new_row JSONB, -- Row after the change; NULL for deletes
+    node_ids UUID[] NOT NULL, -- The node itself, or both ends of an edge
+    actor TEXT,
+    conversation_id TEXT,
+    turn_id TEXT, -- Id of the chat message that triggered the change
+    tool_name TEXT,
+    client_label TEXT, -- What a REST client called itself; unverified, unlike actor
+    reverts BIGINT REFERENCES kg_changes(id), -- Set on changes made by undoing another change
+    transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =================================================================
+-- REVIEW QUEUE
+-- =================================================================
+
+-- Per-workspace settings. With auto_approve off, the assistant's
+-- createNode/createEdge calls become proposals for a person to review.
+CREATE TABLE IF NOT EXISTS kg_workspaces (
+    id TEXT PRIMARY KEY,
+    auto_approve BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO kg_workspaces (id) VALUES ('default') ON CONFLICT (id) DO NOTHING;
+
+-- Graph writes proposed by the assistant, applied to kg_nodes/kg_edges
+-- only once approved
+CREATE TABLE IF NOT EXISTS kg_proposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES kg_workspaces(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('node', 'edge')),
+    payload JSONB NOT NULL, -- Node fields, or edge fields with source_id/target_id
+    -- Edge endpoints that are themselves pending node proposals
+    source_proposal_id UUID REFERENCES kg_proposals(id) ON DELETE CASCADE,
+    target_proposal_id UUID REFERENCES kg_proposals(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    result_id UUID, -- Node or edge created on approval
+    conversation_id TEXT,
+    turn_id TEXT,
+    tool_name TEXT,
+    reviewed_by TEXT,
+    review_note TEXT,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =================================================================
+-- ONTOLOGY
+-- =================================================================
+
+-- Allowed node types. properties maps property names to a definition,
+-- e.g. {"founded": {"type": "date", "required": false}}; types are string,
+-- number, boolean, date and string[]. While this table is empty any type
+-- is accepted.
+CREATE TABLE IF NOT EXISTS kg_node_types (
+    name TEXT PRIMARY KEY,
+    description TEXT,
+    properties JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Allowed relationships, with the node types they may start at (domain)
+-- and point to (range); an empty array allows any type. While this table
+-- is empty any relationship is accepted.
+CREATE TABLE IF NOT EXISTS kg_relationship_types (
+    name TEXT PRIMARY KEY,
+    description TEXT,
+    source_types TEXT[] NOT NULL DEFAULT '{}',
+    target_types TEXT[] NOT NULL DEFAULT '{}',
+    -- many_to_one: one target per source; one_to_many: one source per target
+    cardinality TEXT NOT NULL DEFAULT 'many_to_many'
+        CHECK (cardinality IN ('many_to_many', 'many_to_one', 'one_to_many', 'one_to_one')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Starter ontology covering the demo data
+INSERT INTO kg_node_types (name, description, properties) VALUES
+('organization', 'Companies, agencies and other groups', '{"founded": {"type": "date", "description": "Founding date"}}'),
+('person', 'Individual people', '{"born": {"type": "date"}}'),
+('concept', 'Ideas, fields and celestial bodies discussed as topics', '{}'),
+('technology', 'Spacecraft, programs, models, frameworks and platforms', '{"release_date": {"type": "date"}}'),
+('place', 'Physical locations', '{}'),
+('event', 'Things that happened at a point in time', '{"date": {"type": "date"}}'),
+('entity', 'Anything that fits none of the other types', '{}')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO kg_relationship_types (name, description, source_types, target_types, cardinality) VALUES
+('founded', 'Started an organization', '{person,organization}', '{organization}', 'many_to_many'),
+('operates', 'Runs a program or facility', '{organization}', '{technology,place}', 'many_to_many'),
+('conducted', 'Carried out a program or event', '{organization}', '{technology,event}', 'many_to_many'),
+('develops', 'Builds a technology', '{organization,person}', '{technology}', 'many_to_many'),
+('supplies', 'Delivers goods or services to', '{organization}', '{technology,organization}', 'many_to_many'),
+('plans_mission_to', 'Intends to send a mission to', '{organization}', '{concept,place}', 'many_to_many'),
+('targets', 'Aims at a destination', '{technology}', '{concept,place}', 'many_to_many'),
+('designed_for', 'Built for a destination or purpose', '{technology}', '{concept,place}', 'many_to_many'),
+('landed_on', 'Touched down on', '{technology}', '{concept,place}', 'many_to_many'),
+('headquartered_in', 'Main location of an organization', '{organization}', '{place}', 'many_to_one'),
+('part_of', 'Is a component or member of', '{}', '{}', 'many_to_many')
+ON CONFLICT (name) DO NOTHING;
+
+-- =================================================================
+-- DUPLICATES
+-- =================================================================
+
+-- Node pairs a reviewer marked as "not duplicates", so scans skip them.
+-- Stored with node_a < node_b.
+CREATE TABLE IF NOT EXISTS kg_duplicate_dismissals (
+    node_a UUID NOT NULL REFERENCES kg_nodes(id) ON DELETE CASCADE,
+    node_b UUID NOT NULL REFERENCES kg_nodes(id) ON DELETE CASCADE,
+    dismissed_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (node_a, node_b),
+    CHECK (node_a < node_b)
+);
+
+-- One row per merge_nodes call; the individual edge and node changes are
+-- in kg_changes under the same transaction_id
+CREATE TABLE IF NOT EXISTS kg_node_merges (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    survivor_id UUID NOT NULL, -- No FK, so the record outlives the node
+    merged_ids UUID[] NOT NULL,
+    merged_nodes JSONB NOT NULL, -- The merged nodes as they were, without embeddings
+    edges_moved INT NOT NULL DEFAULT 0,
+    edges_merged INT NOT NULL DEFAULT 0, -- Folded into an identical edge on the survivor
+    edges_dropped INT NOT NULL DEFAULT 0, -- Edges between the merged nodes themselves
+    actor TEXT,
+    client_label TEXT, -- Unverified, as in kg_changes
+    transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =================================================================
+-- CHAT HISTORY
+-- =================================================================
+
+-- Chat threads. Ids come from the client (useChat), and are the
+-- conversation ids in kg_changes and kg_proposals.
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every message of a thread, including tool calls and their results. The
+-- RAG mode is stored per message, so one thread can switch modes.
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    seq BIGINT GENERATED ALWAYS AS IDENTITY, -- Order within the thread
+    role VARCHAR(20) NOT NULL CHECK (role IN ('system', 'user', 'assistant', 'data')),
+    content TEXT NOT NULL DEFAULT '',
+    mode VARCHAR(20) CHECK (mode IN ('vector', 'graph', 'hybrid')),
+    parts JSONB, -- Text, tool invocation and step parts as the UI renders them
+    tool_invocations JSONB,
+    annotations JSONB, -- Citations and the mode, as streamed
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One question run in every mode side by side, with the reviewer's pick of
+-- the best answer. Saved outside the threads so they can be reviewed later.
+CREATE TABLE IF NOT EXISTS chat_comparisons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question TEXT NOT NULL,
+    answers JSONB NOT NULL, -- Per mode: answer, tool calls, latency, token usage and sources
+    winner VARCHAR(20) CHECK (winner IN ('vector', 'graph', 'hybrid')),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- =================================================================
 -- INDEXES FOR PERFORMANCE
 -- =================================================================
@@ -67,6 +316,32 @@ CREATE INDEX idx_edges_target ON kg_edges(target_id);
 CREATE INDEX idx_edges_relationship ON kg_edges(relationship);
 CREATE INDEX idx_nodes_type ON kg_nodes(type);
 CREATE INDEX idx_nodes_label ON kg_nodes(label);
+CREATE INDEX idx_nodes_aliases ON kg_nodes USING gin(aliases);
+
+-- Provenance lookups from the chunk side
+CREATE INDEX idx_node_chunks_chunk ON kg_node_chunks(chunk_id);
+CREATE INDEX idx_edge_chunks_chunk ON kg_edge_chunks(chunk_id);
+
+-- Community lookups
+CREATE INDEX idx_communities_level ON kg_communities(level);
+CREATE INDEX idx_communities_parent ON kg_communities(parent_id);
+CREATE INDEX idx_community_members_node ON kg_community_members(node_id);
+
+-- Change history lookups
+CREATE INDEX idx_changes_node_ids ON kg_changes USING gin(node_ids);
+CREATE INDEX idx_changes_turn ON kg_changes(conversation_id, turn_id);
+CREATE INDEX idx_changes_transaction ON kg_changes(transaction_id);
+CREATE INDEX idx_changes_reverts ON kg_changes(reverts);
+
+-- Review queue lookups
+CREATE INDEX idx_proposals_workspace_status ON kg_proposals(workspace_id, status, created_at);
+CREATE INDEX idx_proposals_source_proposal ON kg_proposals(source_proposal_id);
+CREATE INDEX idx_proposals_target_proposal ON kg_proposals(target_proposal_id);
+CREATE INDEX idx_duplicate_dismissals_node_b ON kg_duplicate_dismissals(node_b);
+CREATE INDEX idx_node_merges_survivor ON kg_node_merges(survivor_id, created_at DESC);
+CREATE INDEX idx_chat_conversations_updated ON chat_conversations(updated_at DESC);
+CREATE INDEX idx_chat_messages_conversation ON chat_messages(conversation_id, seq);
+CREATE INDEX idx_chat_comparisons_created ON chat_comparisons(created_at DESC);
 
 -- Vector similarity search indexes
 CREATE INDEX idx_nodes_embedding ON kg_nodes USING ivfflat (embedding vector_cosine_ops);
@@ -80,8 +355,29 @@ CREATE INDEX idx_edges_properties ON kg_edges USING gin(properties);
 -- HELPER FUNCTIONS
 -- =================================================================
 
--- Function to find all nodes connected to a given node
-CREATE OR REPLACE FUNCTION get_connected_nodes(node_id UUID, max_depth INT DEFAULT 2)
+-- Whether a validity interval overlaps [range_start, range_end]. Both
+-- intervals are inclusive and NULL bounds are open, so rows without dates
+-- are always valid and a NULL range matches everything.
+CREATE OR REPLACE FUNCTION is_valid_during(
+    valid_from DATE,
+    valid_to DATE,
+    range_start DATE,
+    range_end DATE
+)
+RETURNS BOOLEAN AS $$
+SELECT (range_end IS NULL OR valid_from IS NULL OR valid_from <= range_end)
+AND (range_start IS NULL OR valid_to IS NULL OR valid_to >= range_start);
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Function to find all nodes connected to a given node. With valid_start
+-- and/or valid_end, only nodes and edges valid during that range are walked.
+DROP FUNCTION IF EXISTS get_connected_nodes(UUID, INT);
+CREATE OR REPLACE FUNCTION get_connected_nodes(
+    node_id UUID,
+    max_depth INT DEFAULT 2,
+    valid_start DATE DEFAULT NULL,
+    valid_end DATE DEFAULT NULL
+)
 RETURNS TABLE(
     node_id UUID,
     label VARCHAR(255),
@@ -120,6 +416,8 @@ WITH RECURSIVE node_graph AS (
     )
     WHERE ng.depth < $2
     AND NOT n.id = ANY(ng.path) -- Avoid cycles
+    AND is_valid_during(e.valid_from, e.valid_to, $3, $4)
+    AND is_valid_during(n.valid_from, n.valid_to, $3, $4)
 )
 SELECT DISTINCT ON (node_id) * FROM node_graph
 ORDER BY node_id, depth;
@@ -158,6 +456,284 @@ ORDER BY total_weight ASC
 LIMIT 1;
 $$ LANGUAGE SQL;
 
+-- Function to find the k shortest simple paths between two nodes.
+-- Unlike find_shortest_path this returns the edge taken for each hop and
+-- whether it was followed forwards (source -> target) or backwards, and can
+-- ignore edge direction entirely when directed = FALSE. valid_start and
+-- valid_end restrict paths to nodes and edges valid during that range.
+--
+-- A breadth-first search back from end_id finds every node's distance to
+-- it first, so paths are only extended through nodes that can still reach
+-- end_id within the shortest distance (plus two hops of slack when asking
+-- for several paths) instead of enumerating every path up to max_depth.
+DROP FUNCTION IF EXISTS find_paths(UUID, UUID, INT, INT, BOOLEAN);
+CREATE OR REPLACE FUNCTION find_paths(
+    start_id UUID,
+    end_id UUID,
+    max_depth INT DEFAULT 6,
+    max_paths INT DEFAULT 1,
+    directed BOOLEAN DEFAULT TRUE,
+    valid_start DATE DEFAULT NULL,
+    valid_end DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    path UUID[],
+    edge_ids UUID[],
+    forward BOOLEAN[],
+    total_weight FLOAT,
+    hops INT
+) AS $$
+WITH RECURSIVE to_end AS (
+    SELECT end_id as node_id, 0 as depth
+    WHERE EXISTS (SELECT 1 FROM kg_nodes WHERE id = end_id)
+
+    UNION -- Not ALL: each node is kept once per depth
+
+    -- Step back to the nodes a path could come from
+    SELECT
+        CASE WHEN e.target_id = t.node_id THEN e.source_id ELSE e.target_id END,
+        t.depth + 1
+    FROM to_end t
+    JOIN kg_nodes n ON n.id = t.node_id
+    JOIN kg_edges e ON (
+        e.target_id = t.node_id OR
+        (NOT directed AND e.source_id = t.node_id)
+    )
+    WHERE t.depth < max_depth
+    AND is_valid_during(e.valid_from, e.valid_to, valid_start, valid_end)
+    AND is_valid_during(n.valid_from, n.valid_to, valid_start, valid_end)
+),
+distance AS (
+    SELECT node_id, min(depth) as depth FROM to_end GROUP BY node_id
+),
+bound AS (
+    SELECT least(max_depth, depth + CASE WHEN max_paths > 1 THEN 2 ELSE 0 END) as hops
+    FROM distance
+    WHERE node_id = start_id
+),
+paths AS (
+    -- Base case
+    SELECT
+        ARRAY[start_id] as path,
+        ARRAY[]::UUID[] as edge_ids,
+        ARRAY[]::BOOLEAN[] as forward,
+        0::FLOAT as total_weight,
+        start_id as current_node
+    WHERE EXISTS (SELECT 1 FROM bound)
+
+    UNION ALL
+
+    -- Recursive case: follow outgoing edges, and incoming ones when undirected
+    SELECT
+        p.path || step.next_node,
+        p.edge_ids || e.id,
+        p.forward || (e.source_id = p.current_node),
+        p.total_weight + e.weight,
+        step.next_node
+    FROM paths p
+    JOIN kg_edges e ON (
+        e.source_id = p.current_node OR
+        (NOT directed AND e.target_id = p.current_node)
+    )
+    CROSS JOIN LATERAL (
+        SELECT CASE WHEN e.source_id = p.current_node THEN e.target_id ELSE e.source_id END as next_node
+    ) step
+    JOIN kg_nodes n ON n.id = step.next_node
+    JOIN distance d ON d.node_id = step.next_node
+    CROSS JOIN bound b
+    WHERE NOT step.next_node = ANY(p.path) -- Simple paths only
+    AND p.current_node <> end_id
+    AND cardinality(p.edge_ids) + 1 + d.depth <= b.hops
+    AND is_valid_during(e.valid_from, e.valid_to, valid_start, valid_end)
+    AND is_valid_during(n.valid_from, n.valid_to, valid_start, valid_end)
+)
+SELECT path, edge_ids, forward, total_weight, cardinality(edge_ids) as hops
+FROM paths
+WHERE current_node = end_id
+AND start_id <> end_id
+ORDER BY cardinality(edge_ids) ASC, total_weight ASC
+LIMIT max_paths;
+$$ LANGUAGE SQL;
+
+-- Every name a node can be resolved by, for the trigram index below
+CREATE OR REPLACE FUNCTION kg_node_names(label TEXT, aliases TEXT[])
+RETURNS TEXT AS $$
+SELECT lower(label || ' ' || COALESCE(array_to_string(aliases, ' '), ''));
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE INDEX idx_nodes_names_trgm ON kg_nodes USING gin (kg_node_names(label, aliases) gin_trgm_ops);
+CREATE INDEX idx_nodes_label_lower ON kg_nodes(lower(label));
+
+-- Function for lexical entity resolution: exact, case-insensitive and alias
+-- matches first, then trigram-fuzzy matches on labels and aliases. A node
+-- whose label or alias is at least fuzzy_threshold similar to the query has
+-- at least that word similarity to its combined names, so the indexed
+-- <% filter finds every candidate without scanning the table.
+CREATE OR REPLACE FUNCTION match_nodes_lexical(
+    query TEXT,
+    fuzzy_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 10
+)
+RETURNS TABLE(
+    id UUID,
+    label VARCHAR(255),
+    type VARCHAR(100),
+    properties JSONB,
+    aliases TEXT[],
+    match_type TEXT,
+    score FLOAT
+) AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.word_similarity_threshold', fuzzy_threshold::TEXT, true);
+
+    RETURN QUERY
+    SELECT matches.id, matches.label, matches.type, matches.properties, matches.aliases, matches.match_type, matches.score
+    FROM (
+        SELECT
+            n.id,
+            n.label,
+            n.type,
+            n.properties,
+            n.aliases,
+            CASE
+                WHEN n.label = query THEN 'exact'
+                WHEN lower(n.label) = lower(query) THEN 'case_insensitive'
+                WHEN EXISTS (SELECT 1 FROM unnest(n.aliases) a WHERE lower(a) = lower(query)) THEN 'alias'
+                ELSE 'fuzzy'
+            END as match_type,
+            GREATEST(
+                similarity(lower(n.label), lower(query)),
+                COALESCE((SELECT MAX(similarity(lower(a), lower(query))) FROM unnest(n.aliases) a), 0)
+            )::FLOAT as score
+        FROM kg_nodes n
+        WHERE lower(n.label) = lower(query)
+        OR lower(query) <% kg_node_names(n.label, n.aliases)
+    ) matches
+    WHERE matches.match_type <> 'fuzzy' OR matches.score >= fuzzy_threshold
+    ORDER BY
+        CASE matches.match_type WHEN 'exact' THEN 0 WHEN 'case_insensitive' THEN 1 WHEN 'alias' THEN 2 ELSE 3 END,
+        matches.score DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function for filtered, paginated subgraph queries. With a center node it
+-- walks up to max_depth hops (optionally only along some relationship types);
+-- without one it pages through the whole graph. Keyset pagination on
+-- (depth, id) keeps pages stable as the graph grows. valid_start/valid_end
+-- keep only nodes, and walk only edges, valid during that range.
+DROP FUNCTION IF EXISTS query_subgraph(UUID, INT, TEXT[], TEXT[], JSONB, TEXT, INT, UUID, INT);
+CREATE OR REPLACE FUNCTION query_subgraph(
+    center_id UUID DEFAULT NULL,
+    max_depth INT DEFAULT 2,
+    node_types TEXT[] DEFAULT NULL,
+    relationship_types TEXT[] DEFAULT NULL,
+    property_filter JSONB DEFAULT NULL,
+    search TEXT DEFAULT NULL,
+    after_depth INT DEFAULT NULL,
+    after_id UUID DEFAULT NULL,
+    page_size INT DEFAULT 200,
+    valid_start DATE DEFAULT NULL,
+    valid_end DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    id UUID,
+    label VARCHAR(255),
+    type VARCHAR(100),
+    properties JSONB,
+    aliases TEXT[],
+    depth INT,
+    valid_from DATE,
+    valid_to DATE,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+) AS $$
+WITH RECURSIVE walk AS (
+    SELECT center_id as node_id, 0 as depth
+    WHERE center_id IS NOT NULL
+
+    UNION
+
+    SELECT
+        n.id,
+        w.depth + 1
+    FROM walk w
+    JOIN kg_edges e ON (e.source_id = w.node_id OR e.target_id = w.node_id)
+    JOIN kg_nodes n ON n.id = CASE WHEN e.source_id = w.node_id THEN e.target_id ELSE e.source_id END
+    WHERE w.depth < max_depth
+    AND (relationship_types IS NULL OR e.relationship = ANY(relationship_types))
+    AND is_valid_during(e.valid_from, e.valid_to, valid_start, valid_end)
+    AND is_valid_during(n.valid_from, n.valid_to, valid_start, valid_end)
+),
+scope AS (
+    SELECT node_id, MIN(depth) as depth FROM walk GROUP BY node_id
+),
+-- search is matched literally: its % and _ aren't wildcards
+pattern AS (
+    SELECT '%' || replace(replace(replace(search, '\', '\\'), '%', '\%'), '_', '\_') || '%' as value
+)
+SELECT
+    n.id,
+    n.label,
+    n.type,
+    n.properties,
+    n.aliases,
+    COALESCE(s.depth, 0)::INT as depth,
+    n.valid_from,
+    n.valid_to,
+    n.created_at,
+    n.updated_at
+FROM kg_nodes n
+LEFT JOIN scope s ON s.node_id = n.id
+CROSS JOIN pattern p
+WHERE (center_id IS NULL OR s.node_id IS NOT NULL)
+AND (node_types IS NULL OR n.type = ANY(node_types) OR n.id = center_id)
+AND (property_filter IS NULL OR n.properties @> property_filter)
+AND is_valid_during(n.valid_from, n.valid_to, valid_start, valid_end)
+AND (
+    search IS NULL
+    OR n.label ILIKE p.value
+    OR EXISTS (SELECT 1 FROM unnest(n.aliases) a WHERE a ILIKE p.value)
+)
+AND (after_id IS NULL OR (COALESCE(s.depth, 0), n.id) > (after_depth, after_id))
+ORDER BY COALESCE(s.depth, 0), n.id
+LIMIT page_size;
+$$ LANGUAGE SQL STABLE;
+
+-- Function returning every edge touching a set of nodes. Takes an array so
+-- large pages don't hit URL length limits the way .in() filters do.
+DROP FUNCTION IF EXISTS get_edges_for_nodes(UUID[], TEXT[]);
+CREATE OR REPLACE FUNCTION get_edges_for_nodes(
+    node_ids UUID[],
+    relationship_types TEXT[] DEFAULT NULL,
+    valid_start DATE DEFAULT NULL,
+    valid_end DATE DEFAULT NULL
+)
+RETURNS SETOF kg_edges AS $$
+SELECT *
+FROM kg_edges e
+WHERE (e.source_id = ANY(node_ids) OR e.target_id = ANY(node_ids))
+AND (relationship_types IS NULL OR e.relationship = ANY(relationship_types))
+AND is_valid_during(e.valid_from, e.valid_to, valid_start, valid_end);
+$$ LANGUAGE SQL STABLE;
+
+-- Function returning node/edge counts, overall and per type
+CREATE OR REPLACE FUNCTION get_graph_stats()
+RETURNS JSONB AS $$
+SELECT jsonb_build_object(
+    'nodeCount', (SELECT COUNT(*) FROM kg_nodes),
+    'edgeCount', (SELECT COUNT(*) FROM kg_edges),
+    'nodeTypes', COALESCE((
+        SELECT jsonb_object_agg(type, count)
+        FROM (SELECT COALESCE(type, 'untyped') as type, COUNT(*) as count FROM kg_nodes GROUP BY 1) t
+    ), '{}'::JSONB),
+    'relationshipTypes', COALESCE((
+        SELECT jsonb_object_agg(relationship, count)
+        FROM (SELECT relationship, COUNT(*) as count FROM kg_edges GROUP BY relationship) r
+    ), '{}'::JSONB)
+);
+$$ LANGUAGE SQL STABLE;
+
 -- Function for semantic search on nodes
 CREATE OR REPLACE FUNCTION search_nodes_semantic(
     query_embedding vector(1536),
@@ -210,23 +786,57 @@ ORDER BY embedding <=> query_embedding
 LIMIT match_count;
 $$ LANGUAGE SQL;
 
+-- Chunks close to a node by its stored embedding, so showing a node's
+-- supporting text doesn't call the embedding provider. Nothing for nodes
+-- without an embedding.
+CREATE OR REPLACE FUNCTION search_chunks_near_node(
+    node_id UUID,
+    match_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 5
+)
+RETURNS TABLE(
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT
+) AS $$
+SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> n.embedding) as similarity
+FROM kg_nodes n
+CROSS JOIN LATERAL (
+    SELECT * FROM document_chunks
+    WHERE embedding IS NOT NULL
+    ORDER BY embedding <=> n.embedding
+    LIMIT match_count
+) c
+WHERE n.id = node_id
+AND n.embedding IS NOT NULL
+AND 1 - (c.embedding <=> n.embedding) > match_threshold
+ORDER BY c.embedding <=> n.embedding;
+$$ LANGUAGE SQL STABLE;
+
 -- =================================================================
 -- SAMPLE DATA INSERTION (for demo purposes)
 -- =================================================================
 
 -- Insert some sample nodes
 INSERT INTO kg_nodes (label, type, properties) VALUES
-('OpenAI', 'Organization', '{"founded": "2015", "type": "AI Research"}'),
-('GPT-4', 'Model', '{"release_date": "2023-03-14", "parameters": "1.76T"}'),
-('LangChain', 'Framework', '{"language": "Python", "purpose": "LLM Applications"}'),
-('Supabase', 'Platform', '{"type": "BaaS", "database": "PostgreSQL"}');
+('OpenAI', 'organization', '{"founded": "2015", "type": "AI Research"}'),
+('GPT-4', 'technology', '{"release_date": "2023-03-14", "parameters": "1.76T"}'),
+('LangChain', 'technology', '{"language": "Python", "purpose": "LLM Applications"}'),
+('Supabase', 'technology', '{"type": "BaaS", "database": "PostgreSQL"}');
 
 -- Insert some sample relationships
 INSERT INTO kg_edges (source_id, target_id, relationship, properties)
 SELECT 
     (SELECT id FROM kg_nodes WHERE label = 'OpenAI'),
     (SELECT id FROM kg_nodes WHERE label = 'GPT-4'),
-    'CREATED',
+    'develops',
     '{"year": "2023"}'::JSONB
 WHERE EXISTS (SELECT 1 FROM kg_nodes WHERE label = 'OpenAI')
 AND EXISTS (SELECT 1 FROM kg_nodes WHERE label = 'GPT-4');
@@ -246,6 +856,426 @@ CREATE TRIGGER update_kg_nodes_updated_at BEFORE UPDATE ON kg_nodes
 CREATE TRIGGER update_kg_edges_updated_at BEFORE UPDATE ON kg_edges
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_kg_workspaces_updated_at BEFORE UPDATE ON kg_workspaces
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_kg_node_types_updated_at BEFORE UPDATE ON kg_node_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_kg_relationship_types_updated_at BEFORE UPDATE ON kg_relationship_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_chat_conversations_updated_at BEFORE UPDATE ON chat_conversations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_chat_comparisons_updated_at BEFORE UPDATE ON chat_comparisons
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Stamp when a vector was written, and clear the stamp when the embedded
+-- text changes without a new vector, so `npm run reembed` can find rows
+-- that need one. The node text must match nodeEmbeddingText in
+-- lib/graph-store.ts.
+CREATE OR REPLACE FUNCTION track_embedding_freshness()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.embedding IS NULL THEN
+        NEW.embedding_model := NULL;
+        NEW.embedded_at := NULL;
+    ELSIF TG_OP = 'INSERT' OR NEW.embedding IS DISTINCT FROM OLD.embedding THEN
+        NEW.embedded_at := NOW();
+    ELSIF TG_TABLE_NAME = 'kg_nodes' THEN
+        IF (NEW.label, NEW.type, NEW.properties ->> 'description')
+            IS DISTINCT FROM (OLD.label, OLD.type, OLD.properties ->> 'description') THEN
+            NEW.embedded_at := NULL;
+        END IF;
+    ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.embedded_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_kg_nodes_embedding BEFORE INSERT OR UPDATE ON kg_nodes
+    FOR EACH ROW EXECUTE FUNCTION track_embedding_freshness();
+
+CREATE TRIGGER track_document_chunks_embedding BEFORE INSERT OR UPDATE ON document_chunks
+    FOR EACH ROW EXECUTE FUNCTION track_embedding_freshness();
+
+-- Community summaries go stale when a member node or an edge touching one
+-- changes; `npm run communities` re-summarizes stale communities
+CREATE OR REPLACE FUNCTION mark_communities_stale(node_ids UUID[])
+RETURNS VOID AS $$
+    UPDATE kg_communities
+    SET is_stale = TRUE
+    WHERE NOT is_stale
+    AND id IN (SELECT community_id FROM kg_community_members WHERE node_id = ANY(node_ids));
+$$ LANGUAGE SQL;
+
+-- BEFORE so deleted nodes are still listed as members
+CREATE OR REPLACE FUNCTION invalidate_node_communities()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM mark_communities_stale(ARRAY[OLD.id]);
+        RETURN OLD;
+    END IF;
+
+    -- Re-embedding alone doesn't change what a summary says
+    IF NEW.label IS DISTINCT FROM OLD.label
+        OR NEW.type IS DISTINCT FROM OLD.type
+        OR NEW.properties IS DISTINCT FROM OLD.properties
+        OR (NEW.valid_from, NEW.valid_to) IS DISTINCT FROM (OLD.valid_from, OLD.valid_to) THEN
+        PERFORM mark_communities_stale(ARRAY[NEW.id]);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION invalidate_edge_communities()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Upserts that leave the edge as it was aren't a change
+    IF TG_OP = 'UPDATE'
+        AND (NEW.source_id, NEW.target_id, NEW.relationship, NEW.properties, NEW.weight, NEW.valid_from, NEW.valid_to)
+        IS NOT DISTINCT FROM (OLD.source_id, OLD.target_id, OLD.relationship, OLD.properties, OLD.weight, OLD.valid_from, OLD.valid_to) THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM mark_communities_stale(ARRAY[OLD.source_id, OLD.target_id]);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM mark_communities_stale(ARRAY[NEW.source_id, NEW.target_id]);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invalidate_communities_on_node_change BEFORE UPDATE OR DELETE ON kg_nodes
+    FOR EACH ROW EXECUTE FUNCTION invalidate_node_communities();
+
+CREATE TRIGGER invalidate_communities_on_edge_change AFTER INSERT OR UPDATE OR DELETE ON kg_edges
+    FOR EACH ROW EXECUTE FUNCTION invalidate_edge_communities();
+
+-- Record graph writes in kg_changes. PostgREST exposes request headers as
+-- a setting; revert_change sets kg.reverts itself. SECURITY DEFINER so the
+-- log can stay read-only for API clients.
+CREATE OR REPLACE FUNCTION log_graph_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    headers JSON := NULLIF(current_setting('request.headers', true), '')::JSON;
+    claims JSON := NULLIF(current_setting('request.jwt.claims', true), '')::JSON;
+    before_row JSONB;
+    after_row JSONB;
+    changed_id UUID;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN before_row := to_jsonb(OLD) - '{embedding,embedding_model,embedded_at}'::TEXT[]; END IF;
+    IF TG_OP <> 'DELETE' THEN after_row := to_jsonb(NEW) - '{embedding,embedding_model,embedded_at}'::TEXT[]; END IF;
+
+    -- Re-embedding and upserts that leave the row as it was aren't changes
+    IF TG_OP = 'UPDATE' AND before_row - 'updated_at' = after_row - 'updated_at' THEN
+        RETURN NULL;
+    END IF;
+
+    changed_id := (COALESCE(after_row, before_row) ->> 'id')::UUID;
+    INSERT INTO kg_changes (
+        table_name, record_id, operation, old_row, new_row, node_ids,
+        actor, conversation_id, turn_id, tool_name, client_label, reverts
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        changed_id,
+        lower(TG_OP),
+        before_row,
+        after_row,
+        CASE WHEN TG_TABLE_NAME = 'kg_nodes' THEN ARRAY[changed_id]
+        ELSE ARRAY(
+            SELECT DISTINCT endpoint::UUID
+            FROM unnest(ARRAY[
+                before_row ->> 'source_id', before_row ->> 'target_id',
+                after_row ->> 'source_id', after_row ->> 'target_id'
+            ]) AS endpoint
+            WHERE endpoint IS NOT NULL
+        ) END,
+        COALESCE(headers ->> 'x-change-actor', claims ->> 'sub', claims ->> 'role', session_user::TEXT),
+        headers ->> 'x-change-conversation',
+        headers ->> 'x-change-turn',
+        headers ->> 'x-change-tool',
+        headers ->> 'x-change-client',
+        NULLIF(current_setting('kg.reverts', true), '')::BIGINT
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_kg_nodes_changes AFTER INSERT OR UPDATE OR DELETE ON kg_nodes
+    FOR EACH ROW EXECUTE FUNCTION log_graph_change();
+
+CREATE TRIGGER log_kg_edges_changes AFTER INSERT OR UPDATE OR DELETE ON kg_edges
+    FOR EACH ROW EXECUTE FUNCTION log_graph_change();
+
+CREATE OR REPLACE FUNCTION prevent_change_log_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'kg_changes is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER kg_changes_append_only BEFORE UPDATE OR DELETE ON kg_changes
+    FOR EACH ROW EXECUTE FUNCTION prevent_change_log_edits();
+
+-- Undo one logged change by writing the row back the way it was. Refuses
+-- (SQLSTATE KG409) when the row has changed since, unless forced. Undoing
+-- a node delete also restores the edges its cascade removed. The undo is
+-- logged like any other change, with reverts pointing at the original.
+-- Restored nodes come back without an embedding; lib/history.ts re-embeds them.
+CREATE OR REPLACE FUNCTION revert_change(change_id BIGINT, force BOOLEAN DEFAULT FALSE)
+RETURNS SETOF kg_changes AS $$
+DECLARE
+    change kg_changes;
+    cascaded kg_changes;
+    current_row JSONB;
+BEGIN
+    SELECT * INTO change FROM kg_changes WHERE id = change_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Change % not found', change_id USING ERRCODE = 'KG404';
+    END IF;
+
+    EXECUTE format('SELECT to_jsonb(t) - ''{embedding,embedding_model,embedded_at}''::TEXT[] FROM %I t WHERE id = $1', change.table_name)
+        INTO current_row USING change.record_id;
+    IF NOT force AND current_row - 'updated_at' IS DISTINCT FROM change.new_row - 'updated_at' THEN
+        RAISE EXCEPTION 'Change % was already reverted or has been overwritten by a later change', change_id
+            USING ERRCODE = 'KG409';
+    END IF;
+
+    PERFORM set_config('kg.reverts', change_id::TEXT, true);
+
+    IF change.operation = 'insert' THEN
+        EXECUTE format('DELETE FROM %I WHERE id = $1', change.table_name) USING change.record_id;
+    ELSIF change.table_name = 'kg_nodes' THEN
+        INSERT INTO kg_nodes SELECT * FROM jsonb_populate_record(NULL::kg_nodes, change.old_row)
+        ON CONFLICT (id) DO UPDATE SET
+            label = EXCLUDED.label,
+            type = EXCLUDED.type,
+            properties = EXCLUDED.properties,
+            aliases = EXCLUDED.aliases,
+            valid_from = EXCLUDED.valid_from,
+            valid_to = EXCLUDED.valid_to;
+    ELSE
+        INSERT INTO kg_edges SELECT * FROM jsonb_populate_record(NULL::kg_edges, change.old_row)
+        ON CONFLICT (id) DO UPDATE SET
+            source_id = EXCLUDED.source_id,
+            target_id = EXCLUDED.target_id,
+            relationship = EXCLUDED.relationship,
+            properties = EXCLUDED.properties,
+            weight = EXCLUDED.weight,
+            valid_from = EXCLUDED.valid_from,
+            valid_to = EXCLUDED.valid_to;
+    END IF;
+
+    IF change.table_name = 'kg_nodes' AND change.operation = 'delete' THEN
+        FOR cascaded IN
+            SELECT * FROM kg_changes c
+            WHERE c.transaction_id = change.transaction_id
+            AND c.table_name = 'kg_edges'
+            AND c.operation = 'delete'
+            AND c.node_ids @> ARRAY[change.record_id]
+            ORDER BY c.id
+        LOOP
+            -- Edges to another node deleted in the same cascade wait for that node
+            CONTINUE WHEN (SELECT count(*) FROM kg_nodes WHERE id = ANY(cascaded.node_ids)) < cardinality(cascaded.node_ids);
+            PERFORM set_config('kg.reverts', cascaded.id::TEXT, true);
+            INSERT INTO kg_edges SELECT * FROM jsonb_populate_record(NULL::kg_edges, cascaded.old_row)
+            ON CONFLICT DO NOTHING;
+        END LOOP;
+    END IF;
+
+    PERFORM set_config('kg.reverts', '', true);
+    RETURN QUERY SELECT * FROM kg_changes WHERE transaction_id = txid_current() ORDER BY id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Undo everything one chat turn changed, newest first, in one transaction:
+-- if any change can't be undone, none are
+CREATE OR REPLACE FUNCTION revert_turn(conversation TEXT, turn TEXT, force BOOLEAN DEFAULT FALSE)
+RETURNS SETOF kg_changes AS $$
+DECLARE
+    change kg_changes;
+    reverted INT := 0;
+BEGIN
+    FOR change IN
+        SELECT * FROM kg_changes c
+        WHERE c.conversation_id = conversation
+        AND c.turn_id = turn
+        -- Edges removed by deleting one of their nodes come back with the node
+        AND NOT (c.table_name = 'kg_edges' AND c.operation = 'delete' AND EXISTS (
+            SELECT 1 FROM kg_changes n
+            WHERE n.transaction_id = c.transaction_id
+            AND n.table_name = 'kg_nodes'
+            AND n.operation = 'delete'
+            AND n.record_id = ANY(c.node_ids)
+        ))
+        ORDER BY c.id DESC
+    LOOP
+        PERFORM revert_change(change.id, force);
+        reverted := reverted + 1;
+    END LOOP;
+
+    IF reverted = 0 THEN
+        RAISE EXCEPTION 'No changes recorded for turn % of conversation %', turn, conversation
+            USING ERRCODE = 'KG404';
+    END IF;
+    RETURN QUERY SELECT * FROM kg_changes WHERE transaction_id = txid_current() ORDER BY id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Node pairs whose embeddings are at least similarity_threshold alike,
+-- from each node's nearest neighbors. Dismissed pairs are left out.
+CREATE OR REPLACE FUNCTION find_duplicate_candidates(
+    similarity_threshold FLOAT DEFAULT 0.9,
+    neighbors INT DEFAULT 5,
+    max_pairs INT DEFAULT 200
+)
+RETURNS TABLE(node_a UUID, node_b UUID, similarity FLOAT) AS $$
+SELECT DISTINCT ON (pair.node_a, pair.node_b) pair.node_a, pair.node_b, pair.similarity
+FROM (
+    SELECT
+        LEAST(n.id, neighbor.id) AS node_a,
+        GREATEST(n.id, neighbor.id) AS node_b,
+        1 - (n.embedding <=> neighbor.embedding) AS similarity
+    FROM kg_nodes n
+    CROSS JOIN LATERAL (
+        SELECT other.id, other.embedding
+        FROM kg_nodes other
+        WHERE other.id <> n.id AND other.embedding IS NOT NULL
+        ORDER BY other.embedding <=> n.embedding
+        LIMIT neighbors
+    ) neighbor
+    WHERE n.embedding IS NOT NULL
+) pair
+WHERE pair.similarity >= similarity_threshold
+AND NOT EXISTS (
+    SELECT 1 FROM kg_duplicate_dismissals d
+    WHERE d.node_a = pair.node_a AND d.node_b = pair.node_b
+)
+ORDER BY pair.node_a, pair.node_b
+LIMIT max_pairs;
+$$ LANGUAGE SQL STABLE;
+
+-- Merge duplicate nodes into a survivor in one transaction. Edges are
+-- re-pointed to the survivor; one that would duplicate an edge the survivor
+-- already has is folded into it (provenance moves, its properties fill
+-- gaps), and edges between the merged nodes are dropped. The survivor keeps
+-- its own values and takes missing properties and type from the duplicates,
+-- and their labels and aliases become aliases. Every step is logged to
+-- kg_changes by the usual triggers, and the merge itself to kg_node_merges.
+-- SECURITY DEFINER because API clients can only read kg_node_merges.
+CREATE OR REPLACE FUNCTION merge_nodes(survivor_id UUID, duplicate_ids UUID[])
+RETURNS kg_node_merges AS $$
+DECLARE
+    headers JSON := NULLIF(current_setting('request.headers', true), '')::JSON;
+    claims JSON := NULLIF(current_setting('request.jwt.claims', true), '')::JSON;
+    survivor kg_nodes;
+    duplicate kg_nodes;
+    edge kg_edges;
+    existing_id UUID;
+    new_source UUID;
+    new_target UUID;
+    merged_properties JSONB;
+    merged_aliases TEXT[];
+    merged_type VARCHAR(100);
+    snapshots JSONB := '[]';
+    moved INT := 0;
+    folded INT := 0;
+    dropped INT := 0;
+    result kg_node_merges;
+BEGIN
+    duplicate_ids := ARRAY(SELECT DISTINCT unnest(duplicate_ids));
+    IF cardinality(duplicate_ids) = 0 OR survivor_id = ANY(duplicate_ids) THEN
+        RAISE EXCEPTION 'Pick a survivor and at least one other node to merge into it' USING ERRCODE = 'KG400';
+    END IF;
+
+    SELECT * INTO survivor FROM kg_nodes WHERE id = survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Node % not found', survivor_id USING ERRCODE = 'KG404';
+    END IF;
+    IF (SELECT count(*) FROM kg_nodes WHERE id = ANY(duplicate_ids)) < cardinality(duplicate_ids) THEN
+        RAISE EXCEPTION 'Some of the nodes to merge no longer exist' USING ERRCODE = 'KG404';
+    END IF;
+
+    merged_properties := COALESCE(survivor.properties, '{}');
+    merged_aliases := COALESCE(survivor.aliases, '{}');
+    merged_type := survivor.type;
+    FOR duplicate IN SELECT * FROM kg_nodes WHERE id = ANY(duplicate_ids) ORDER BY created_at FOR UPDATE LOOP
+        merged_properties := COALESCE(duplicate.properties, '{}') || merged_properties;
+        merged_aliases := merged_aliases || duplicate.label::TEXT || COALESCE(duplicate.aliases, '{}');
+        merged_type := COALESCE(merged_type, duplicate.type);
+        snapshots := snapshots || jsonb_build_array(to_jsonb(duplicate) - '{embedding,embedding_model,embedded_at}'::TEXT[]);
+    END LOOP;
+
+    FOR edge IN
+        SELECT * FROM kg_edges
+        WHERE source_id = ANY(duplicate_ids) OR target_id = ANY(duplicate_ids)
+        ORDER BY created_at
+    LOOP
+        new_source := CASE WHEN edge.source_id = ANY(duplicate_ids) THEN survivor_id ELSE edge.source_id END;
+        new_target := CASE WHEN edge.target_id = ANY(duplicate_ids) THEN survivor_id ELSE edge.target_id END;
+
+        IF new_source = new_target THEN
+            DELETE FROM kg_edges WHERE id = edge.id;
+            dropped := dropped + 1;
+            CONTINUE;
+        END IF;
+
+        existing_id := NULL;
+        SELECT id INTO existing_id FROM kg_edges
+        WHERE source_id = new_source AND target_id = new_target
+        AND relationship = edge.relationship AND id <> edge.id;
+
+        IF existing_id IS NOT NULL THEN
+            INSERT INTO kg_edge_chunks (edge_id, chunk_id, evidence, created_at)
+            SELECT existing_id, chunk_id, evidence, created_at FROM kg_edge_chunks WHERE edge_id = edge.id
+            ON CONFLICT DO NOTHING;
+            UPDATE kg_edges SET properties = COALESCE(edge.properties, '{}') || COALESCE(properties, '{}')
+            WHERE id = existing_id;
+            DELETE FROM kg_edges WHERE id = edge.id;
+            folded := folded + 1;
+        ELSE
+            UPDATE kg_edges SET source_id = new_source, target_id = new_target WHERE id = edge.id;
+            moved := moved + 1;
+        END IF;
+    END LOOP;
+
+    INSERT INTO kg_node_chunks (node_id, chunk_id, created_at)
+    SELECT survivor_id, chunk_id, created_at FROM kg_node_chunks WHERE node_id = ANY(duplicate_ids)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM kg_nodes WHERE id = ANY(duplicate_ids);
+
+    UPDATE kg_nodes SET
+        type = merged_type,
+        properties = merged_properties,
+        aliases = ARRAY(
+            SELECT DISTINCT ON (lower(alias)) alias
+            FROM unnest(merged_aliases) AS alias
+            WHERE lower(alias) <> lower(survivor.label)
+            ORDER BY lower(alias), alias
+        )
+    WHERE id = survivor_id;
+
+    INSERT INTO kg_node_merges (
+        survivor_id, merged_ids, merged_nodes, edges_moved, edges_merged, edges_dropped, actor, client_label
+    )
+    VALUES (
+        survivor_id, duplicate_ids, snapshots, moved, folded, dropped,
+        COALESCE(headers ->> 'x-change-actor', claims ->> 'sub', claims ->> 'role', session_user::TEXT),
+        headers ->> 'x-change-client'
+    )
+    RETURNING * INTO result;
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- =================================================================
 -- ROW LEVEL SECURITY (Optional but recommended)
 -- =================================================================
@@ -255,6 +1285,20 @@ ALTER TABLE kg_nodes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE kg_edges ENABLE ROW LEVEL SECURITY;
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_node_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_edge_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_communities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_community_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_node_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_relationship_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kg_node_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_comparisons ENABLE ROW LEVEL SECURITY;
 
 -- Create policies (adjust based on your auth strategy)
 -- For now, we'll create permissive policies for demo purposes
@@ -268,4 +1312,48 @@ CREATE POLICY "Enable all access for authenticated users" ON documents
     FOR ALL USING (true);
 
 CREATE POLICY "Enable all access for authenticated users" ON document_chunks
-    FOR ALL USING (true);
\ No newline at end of file
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_node_chunks
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_edge_chunks
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_communities
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_community_members
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_workspaces
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_proposals
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_node_types
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_relationship_types
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON kg_duplicate_dismissals
+    FOR ALL USING (true);
+
+-- Merges are recorded only by merge_nodes
+CREATE POLICY "Enable read access for all users" ON kg_node_merges
+    FOR SELECT USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON chat_conversations
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON chat_messages
+    FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for authenticated users" ON chat_comparisons
+    FOR ALL USING (true);
+
+-- The change log is written only by triggers
+CREATE POLICY "Enable read access for all users" ON kg_changes
+    FOR SELECT USING (true);
\ No newline at end of file